@@ -0,0 +1,5 @@
+import { ApprovalsRoute } from '../../ui/pages/approvals'
+
+export default function Page() {
+  return <ApprovalsRoute />
+}
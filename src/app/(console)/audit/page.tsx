@@ -0,0 +1,5 @@
+import { AuditRoute } from '../../ui/pages/audit'
+
+export default function Page() {
+  return <AuditRoute />
+}
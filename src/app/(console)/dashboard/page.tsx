@@ -0,0 +1,5 @@
+import { DashboardRoute } from '../../ui/pages/dashboard'
+
+export default function Page() {
+  return <DashboardRoute />
+}
@@ -0,0 +1,5 @@
+import { FxRatesRoute } from '../../ui/pages/fx-rates'
+
+export default function Page() {
+  return <FxRatesRoute />
+}
@@ -0,0 +1,12 @@
+import { Suspense } from 'react'
+import LoadHarbourPayrollUI from '../ui/LoadHarbourPayrollUI'
+
+// Every console page shares the shell: session, data, navigation and modals. The ledger
+// reads its view from the query string, which needs a Suspense boundary when prerendered.
+export default function ConsoleLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <Suspense>
+      <LoadHarbourPayrollUI>{children}</LoadHarbourPayrollUI>
+    </Suspense>
+  )
+}
@@ -0,0 +1,5 @@
+import { MyPaymentsRoute } from '../../../ui/pages/my-payments'
+
+export default function Page() {
+  return <MyPaymentsRoute />
+}
@@ -0,0 +1,6 @@
+import { PaymentDetailRoute } from '../../../ui/pages/payment-detail'
+
+export default async function Page({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  return <PaymentDetailRoute id={id} />
+}
@@ -0,0 +1,5 @@
+import { PaymentsRoute } from '../../ui/pages/payments'
+
+export default function Page() {
+  return <PaymentsRoute />
+}
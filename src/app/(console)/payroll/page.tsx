@@ -0,0 +1,5 @@
+import { PayrollRoute } from '../../ui/pages/payroll'
+
+export default function Page() {
+  return <PayrollRoute />
+}
@@ -0,0 +1,5 @@
+import { ReconciliationRoute } from '../../ui/pages/reconciliation'
+
+export default function Page() {
+  return <ReconciliationRoute />
+}
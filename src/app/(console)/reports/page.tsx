@@ -0,0 +1,5 @@
+import { ReportsRoute } from '../../ui/pages/reports'
+
+export default function Page() {
+  return <ReportsRoute />
+}
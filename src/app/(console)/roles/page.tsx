@@ -0,0 +1,5 @@
+import { RolesRoute } from '../../ui/pages/roles'
+
+export default function Page() {
+  return <RolesRoute />
+}
@@ -0,0 +1,6 @@
+import { StaffDetailRoute } from '../../../ui/pages/staff-detail'
+
+export default async function Page({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  return <StaffDetailRoute id={id} />
+}
@@ -0,0 +1,5 @@
+import { StaffRoute } from '../../ui/pages/staff'
+
+export default function Page() {
+  return <StaffRoute />
+}
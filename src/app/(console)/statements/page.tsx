@@ -0,0 +1,5 @@
+import { StatementsRoute } from '../../ui/pages/statements'
+
+export default function Page() {
+  return <StatementsRoute />
+}
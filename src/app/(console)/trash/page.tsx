@@ -0,0 +1,5 @@
+import { TrashRoute } from '../../ui/pages/trash'
+
+export default function Page() {
+  return <TrashRoute />
+}
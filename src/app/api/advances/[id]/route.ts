@@ -0,0 +1,10 @@
+import { deleteAdvance } from '@/server/advances'
+import { requirePermission } from '@/server/auth'
+import { respond } from '@/server/http'
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => deleteAdvance(await requirePermission('payments.edit'), id))
+}
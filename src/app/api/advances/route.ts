@@ -0,0 +1,11 @@
+import { createAdvance, listAdvances } from '@/server/advances'
+import { requirePermission, requireSession } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+
+export async function GET() {
+  return respond(async () => listAdvances(await requireSession()))
+}
+
+export async function POST(req: Request) {
+  return respond(async () => createAdvance(await requirePermission('payments.edit'), await readJson(req)), { status: 201 })
+}
@@ -0,0 +1,12 @@
+import { listAudit } from '@/server/audit'
+import { requirePermission } from '@/server/auth'
+import { respond } from '@/server/http'
+
+// ?payment=<id> or ?staff=<id> narrows the log to that record's history.
+export async function GET(req: Request) {
+  const query = new URL(req.url).searchParams
+  return respond(async () => {
+    await requirePermission('audit.view')
+    return listAudit({ payment: query.get('payment'), staff: query.get('staff') })
+  })
+}
@@ -0,0 +1,10 @@
+import { verifyAudit } from '@/server/audit'
+import { requirePermission } from '@/server/auth'
+import { respond } from '@/server/http'
+
+export async function GET() {
+  return respond(async () => {
+    await requirePermission('audit.view')
+    return verifyAudit()
+  })
+}
@@ -0,0 +1,6 @@
+import { login } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+
+export async function POST(req: Request) {
+  return respond(async () => login(await readJson(req)))
+}
@@ -0,0 +1,6 @@
+import { logout } from '@/server/auth'
+import { respond } from '@/server/http'
+
+export async function POST() {
+  return respond(() => logout())
+}
@@ -0,0 +1,6 @@
+import { requireSession } from '@/server/auth'
+import { respond } from '@/server/http'
+
+export async function GET() {
+  return respond(() => requireSession())
+}
@@ -0,0 +1,10 @@
+import { requirePermission } from '@/server/auth'
+import { deleteFxRate } from '@/server/fx-rates'
+import { respond } from '@/server/http'
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => deleteFxRate(await requirePermission('settings.edit'), id))
+}
@@ -0,0 +1,14 @@
+import { requirePermission } from '@/server/auth'
+import { createFxRate, listFxRates } from '@/server/fx-rates'
+import { readJson, respond } from '@/server/http'
+
+export async function GET() {
+  return respond(async () => {
+    await requirePermission('payments.view')
+    return listFxRates()
+  })
+}
+
+export async function POST(req: Request) {
+  return respond(async () => createFxRate(await requirePermission('settings.edit'), await readJson(req)), { status: 201 })
+}
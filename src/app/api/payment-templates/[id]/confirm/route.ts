@@ -0,0 +1,10 @@
+import { requirePermission } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+import { confirmTemplateOccurrence } from '@/server/payment-templates'
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function POST(req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => confirmTemplateOccurrence(await requirePermission('payments.edit'), id, await readJson(req)), { status: 201 })
+}
@@ -0,0 +1,14 @@
+import { requirePermission } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+import { createPaymentTemplate, listPaymentTemplates } from '@/server/payment-templates'
+
+export async function GET() {
+  return respond(async () => {
+    await requirePermission('payments.view')
+    return listPaymentTemplates()
+  })
+}
+
+export async function POST(req: Request) {
+  return respond(async () => createPaymentTemplate(await requirePermission('payments.edit'), await readJson(req)), { status: 201 })
+}
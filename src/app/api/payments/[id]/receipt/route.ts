@@ -0,0 +1,25 @@
+import { requirePermission, requireSession } from '@/server/auth'
+import { badRequest, respond, respondFile } from '@/server/http'
+import { attachReceipt, readReceipt, removeReceipt } from '@/server/receipts'
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function GET(req: Request, { params }: Params) {
+  const { id } = await params
+  const disposition = new URL(req.url).searchParams.has('download') ? 'attachment' : 'inline'
+  return respondFile(async () => readReceipt(await requireSession(), id, disposition))
+}
+
+export async function POST(req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => {
+    const actor = await requirePermission('payments.edit')
+    const form = await req.formData().catch(() => badRequest('Expected multipart form data'))
+    return attachReceipt(actor, id, form.get('file'))
+  })
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => removeReceipt(await requirePermission('payments.edit'), id))
+}
@@ -0,0 +1,22 @@
+import { requirePermission, requireSession } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+import { getPayment, updatePayment } from '@/server/payments'
+import { trashPayment } from '@/server/trash'
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => getPayment(await requireSession(), id))
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => updatePayment(await requirePermission('payments.edit'), id, await readJson(req)))
+}
+
+// Soft delete: moves the payment to the trash. Body: { reason }.
+export async function DELETE(req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => trashPayment(await requirePermission('payments.edit'), id, await readJson(req)))
+}
@@ -0,0 +1,12 @@
+import { requireSession } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+import { transitionPayment } from '@/server/payment-approvals'
+
+type Params = { params: Promise<{ id: string }> }
+
+// Moves a payment through the approval workflow. Body: { to, note? }. Who may take
+// each step is checked against PAYMENT_TRANSITIONS.
+export async function POST(req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => transitionPayment(await requireSession(), id, await readJson(req)))
+}
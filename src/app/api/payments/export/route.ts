@@ -0,0 +1,11 @@
+import { parseLedgerFilters } from '@/lib/ledger'
+import { requireSession } from '@/server/auth'
+import { respondFile } from '@/server/http'
+import { exportPaymentsCsv } from '@/server/payments'
+
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams
+  return respondFile(async () =>
+    exportPaymentsCsv(await requireSession(), parseLedgerFilters(params), params.get('base') ?? undefined)
+  )
+}
@@ -0,0 +1,11 @@
+import { requirePermission } from '@/server/auth'
+import { badRequest, respond } from '@/server/http'
+import { previewImport } from '@/server/payment-import'
+
+export async function POST(req: Request) {
+  return respond(async () => {
+    await requirePermission('payments.edit')
+    const form = await req.formData().catch(() => badRequest('Expected multipart form data'))
+    return previewImport(form.get('file'))
+  })
+}
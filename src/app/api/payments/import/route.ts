@@ -0,0 +1,14 @@
+import { requirePermission } from '@/server/auth'
+import { badRequest, respond } from '@/server/http'
+import { commitImport } from '@/server/payment-import'
+
+export async function POST(req: Request) {
+  return respond(
+    async () => {
+      const actor = await requirePermission('payments.edit')
+      const form = await req.formData().catch(() => badRequest('Expected multipart form data'))
+      return commitImport(actor, form.get('file'), form.get('overrideRows'))
+    },
+    { status: 201 }
+  )
+}
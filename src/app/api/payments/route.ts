@@ -0,0 +1,11 @@
+import { requirePermission, requireSession } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+import { createPayment, listPayments } from '@/server/payments'
+
+export async function GET() {
+  return respond(async () => listPayments(await requireSession()))
+}
+
+export async function POST(req: Request) {
+  return respond(async () => createPayment(await requirePermission('payments.edit'), await readJson(req)), { status: 201 })
+}
@@ -0,0 +1,10 @@
+import { requirePermission } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+import { finalizePayrollRun } from '@/server/payroll-runs'
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function POST(req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => finalizePayrollRun(await requirePermission('payments.edit'), id, await readJson(req)))
+}
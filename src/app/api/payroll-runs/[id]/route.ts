@@ -0,0 +1,15 @@
+import { requirePermission } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+import { deletePayrollRun, updatePayrollRun } from '@/server/payroll-runs'
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function PATCH(req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => updatePayrollRun(await requirePermission('payments.edit'), id, await readJson(req)))
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => deletePayrollRun(await requirePermission('payments.edit'), id))
+}
@@ -0,0 +1,14 @@
+import { requirePermission } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+import { createPayrollRun, listPayrollRuns } from '@/server/payroll-runs'
+
+export async function GET() {
+  return respond(async () => {
+    await requirePermission('payments.view')
+    return listPayrollRuns()
+  })
+}
+
+export async function POST(req: Request) {
+  return respond(async () => createPayrollRun(await requirePermission('payments.edit'), await readJson(req)), { status: 201 })
+}
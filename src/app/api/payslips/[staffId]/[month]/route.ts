@@ -0,0 +1,10 @@
+import { requireSession } from '@/server/auth'
+import { respondFile } from '@/server/http'
+import { renderPayslip } from '@/server/payslips'
+
+type Params = { params: Promise<{ staffId: string; month: string }> }
+
+export async function GET(_req: Request, { params }: Params) {
+  const { staffId, month } = await params
+  return respondFile(async () => renderPayslip(await requireSession(), staffId, month))
+}
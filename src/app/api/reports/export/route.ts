@@ -0,0 +1,16 @@
+import { requirePermission } from '@/server/auth'
+import { badRequest, respondFile } from '@/server/http'
+import { exportReportCsv, renderReportPdf } from '@/server/reports'
+
+// ?dimension=month|category|method|staff&from=YYYY-MM-DD&to=YYYY-MM-DD&base=USD&format=csv|pdf
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams
+  const query = { dimension: params.get('dimension'), from: params.get('from'), to: params.get('to'), base: params.get('base') }
+  const format = params.get('format')
+  return respondFile(async () => {
+    await requirePermission('payments.view', 'exports')
+    if (format === 'csv') return exportReportCsv(query)
+    if (format === 'pdf') return renderReportPdf(query)
+    return badRequest('format must be csv or pdf')
+  })
+}
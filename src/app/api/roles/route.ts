@@ -0,0 +1,14 @@
+import { requirePermission } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+import { getRolePermissions, updateRolePermissions } from '@/server/roles'
+
+export async function GET() {
+  return respond(async () => {
+    await requirePermission('users.manage')
+    return getRolePermissions()
+  })
+}
+
+export async function PUT(req: Request) {
+  return respond(async () => updateRolePermissions(await requirePermission('users.manage'), await readJson(req)))
+}
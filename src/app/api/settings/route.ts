@@ -0,0 +1,14 @@
+import { requirePermission, requireSession } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+import { getSettings, updateSettings } from '@/server/settings'
+
+export async function GET() {
+  return respond(async () => {
+    await requireSession()
+    return getSettings()
+  })
+}
+
+export async function PATCH(req: Request) {
+  return respond(async () => updateSettings(await requirePermission('settings.edit'), await readJson(req)))
+}
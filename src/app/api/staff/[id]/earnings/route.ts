@@ -0,0 +1,17 @@
+import { requireSession } from '@/server/auth'
+import { exportEarningsCsv, getEarningsStatement, renderEarningsPdf } from '@/server/earnings'
+import { respond, respondFile } from '@/server/http'
+
+type Params = { params: Promise<{ id: string }> }
+
+// ?year=2025&basis=calendar|fiscal, plus format=csv|pdf for a download.
+export async function GET(req: Request, { params }: Params) {
+  const { id } = await params
+  const query = new URL(req.url).searchParams
+  const year = query.get('year')
+  const basis = query.get('basis')
+  const format = query.get('format')
+  if (format === 'csv') return respondFile(async () => exportEarningsCsv(await requireSession(), id, year, basis))
+  if (format === 'pdf') return respondFile(async () => renderEarningsPdf(await requireSession(), id, year, basis))
+  return respond(async () => getEarningsStatement(await requireSession(), id, year, basis))
+}
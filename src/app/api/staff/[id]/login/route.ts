@@ -0,0 +1,9 @@
+import { requirePermission, setStaffLogin } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function PUT(req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => setStaffLogin(await requirePermission('users.manage'), id, await readJson(req)))
+}
@@ -0,0 +1,22 @@
+import { requirePermission, requireSession } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+import { getStaff, updateStaff } from '@/server/staff'
+import { trashStaff } from '@/server/trash'
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => getStaff(await requireSession(), id))
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => updateStaff(await requirePermission('staff.edit'), id, await readJson(req)))
+}
+
+// Soft delete: moves the staff record to the trash. Body: { reason }.
+export async function DELETE(req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => trashStaff(await requirePermission('staff.edit'), id, await readJson(req)))
+}
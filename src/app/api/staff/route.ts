@@ -0,0 +1,11 @@
+import { requirePermission, requireSession } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+import { createStaff, listStaff } from '@/server/staff'
+
+export async function GET() {
+  return respond(async () => listStaff(await requireSession()))
+}
+
+export async function POST(req: Request) {
+  return respond(async () => createStaff(await requirePermission('staff.edit'), await readJson(req)), { status: 201 })
+}
@@ -0,0 +1,11 @@
+import { requirePermission } from '@/server/auth'
+import { badRequest, respond } from '@/server/http'
+import { reconcileStatement } from '@/server/statements'
+
+export async function POST(req: Request) {
+  return respond(async () => {
+    await requirePermission('payments.view')
+    const form = await req.formData().catch(() => badRequest('Expected multipart form data'))
+    return reconcileStatement(form.get('provider'), form.get('file'))
+  })
+}
@@ -0,0 +1,10 @@
+import { requireSession } from '@/server/auth'
+import { respond } from '@/server/http'
+import { restoreTrashItem } from '@/server/trash'
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function POST(_req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => restoreTrashItem(await requireSession(), id))
+}
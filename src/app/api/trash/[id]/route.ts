@@ -0,0 +1,11 @@
+import { requirePermission } from '@/server/auth'
+import { readJson, respond } from '@/server/http'
+import { purgeTrashItem } from '@/server/trash'
+
+type Params = { params: Promise<{ id: string }> }
+
+// Permanent purge. Body: { reason }.
+export async function DELETE(req: Request, { params }: Params) {
+  const { id } = await params
+  return respond(async () => purgeTrashItem(await requirePermission('trash.purge'), id, await readJson(req)))
+}
@@ -0,0 +1,8 @@
+import { requireSession } from '@/server/auth'
+import { respond } from '@/server/http'
+import { listTrash } from '@/server/trash'
+
+// Each user sees the deleted records they could restore: payments with payments.edit, staff with staff.edit.
+export async function GET() {
+  return respond(async () => listTrash(await requireSession()))
+}
@@ -0,0 +1,10 @@
+import { Suspense } from 'react'
+import { LoginPage } from '../ui/pages/login'
+
+export default function Page() {
+  return (
+    <Suspense>
+      <LoginPage />
+    </Suspense>
+  )
+}
@@ -1 +0,0 @@
-export { default } from "./ui/LoadHarbourPayrollUI";
@@ -0,0 +1,184 @@
+import { ledgerSearchParams, type LedgerFilters } from '@/lib/ledger'
+import type { ReportDimension } from '@/lib/reports'
+import type {
+  Advance,
+  AdvanceInput,
+  AnomalyKind,
+  AnomalyOverride,
+  AuditLog,
+  AuditVerification,
+  EarningsBasis,
+  EarningsStatement,
+  FxRate,
+  ImportBatch,
+  ImportPreview,
+  NewPaymentInput,
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentTemplate,
+  PaymentTemplateInput,
+  PayrollRun,
+  PayrollRunItem,
+  Role,
+  RolePermissions,
+  SessionUser,
+  Settings,
+  Staff,
+  StaffInput,
+  StatementReconciliation,
+  TrashItem,
+} from '@/lib/types'
+
+// ---------------------------
+// Browser client for the /api route handlers
+// ---------------------------
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+async function request<T>(url: string, init?: { method?: string; body?: unknown }): Promise<T> {
+  const isJson = init?.body !== undefined && !(init.body instanceof FormData)
+  const res = await fetch(url, {
+    method: init?.method ?? 'GET',
+    headers: isJson ? { 'Content-Type': 'application/json' } : undefined,
+    // Cleared optional fields are sent as null so a PATCH can unset them.
+    body: isJson ? JSON.stringify(init.body, (_k, v) => (v === undefined ? null : v)) : (init?.body as FormData | undefined),
+    cache: 'no-store',
+  })
+  const data = await res.json().catch(() => null)
+  if (!res.ok) throw new ApiError(res.status, data?.error || `Request failed (${res.status})`)
+  return data as T
+}
+
+/** Fetches a file from an authenticated endpoint and hands it to the browser as a download. */
+async function download(url: string) {
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) {
+    const data = await res.json().catch(() => null)
+    throw new ApiError(res.status, data?.error || `Download failed (${res.status})`)
+  }
+  const filename = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') || '')?.[1] || 'download'
+  const href = URL.createObjectURL(await res.blob())
+  const a = document.createElement('a')
+  a.href = href
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(href)
+}
+
+export const api = {
+  getSession: () =>
+    request<SessionUser>('/api/auth/session').catch((err) => {
+      if (err instanceof ApiError && err.status === 401) return null
+      throw err
+    }),
+  login: (email: string, password: string) =>
+    request<SessionUser>('/api/auth/login', { method: 'POST', body: { email, password } }),
+  logout: () => request<{ ok: true }>('/api/auth/logout', { method: 'POST' }),
+
+  listPayments: () => request<Payment[]>('/api/payments'),
+  createPayment: (p: NewPaymentInput) => request<Payment>('/api/payments', { method: 'POST', body: p }),
+  updatePayment: (id: string, patch: Partial<Payment> & AnomalyOverride) =>
+    request<Payment>(`/api/payments/${encodeURIComponent(id)}`, { method: 'PATCH', body: patch }),
+  deletePayment: (id: string, reason: string) =>
+    request<TrashItem>(`/api/payments/${encodeURIComponent(id)}`, { method: 'DELETE', body: { reason } }),
+  transitionPayment: (id: string, to: PaymentStatus, note?: string) =>
+    request<Payment>(`/api/payments/${encodeURIComponent(id)}/status`, { method: 'POST', body: { to, note } }),
+  receiptUrl: (id: string) => `/api/payments/${encodeURIComponent(id)}/receipt`,
+  uploadReceipt: (id: string, file: File) => {
+    const form = new FormData()
+    form.append('file', file)
+    return request<Payment>(`/api/payments/${encodeURIComponent(id)}/receipt`, { method: 'POST', body: form })
+  },
+  removeReceipt: (id: string) => request<Payment>(`/api/payments/${encodeURIComponent(id)}/receipt`, { method: 'DELETE' }),
+  downloadReceipt: (id: string) => download(`/api/payments/${encodeURIComponent(id)}/receipt?download=1`),
+  downloadPayslip: (staffId: string, month: string) =>
+    download(`/api/payslips/${encodeURIComponent(staffId)}/${encodeURIComponent(month)}`),
+  getEarningsStatement: (staffId: string, year: number, basis: EarningsBasis) =>
+    request<EarningsStatement>(`/api/staff/${encodeURIComponent(staffId)}/earnings?${new URLSearchParams({ year: String(year), basis })}`),
+  downloadEarningsStatement: (staffId: string, year: number, basis: EarningsBasis, format: 'csv' | 'pdf') =>
+    download(`/api/staff/${encodeURIComponent(staffId)}/earnings?${new URLSearchParams({ year: String(year), basis, format })}`),
+  previewImport: (file: File) => {
+    const form = new FormData()
+    form.append('file', file)
+    return request<ImportPreview>('/api/payments/import/preview', { method: 'POST', body: form })
+  },
+  commitImport: (file: File, overrideRows: number[]) => {
+    const form = new FormData()
+    form.append('file', file)
+    if (overrideRows.length) form.append('overrideRows', overrideRows.join(','))
+    return request<{ batch: ImportBatch; payments: Payment[] }>('/api/payments/import', { method: 'POST', body: form })
+  },
+  exportPayments: (filters: LedgerFilters, base: string) => {
+    const params = ledgerSearchParams({ ...filters, page: 1 })
+    params.set('base', base)
+    return download(`/api/payments/export?${params}`)
+  },
+  exportReport: (dimension: ReportDimension, from: string, to: string, base: string, format: 'csv' | 'pdf') =>
+    download(`/api/reports/export?${new URLSearchParams({ dimension, from, to, base, format })}`),
+
+  reconcileStatement: (provider: PaymentMethod, file: File) => {
+    const form = new FormData()
+    form.append('provider', provider)
+    form.append('file', file)
+    return request<StatementReconciliation>('/api/statements/reconcile', { method: 'POST', body: form })
+  },
+
+  listStaff: () => request<Staff[]>('/api/staff'),
+  createStaff: (s: StaffInput) => request<Staff>('/api/staff', { method: 'POST', body: s }),
+  updateStaff: (id: string, patch: Partial<StaffInput>) =>
+    request<Staff>(`/api/staff/${encodeURIComponent(id)}`, { method: 'PATCH', body: patch }),
+  setStaffLogin: (id: string, login: { password: string; role: Role }) =>
+    request<{ staffId: string; role: Role }>(`/api/staff/${encodeURIComponent(id)}/login`, { method: 'PUT', body: login }),
+  deleteStaff: (id: string, reason: string) =>
+    request<TrashItem>(`/api/staff/${encodeURIComponent(id)}`, { method: 'DELETE', body: { reason } }),
+
+  getRolePermissions: () => request<RolePermissions>('/api/roles'),
+  updateRolePermissions: (matrix: RolePermissions) => request<RolePermissions>('/api/roles', { method: 'PUT', body: matrix }),
+
+  listTrash: () => request<TrashItem[]>('/api/trash'),
+  restoreTrashItem: (id: string) => request<TrashItem>(`/api/trash/${encodeURIComponent(id)}/restore`, { method: 'POST' }),
+  purgeTrashItem: (id: string, reason: string) =>
+    request<{ id: string }>(`/api/trash/${encodeURIComponent(id)}`, { method: 'DELETE', body: { reason } }),
+
+  listFxRates: () => request<FxRate[]>('/api/fx-rates'),
+  createFxRate: (r: Omit<FxRate, 'id'>) => request<FxRate>('/api/fx-rates', { method: 'POST', body: r }),
+  deleteFxRate: (id: string) => request<{ id: string }>(`/api/fx-rates/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+
+  listPayrollRuns: () => request<PayrollRun[]>('/api/payroll-runs'),
+  createPayrollRun: (monthEarned: string) => request<PayrollRun>('/api/payroll-runs', { method: 'POST', body: { monthEarned } }),
+  updatePayrollRun: (id: string, items: PayrollRunItem[]) =>
+    request<PayrollRun>(`/api/payroll-runs/${encodeURIComponent(id)}`, { method: 'PATCH', body: { items } }),
+  finalizePayrollRun: (id: string, dateSent: string, overrideWarnings: AnomalyKind[]) =>
+    request<PayrollRun>(`/api/payroll-runs/${encodeURIComponent(id)}/finalize`, { method: 'POST', body: { dateSent, overrideWarnings } }),
+  deletePayrollRun: (id: string) => request<{ id: string }>(`/api/payroll-runs/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+
+  listPaymentTemplates: () => request<PaymentTemplate[]>('/api/payment-templates'),
+  createPaymentTemplate: (t: PaymentTemplateInput) => request<PaymentTemplate>('/api/payment-templates', { method: 'POST', body: t }),
+  updatePaymentTemplate: (id: string, patch: Partial<PaymentTemplateInput>) =>
+    request<PaymentTemplate>(`/api/payment-templates/${encodeURIComponent(id)}`, { method: 'PATCH', body: patch }),
+  deletePaymentTemplate: (id: string) => request<{ id: string }>(`/api/payment-templates/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+  confirmTemplateOccurrence: (id: string, date: string, overrideWarnings: AnomalyKind[]) =>
+    request<Payment>(`/api/payment-templates/${encodeURIComponent(id)}/confirm`, { method: 'POST', body: { date, overrideWarnings } }),
+  skipTemplateOccurrence: (id: string, date: string) =>
+    request<PaymentTemplate>(`/api/payment-templates/${encodeURIComponent(id)}/skip`, { method: 'POST', body: { date } }),
+
+  listAdvances: () => request<Advance[]>('/api/advances'),
+  createAdvance: (a: AdvanceInput) => request<Advance>('/api/advances', { method: 'POST', body: a }),
+  deleteAdvance: (id: string) => request<{ id: string }>(`/api/advances/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+
+  getSettings: () => request<Settings>('/api/settings'),
+  updateSettings: (patch: Partial<Settings>) => request<Settings>('/api/settings', { method: 'PATCH', body: patch }),
+
+  listAudit: (filter: { payment?: string; staff?: string } = {}) =>
+    request<AuditLog[]>(`/api/audit?${new URLSearchParams(filter)}`),
+  verifyAudit: () => request<AuditVerification>('/api/audit/verify'),
+}
@@ -0,0 +1,550 @@
+'use client'
+
+import Link from 'next/link'
+import React, { useMemo } from 'react'
+
+import { ADVANCE_KIND_LABELS, advanceBalance } from '@/lib/advances'
+import { formatDate, formatMoney, monthLabel } from '@/lib/format'
+import { roundMoney } from '@/lib/fx'
+import { PAY_LINE_LABELS, payBreakdown, sortedLines } from '@/lib/pay-lines'
+import { ROLE_LABELS } from '@/lib/permissions'
+import { STAFF_STATUS_LABELS } from '@/lib/staff'
+import type {
+  Advance,
+  AuditLog,
+  CompensationEntry,
+  AuditValue,
+  Currency,
+  PayLine,
+  Payment,
+  PaymentStatus,
+  SessionUser,
+  Staff,
+  StaffStatus,
+} from '@/lib/types'
+
+// ---------------------------
+// Helpers
+// ---------------------------
+
+export const STAFF_STATUS_TONES: Record<StaffStatus, 'ok' | 'warn' | 'neutral'> = {
+  active: 'ok',
+  inactive: 'neutral',
+  terminated: 'warn',
+}
+
+export const STATUS_TONES: Record<PaymentStatus, 'ok' | 'warn' | 'neutral'> = {
+  draft: 'neutral',
+  pending_approval: 'warn',
+  approved: 'neutral',
+  sent: 'ok',
+  reconciled: 'ok',
+}
+
+export function formatPay(entry: CompensationEntry | null | undefined) {
+  return entry ? `${formatMoney(entry.baseSalary, entry.currency)} / ${entry.frequency}` : '—'
+}
+
+export function cn(...classes: Array<string | false | null | undefined>) {
+  return classes.filter(Boolean).join(' ')
+}
+
+// ---------------------------
+// Small UI Primitives (Tailwind)
+// ---------------------------
+
+export function Container({ children }: { children: React.ReactNode }) {
+  return <div className="mx-auto w-full max-w-6xl px-4">{children}</div>
+}
+
+export function Card({ children, className }: { children: React.ReactNode; className?: string }) {
+  return (
+    <div className={cn('rounded-2xl border border-slate-200 bg-white shadow-sm', className)}>
+      {children}
+    </div>
+  )
+}
+
+export function CardHeader({ children, className }: { children: React.ReactNode; className?: string }) {
+  return <div className={cn('px-5 pt-5', className)}>{children}</div>
+}
+
+export function CardContent({ children, className }: { children: React.ReactNode; className?: string }) {
+  return <div className={cn('px-5 pb-5 pt-4', className)}>{children}</div>
+}
+
+export function Pill({ children, tone = 'neutral' }: { children: React.ReactNode; tone?: 'neutral' | 'warn' | 'ok' }) {
+  const toneClass =
+    tone === 'warn'
+      ? 'bg-amber-50 text-amber-800 border-amber-200'
+      : tone === 'ok'
+      ? 'bg-emerald-50 text-emerald-800 border-emerald-200'
+      : 'bg-slate-50 text-slate-800 border-slate-200'
+
+  return (
+    <span className={cn('inline-flex items-center rounded-full border px-2.5 py-1 text-xs font-medium', toneClass)}>
+      {children}
+    </span>
+  )
+}
+
+export function Button({
+  children,
+  onClick,
+  variant = 'primary',
+  size = 'md',
+  type = 'button',
+  disabled,
+}: {
+  children: React.ReactNode
+  onClick?: () => void
+  variant?: ButtonVariant
+  size?: 'sm' | 'md'
+  type?: 'button' | 'submit'
+  disabled?: boolean
+}) {
+  return (
+    <button type={type} className={buttonClass(variant, size)} onClick={onClick} disabled={disabled}>
+      {children}
+    </button>
+  )
+}
+
+type ButtonVariant = 'primary' | 'outline' | 'ghost' | 'danger'
+
+function buttonClass(variant: ButtonVariant, size: 'sm' | 'md') {
+  const base = 'inline-flex items-center justify-center rounded-xl font-medium transition focus:outline-none focus:ring-2 focus:ring-slate-300 disabled:opacity-50 disabled:cursor-not-allowed'
+  const sizes = size === 'sm' ? 'h-9 px-3 text-sm' : 'h-10 px-4 text-sm'
+  const variants =
+    variant === 'primary'
+      ? 'bg-slate-900 text-white hover:bg-slate-800'
+      : variant === 'outline'
+      ? 'border border-slate-300 bg-white text-slate-900 hover:bg-slate-50'
+      : variant === 'danger'
+      ? 'bg-red-600 text-white hover:bg-red-500'
+      : 'bg-transparent text-slate-900 hover:bg-slate-100'
+  return cn(base, sizes, variants)
+}
+
+// A page link styled like a Button.
+export function ButtonLink({
+  href,
+  children,
+  variant = 'ghost',
+  size = 'sm',
+}: {
+  href: string
+  children: React.ReactNode
+  variant?: ButtonVariant
+  size?: 'sm' | 'md'
+}) {
+  return (
+    <Link href={href} className={buttonClass(variant, size)}>
+      {children}
+    </Link>
+  )
+}
+
+export function Input({
+  value,
+  onChange,
+  placeholder,
+  type = 'text',
+  disabled,
+}: {
+  value?: string
+  onChange?: (v: string) => void
+  placeholder?: string
+  type?: string
+  disabled?: boolean
+}) {
+  return (
+    <input
+      value={value}
+      onChange={(e) => onChange?.(e.target.value)}
+      placeholder={placeholder}
+      type={type}
+      disabled={disabled}
+      className="h-10 w-full rounded-xl border border-slate-300 bg-white px-3 text-sm text-slate-900 placeholder:text-slate-400 focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-200 disabled:bg-slate-50"
+    />
+  )
+}
+
+export function Label({ children }: { children: React.ReactNode }) {
+  return <div className="text-xs font-medium text-slate-700">{children}</div>
+}
+
+export function FieldError({ message }: { message?: string }) {
+  return message ? <div className="text-xs text-red-600">{message}</div> : null
+}
+
+export function Select({
+  value,
+  onChange,
+  options,
+  placeholder,
+}: {
+  value: string
+  onChange: (v: string) => void
+  options: Array<{ label: string; value: string }>
+  placeholder?: string
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="h-10 w-full rounded-xl border border-slate-300 bg-white px-3 text-sm text-slate-900 focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-200"
+    >
+      {placeholder && <option value="">{placeholder}</option>}
+      {options.map((o) => (
+        <option key={o.value} value={o.value}>
+          {o.label}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+export function NotFoundCard({ title, backHref, backLabel }: { title: string; backHref: string; backLabel: string }) {
+  return (
+    <Card>
+      <CardContent className="flex flex-col items-start gap-3">
+        <div className="text-base font-semibold text-slate-900">{title}</div>
+        <div className="text-sm text-slate-500">It may have been deleted, or the link is out of date.</div>
+        <ButtonLink href={backHref} variant="outline">
+          ← {backLabel}
+        </ButtonLink>
+      </CardContent>
+    </Card>
+  )
+}
+
+export function Modal({
+  open,
+  title,
+  description,
+  onClose,
+  children,
+}: {
+  open: boolean
+  title: string
+  description?: string
+  onClose: () => void
+  children: React.ReactNode
+}) {
+  if (!open) return null
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <div className="absolute inset-0 flex items-center justify-center p-4">
+        <div className="w-full max-w-2xl rounded-2xl border border-slate-200 bg-white shadow-xl">
+          <div className="px-5 pt-5">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div className="text-base font-semibold text-slate-900">{title}</div>
+                {description && <div className="mt-1 text-sm text-slate-500">{description}</div>}
+              </div>
+              <button
+                className="rounded-lg px-2 py-1 text-slate-500 hover:bg-slate-100"
+                onClick={onClose}
+                aria-label="Close"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+          <div className="px-5 pb-5 pt-4">{children}</div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// ---------------------------
+// TopBar
+// ---------------------------
+
+// Shared by the console shell and the login page.
+export function TopBar({ user, onLogout }: { user: SessionUser | null; onLogout: () => void }) {
+  return (
+    <div className="sticky top-0 z-40 border-b border-slate-200 bg-white/80 backdrop-blur">
+      <Container>
+        <div className="flex items-center justify-between py-3">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-2xl bg-slate-100 text-slate-900">
+              🔒
+            </div>
+            <div>
+              <div className="font-semibold leading-none text-slate-900">LoadHarbour Payroll</div>
+              <div className="text-xs text-slate-500">Confidential payroll ledger</div>
+            </div>
+          </div>
+
+          {user && (
+            <div className="flex items-center gap-2">
+              <div className="hidden text-right sm:block">
+                <div className="text-sm font-medium leading-none text-slate-900">{user.fullName}</div>
+                <div className="text-xs text-slate-500">{user.email}</div>
+              </div>
+              <Pill>{ROLE_LABELS[user.role]}</Pill>
+              <Button variant="outline" onClick={onLogout}>
+                Logout
+              </Button>
+            </div>
+          )}
+        </div>
+      </Container>
+    </div>
+  )
+}
+
+// ---------------------------
+// Shared record views
+// ---------------------------
+
+/** One line under a ledger amount: where an itemised payment's net comes from. */
+export function LineSummary({ payment: p }: { payment: Payment }) {
+  const pay = payBreakdown(p.lines)
+  return (
+    <div className="text-xs text-slate-500" title={sortedLines(p.lines).map((l) => `${PAY_LINE_LABELS[l.kind]}: ${l.label} ${l.amount}`).join('\n')}>
+      Gross {formatMoney(pay.gross, p.currency)}
+      {pay.deductions > 0 && ` − ${formatMoney(pay.deductions, p.currency)}`}
+      {pay.fees > 0 && ` · +${formatMoney(pay.fees, p.currency)} fees`}
+    </div>
+  )
+}
+
+/** Gross to net, line by line; employer-paid fees come after net since they are not taken from it. */
+export function PayLinesTable({ lines, currency }: { lines: PayLine[]; currency: Currency }) {
+  const pay = payBreakdown(lines)
+  const sorted = sortedLines(lines)
+  const row = (l: PayLine, i: number) => (
+    <tr key={`${l.kind}:${i}`} className="border-t border-slate-200">
+      <td className="px-3 py-2 text-slate-500">{PAY_LINE_LABELS[l.kind]}</td>
+      <td className="px-3 py-2 text-slate-700">{l.label}</td>
+      <td className="px-3 py-2 text-right text-slate-900">
+        {l.kind === 'deduction' ? '−' : ''}
+        {formatMoney(l.amount, currency)}
+      </td>
+    </tr>
+  )
+  const total = (label: string, amount: number) => (
+    <tr className="border-t border-slate-300 bg-slate-50 font-semibold text-slate-900">
+      <td className="px-3 py-2" colSpan={2}>
+        {label}
+      </td>
+      <td className="px-3 py-2 text-right">{formatMoney(amount, currency)}</td>
+    </tr>
+  )
+
+  return (
+    <div className="overflow-hidden rounded-xl border border-slate-200">
+      <table className="w-full text-sm">
+        <tbody>
+          {sorted.filter((l) => l.kind === 'earning' || l.kind === 'allowance').map(row)}
+          {total('Gross pay', pay.gross)}
+          {sorted.filter((l) => l.kind === 'deduction').map(row)}
+          {total('Net pay (amount sent)', pay.net)}
+          {sorted.filter((l) => l.kind === 'fee').map(row)}
+          {pay.fees > 0 && total('Cost to the company', pay.employerCost)}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-xs font-medium uppercase tracking-wide text-slate-500">{label}</div>
+      <div className="mt-0.5 text-sm text-slate-900">{children}</div>
+    </div>
+  )
+}
+
+// An advance can be deleted only until a payment deducts something for it.
+export function AdvancesCard({
+  advances,
+  payments,
+  description,
+  onAdd,
+  onDelete,
+}: {
+  advances: Advance[]
+  payments: Payment[]
+  description: string
+  onAdd?: () => void
+  onDelete?: (a: Advance) => void
+}) {
+  const rows = useMemo(() => advances.map((a) => ({ advance: a, balance: advanceBalance(a, payments) })), [advances, payments])
+
+  const outstanding = useMemo(() => {
+    const sums = new Map<Currency, number>()
+    for (const { advance, balance } of rows) sums.set(advance.currency, roundMoney((sums.get(advance.currency) ?? 0) + balance.outstanding))
+    return [...sums].filter(([, amount]) => amount > 0)
+  }, [rows])
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <div className="text-base font-semibold text-slate-900">Advances &amp; loans</div>
+          <div className="text-sm text-slate-500">{description}</div>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="text-right text-xs text-slate-500">
+            Outstanding
+            <div className="text-sm font-semibold text-slate-900">
+              {outstanding.map(([currency, amount]) => formatMoney(amount, currency)).join(' + ') || 'Nothing'}
+            </div>
+          </div>
+          {onAdd && (
+            <Button variant="outline" size="sm" onClick={onAdd}>
+              ＋ Advance
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <div className="text-sm text-slate-500">No advances or loans on record.</div>
+        ) : (
+          <div className="overflow-x-auto rounded-xl border border-slate-200">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Issued</th>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Lent</th>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Repaid</th>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Outstanding</th>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Next deduction</th>
+                  {onDelete && <th className="px-3 py-2" />}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ advance: a, balance }) => (
+                  <tr key={a.id} className="border-t border-slate-200 align-top">
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-slate-900">{ADVANCE_KIND_LABELS[a.kind]}</div>
+                      <div className="text-xs text-slate-500">
+                        {a.issuedOn}
+                        {a.notes && ` · ${a.notes}`}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-slate-700">
+                      {formatMoney(a.principal, a.currency)}
+                      <div className="text-xs text-slate-500">
+                        {formatMoney(a.installment, a.currency)} a month from {monthLabel(a.firstRepaymentMonth)}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-slate-700">
+                      {formatMoney(balance.repaid, a.currency)}
+                      {balance.pending > 0 && <div className="text-xs text-slate-500">+ {formatMoney(balance.pending, a.currency)} not sent yet</div>}
+                    </td>
+                    <td className="px-3 py-2 font-medium text-slate-900">{formatMoney(balance.outstanding, a.currency)}</td>
+                    <td className="px-3 py-2 text-slate-700">
+                      {balance.remaining[0] ? (
+                        `${formatMoney(balance.remaining[0].amount, a.currency)} · ${monthLabel(balance.remaining[0].month)}`
+                      ) : (
+                        <Pill tone="ok">{balance.outstanding > 0 ? 'All deducted' : 'Repaid'}</Pill>
+                      )}
+                    </td>
+                    {onDelete && (
+                      <td className="px-3 py-2 text-right">
+                        {balance.repaid + balance.pending === 0 && (
+                          <Button variant="ghost" size="sm" onClick={() => onDelete(a)}>
+                            Delete
+                          </Button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+// Newest first; shared by the history modal and the staff page.
+export function StatusHistoryList({ staff }: { staff: Staff }) {
+  const history = [...(staff.statusHistory ?? [])].reverse()
+
+  return (
+    <div className="space-y-3">
+      {history.map((h) => (
+        <div key={h.at} className="rounded-xl border border-slate-200 p-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 text-sm text-slate-900">
+              {h.from && (
+                <>
+                  <Pill tone={STAFF_STATUS_TONES[h.from]}>{STAFF_STATUS_LABELS[h.from]}</Pill>→
+                </>
+              )}
+              <Pill tone={STAFF_STATUS_TONES[h.status]}>{STAFF_STATUS_LABELS[h.status]}</Pill>
+              {h.effectiveDate && <span className="text-xs text-slate-500">effective {h.effectiveDate}</span>}
+            </div>
+            <div className="text-xs text-slate-500">{formatDate(h.at)}</div>
+          </div>
+          <div className="mt-1 text-xs text-slate-500">
+            {h.from ? 'Changed' : 'Created'} by {h.by}
+            {h.reason && ` · ${h.reason}`}
+          </div>
+        </div>
+      ))}
+      {history.length === 0 && <div className="text-sm text-slate-500">No status changes recorded for this staff member yet.</div>}
+    </div>
+  )
+}
+
+// Audit actions highlighted in the log.
+const WARNING_ACTIONS: ReadonlyArray<AuditLog['action']> = ['denied', 'purge', 'override']
+
+function formatAuditValue(v: AuditValue) {
+  if (v === null || v === '') return '—'
+  return String(v)
+}
+
+export function AuditEntry({ log: l, broken }: { log: AuditLog; broken?: boolean }) {
+  return (
+    <div className={cn('rounded-xl border p-3', broken ? 'border-red-300' : 'border-slate-200')}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="font-medium text-slate-900">{l.summary}</div>
+        <Pill tone={WARNING_ACTIONS.includes(l.action) ? 'warn' : 'neutral'}>{l.action.toUpperCase()}</Pill>
+      </div>
+      <div className="mt-1 text-xs text-slate-500">
+        {formatDate(l.timestamp)} · Actor: {l.actor} · {l.entityType}:{l.entityId}
+      </div>
+      {l.changes && l.changes.length > 0 && (
+        <div className="mt-2 overflow-hidden rounded-lg border border-slate-200">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-2 py-1 text-left font-semibold text-slate-600">Field</th>
+                <th className="px-2 py-1 text-left font-semibold text-slate-600">Before</th>
+                <th className="px-2 py-1 text-left font-semibold text-slate-600">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {l.changes.map((c) => (
+                <tr key={c.field} className="border-t border-slate-200">
+                  <td className="px-2 py-1 font-medium text-slate-700">{c.field}</td>
+                  <td className="max-w-[240px] truncate px-2 py-1 text-slate-500 line-through decoration-slate-300">
+                    {formatAuditValue(c.before)}
+                  </td>
+                  <td className="max-w-[240px] truncate px-2 py-1 text-slate-900">{formatAuditValue(c.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="mt-1 truncate font-mono text-[10px] text-slate-400" title={l.hash}>
+        {l.hash}
+      </div>
+    </div>
+  )
+}
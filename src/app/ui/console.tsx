@@ -0,0 +1,581 @@
+'use client'
+
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { createContext, useContext, useEffect, useMemo, useState } from 'react'
+
+import { repaymentsDue } from '@/lib/advances'
+import { detectAnomalies } from '@/lib/anomalies'
+import { formatMoney, monthLabel } from '@/lib/format'
+import { convertAmount, roundMoney } from '@/lib/fx'
+import { filterLedger, ledgerSearchParams, parseLedgerFilters, type LedgerFilters } from '@/lib/ledger'
+import { payBreakdown } from '@/lib/pay-lines'
+import { isPaid, PAYMENT_TRANSITIONS } from '@/lib/payments'
+import { hasPermission } from '@/lib/permissions'
+import type { ReportDimension } from '@/lib/reports'
+import { dueOccurrences, type DueOccurrence } from '@/lib/recurring'
+import type {
+  Advance,
+  AdvanceInput,
+  AnomalyKind,
+  AnomalyOverride,
+  CompensationEntry,
+  Currency,
+  FxRate,
+  NewPaymentInput,
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentTemplate,
+  PaymentTemplateInput,
+  Permission,
+  Role,
+  SessionUser,
+  Settings,
+  Staff,
+  StaffInput,
+  StatementLine,
+  TrashItem,
+} from '@/lib/types'
+import { api } from './api'
+import type { PendingRemoval, PendingTransition, ReceiptChange, TemplateForm } from './modals'
+
+// Placeholder until the settings load.
+const DEFAULT_SETTINGS: Settings = { baseCurrency: 'USD', companyName: '', fiscalYearStartMonth: 1, approvalThreshold: 0 }
+
+// The console's shared data and every change to it. The layout shell calls this once and hands
+// it to the pages through ConsoleContext, so moving between pages never refetches. Collections
+// only one page shows (audit log, trash, payroll runs, role matrix) are left to that page.
+export function useConsoleData() {
+  const router = useRouter()
+  const pathname = usePathname()
+
+  // Permissions and staff link come from the server session; there is no client-side override.
+  // The UI only hides what the server would refuse anyway.
+  const [session, setSession] = useState<SessionUser | null>(null)
+  const [sessionChecked, setSessionChecked] = useState(false)
+  const isAuthed = Boolean(session)
+  const permissions = session?.permissions
+  const can = (...required: Permission[]) => Boolean(session && hasPermission(session, ...required))
+
+  const [staff, setStaff] = useState<Staff[]>([])
+  const [payments, setPayments] = useState<Payment[]>([])
+  const [fxRates, setFxRates] = useState<FxRate[]>([])
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
+  const [advances, setAdvances] = useState<Advance[]>([])
+  const [templates, setTemplates] = useState<PaymentTemplate[]>([])
+  const [pendingRemoval, setPendingRemoval] = useState<PendingRemoval | null>(null)
+  const [pendingTransition, setPendingTransition] = useState<PendingTransition | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Bumped after every saved change, so pages holding their own data know to reload it.
+  const [revision, setRevision] = useState(0)
+
+  // The ledger view (search, filters, sort, page) lives in the query string so it can be bookmarked.
+  const searchParams = useSearchParams()
+  const ledgerFilters = useMemo(() => parseLedgerFilters(searchParams), [searchParams])
+
+  // modal state
+  const [paymentModalOpen, setPaymentModalOpen] = useState(false)
+  const [editingPayment, setEditingPayment] = useState<Payment | null>(null)
+  const [paymentPrefill, setPaymentPrefill] = useState<Partial<NewPaymentInput> | null>(null)
+  const [staffModalOpen, setStaffModalOpen] = useState(false)
+  const [editingStaff, setEditingStaff] = useState<Staff | null>(null)
+  const [historyStaff, setHistoryStaff] = useState<Staff | null>(null)
+  const [loginStaff, setLoginStaff] = useState<Staff | null>(null)
+  const [payStaff, setPayStaff] = useState<Staff | null>(null)
+  const [advanceStaff, setAdvanceStaff] = useState<Staff | null>(null)
+  const [templateForm, setTemplateForm] = useState<TemplateForm | null>(null)
+  const [importOpen, setImportOpen] = useState(false)
+  const [previewPayment, setPreviewPayment] = useState<Payment | null>(null)
+
+  const staffById = useMemo(() => {
+    const map = new Map<string, Staff>()
+    staff.forEach((s) => map.set(s.id, s))
+    return map
+  }, [staff])
+
+  const missingReceiptsCount = useMemo(
+    () => payments.filter((p) => isPaid(p) && p.receiptStatus === 'missing').length,
+    [payments]
+  )
+
+  const pendingApprovalCount = useMemo(() => payments.filter((p) => p.status === 'pending_approval').length, [payments])
+
+  const duePayments = useMemo(() => dueOccurrences(templates, payments, new Date().toISOString().slice(0, 10)), [templates, payments])
+
+  // The duplicate and anomaly checks confirming each due draft runs, keyed by template and date.
+  const dueWarnings = useMemo(
+    () =>
+      new Map(
+        duePayments.map((o) => {
+          const { template: t, monthEarned } = o
+          const repaid =
+            t.category === 'Salary' ? payBreakdown(repaymentsDue(advances, payments, { staffId: t.staffId, monthEarned, currency: t.currency })).deductions : 0
+          const candidate = { staffId: t.staffId, monthEarned, category: t.category, amount: roundMoney(t.amount - repaid), currency: t.currency }
+          return [`${t.id}|${o.date}`, detectAnomalies(candidate, payments)]
+        })
+      ),
+    [duePayments, advances, payments]
+  )
+
+  // Money actually sent, reported in the base currency using the rate on each payment's send date.
+  const monthTotal = useMemo(() => {
+    const now = new Date()
+    const yyyy = now.getUTCFullYear()
+    const mm = String(now.getUTCMonth() + 1).padStart(2, '0')
+    const current = `${yyyy}-${mm}`
+    let total = 0
+    let unconverted = 0
+    for (const p of payments.filter((x) => isPaid(x) && x.monthEarned === current)) {
+      const v = convertAmount(fxRates, p.amount, p.currency, settings.baseCurrency, p.dateSent.slice(0, 10))
+      if (v === null) unconverted += 1
+      else total += v
+    }
+    return { amount: roundMoney(total), unconverted }
+  }, [payments, fxRates, settings.baseCurrency])
+
+  // The API already scopes `payments` to the signed-in user; this only applies the ledger filters.
+  const visiblePayments = useMemo(
+    () =>
+      filterLedger(payments, ledgerFilters, {
+        staffName: (id) => staffById.get(id)?.fullName || '',
+        toBase: (p) => convertAmount(fxRates, p.amount, p.currency, settings.baseCurrency, p.dateSent.slice(0, 10)),
+      }),
+    [payments, ledgerFilters, staffById, fxRates, settings.baseCurrency]
+  )
+
+  const recentPayments = useMemo(() => {
+    return [...payments].sort((a, b) => +new Date(b.dateSent) - +new Date(a.dateSent)).slice(0, 6)
+  }, [payments])
+
+  // Next.js keeps useSearchParams in step with replaceState, so this re-renders without a navigation.
+  function setLedgerFilters(next: LedgerFilters) {
+    const params = ledgerSearchParams(next)
+    window.history.replaceState(null, '', params.size ? `?${params}` : window.location.pathname)
+  }
+
+  // Searching from another page's header opens the ledger with the search applied.
+  function setLedgerQuery(q: string) {
+    const next = { ...ledgerFilters, q, page: 1 }
+    if (pathname === '/payments' || pathname === '/me/payments') setLedgerFilters(next)
+    else router.push(`/payments?${ledgerSearchParams(next)}`)
+  }
+
+  useEffect(() => {
+    api
+      .getSession()
+      .then(setSession)
+      .catch(() => setSession(null))
+      .finally(() => setSessionChecked(true))
+  }, [])
+
+  useEffect(() => {
+    if (!isAuthed) return
+    let cancelled = false
+    const granted = new Set(permissions)
+    // Collections this session may not read are never requested (the server would deny and log it).
+    Promise.all([
+      api.listStaff(),
+      api.listPayments(),
+      granted.has('payments.view') ? api.listFxRates() : Promise.resolve([]),
+      api.getSettings(),
+      api.listAdvances(),
+      granted.has('payments.view') ? api.listPaymentTemplates() : Promise.resolve([]),
+    ])
+      .then(([s, p, r, st, adv, tpl]) => {
+        if (cancelled) return
+        setStaff(s)
+        setPayments(p)
+        setFxRates(r)
+        setSettings(st)
+        setAdvances(adv)
+        setTemplates(tpl)
+        setError(null)
+      })
+      .catch((err: Error) => !cancelled && setError(err.message))
+    return () => {
+      cancelled = true
+    }
+  }, [isAuthed, permissions])
+
+  // Leaving the console unmounts this state; the next sign-in starts from a clean load.
+  async function handleLogout() {
+    await api.logout().catch(() => undefined)
+    router.replace('/login')
+  }
+
+  // Runs a mutation against the API and surfaces failures in the error banner.
+  async function mutate(fn: () => Promise<void>) {
+    try {
+      await fn()
+      setError(null)
+      setRevision((n) => n + 1)
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  // For changes made on a page that reach further than it can patch in locally.
+  async function reloadPayments() {
+    setPayments(await api.listPayments())
+  }
+
+  async function reloadSession() {
+    setSession(await api.getSession())
+  }
+
+  async function applyReceiptChange(id: string, receipt: ReceiptChange) {
+    let updated: Payment | null = null
+    if (receipt.file) updated = await api.uploadReceipt(id, receipt.file)
+    else if (receipt.remove) updated = await api.removeReceipt(id)
+    if (updated) {
+      const saved = updated
+      setPayments((prev) => prev.map((p) => (p.id === id ? saved : p)))
+    }
+  }
+
+  function handleCreatePayment(p: NewPaymentInput, receipt: ReceiptChange) {
+    return mutate(async () => {
+      const created = await api.createPayment(p)
+      setPayments((prev) => [created, ...prev])
+      await applyReceiptChange(created.id, receipt)
+    })
+  }
+
+  function handleUpdatePayment(id: string, patch: Partial<Payment> & AnomalyOverride, receipt: ReceiptChange) {
+    return mutate(async () => {
+      const updated = await api.updatePayment(id, patch)
+      setPayments((prev) => prev.map((p) => (p.id === id ? updated : p)))
+      await applyReceiptChange(id, receipt)
+    })
+  }
+
+  // Steps that need a note (returning to draft) open a prompt first; the rest go straight through.
+  function handleTransition(payment: Payment, to: PaymentStatus, note?: string) {
+    if (PAYMENT_TRANSITIONS[payment.status][to]?.needsNote && note === undefined) {
+      setPendingTransition({ payment, to })
+      return
+    }
+    return mutate(async () => {
+      const updated = await api.transitionPayment(payment.id, to, note)
+      setPayments((prev) => prev.map((p) => (p.id === payment.id ? updated : p)))
+    })
+  }
+
+  function handleImportPayments(file: File, overrideRows: number[]) {
+    return mutate(async () => {
+      const { payments: imported } = await api.commitImport(file, overrideRows)
+      setPayments((prev) => [...imported, ...prev].sort((a, b) => +new Date(b.dateSent) - +new Date(a.dateSent)))
+    })
+  }
+
+  function handleLinkStatementLine(paymentId: string, reference: string) {
+    return mutate(async () => {
+      const updated = await api.updatePayment(paymentId, { referenceId: reference })
+      setPayments((prev) => prev.map((p) => (p.id === paymentId ? updated : p)))
+    })
+  }
+
+  // Opens the payment form filled in from a statement line; the recipient name is only a hint for the staff pick.
+  function handleCreateFromStatementLine(line: StatementLine, provider: PaymentMethod) {
+    const recipient = (line.recipient || '').trim().toLowerCase()
+    const guess = staff.find((s) => recipient && s.fullName.toLowerCase() === recipient)
+    setEditingPayment(null)
+    setPaymentPrefill({
+      staffId: guess?.id,
+      dateSent: `${line.date}T12:00:00.000Z`,
+      amount: line.amount,
+      currency: line.currency,
+      method: provider,
+      referenceId: line.reference,
+      status: 'sent',
+    })
+    setPaymentModalOpen(true)
+  }
+
+  function handleChangeBaseCurrency(baseCurrency: Currency) {
+    return mutate(async () => {
+      setSettings(await api.updateSettings({ baseCurrency }))
+    })
+  }
+
+  function handleSaveCompanyDetails(patch: Pick<Settings, 'companyName' | 'companyAddress' | 'fiscalYearStartMonth'>) {
+    return mutate(async () => {
+      setSettings(await api.updateSettings(patch))
+    })
+  }
+
+  function handleSaveApprovalThreshold(approvalThreshold: number) {
+    return mutate(async () => {
+      setSettings(await api.updateSettings({ approvalThreshold }))
+    })
+  }
+
+  function handleCreateFxRate(r: Omit<FxRate, 'id'>) {
+    return mutate(async () => {
+      const created = await api.createFxRate(r)
+      setFxRates((prev) => [created, ...prev].sort((a, b) => b.date.localeCompare(a.date)))
+    })
+  }
+
+  function handleDeleteFxRate(id: string) {
+    return mutate(async () => {
+      await api.deleteFxRate(id)
+      setFxRates((prev) => prev.filter((r) => r.id !== id))
+    })
+  }
+
+  function handleCreateAdvance(a: AdvanceInput) {
+    return mutate(async () => {
+      const created = await api.createAdvance(a)
+      setAdvances((prev) => [created, ...prev])
+    })
+  }
+
+  function handleDeleteAdvance(id: string) {
+    return mutate(async () => {
+      await api.deleteAdvance(id)
+      setAdvances((prev) => prev.filter((a) => a.id !== id))
+    })
+  }
+
+  function handleSaveTemplate(input: PaymentTemplateInput, editingId?: string) {
+    return mutate(async () => {
+      if (editingId) {
+        const updated = await api.updatePaymentTemplate(editingId, input)
+        setTemplates((prev) => prev.map((t) => (t.id === editingId ? updated : t)))
+      } else {
+        const created = await api.createPaymentTemplate(input)
+        setTemplates((prev) => [...prev, created])
+      }
+    })
+  }
+
+  function handleDeleteTemplate(id: string) {
+    return mutate(async () => {
+      await api.deletePaymentTemplate(id)
+      setTemplates((prev) => prev.filter((t) => t.id !== id))
+    })
+  }
+
+  function handleConfirmOccurrence(o: DueOccurrence, overrideWarnings: AnomalyKind[]) {
+    return mutate(async () => {
+      const created = await api.confirmTemplateOccurrence(o.template.id, o.date, overrideWarnings)
+      setPayments((prev) => [created, ...prev])
+    })
+  }
+
+  function handleSkipOccurrence(o: DueOccurrence) {
+    return mutate(async () => {
+      const updated = await api.skipTemplateOccurrence(o.template.id, o.date)
+      setTemplates((prev) => prev.map((t) => (t.id === updated.id ? updated : t)))
+    })
+  }
+
+  function handleDownloadReceipt(p: Payment) {
+    api.downloadReceipt(p.id).catch((err: Error) => setError(err.message))
+  }
+
+  function handleExportReport(dimension: ReportDimension, from: string, to: string, format: 'csv' | 'pdf') {
+    api.exportReport(dimension, from, to, settings.baseCurrency, format).catch((err: Error) => setError(err.message))
+  }
+
+  function handleDownloadPayslip(p: Payment) {
+    api.downloadPayslip(p.staffId, p.monthEarned).catch((err: Error) => setError(err.message))
+  }
+
+  // Deletes are soft: the record moves to the trash, with the reason given, until restored or purged.
+  function handleConfirmRemoval(removal: PendingRemoval, reason: string) {
+    return mutate(async () => {
+      if (removal.kind === 'payment') {
+        await api.deletePayment(removal.id, reason)
+        setPayments((prev) => prev.filter((p) => p.id !== removal.id))
+      } else if (removal.kind === 'staff') {
+        await api.deleteStaff(removal.id, reason)
+        setStaff((prev) => prev.filter((s) => s.id !== removal.id))
+      } else {
+        await api.purgeTrashItem(removal.id, reason)
+      }
+    })
+  }
+
+  function handleRestore(item: TrashItem) {
+    return mutate(async () => {
+      await api.restoreTrashItem(item.id)
+      if (item.entityType === 'payment') setPayments((prev) => [item.record, ...prev])
+      else setStaff((prev) => [item.record, ...prev])
+    })
+  }
+
+  function handleCreateStaff(s: StaffInput) {
+    return mutate(async () => {
+      const created = await api.createStaff(s)
+      setStaff((prev) => [created, ...prev])
+    })
+  }
+
+  function handleSetStaffLogin(id: string, login: { password: string; role: Role }) {
+    return mutate(async () => {
+      await api.setStaffLogin(id, login)
+    })
+  }
+
+  function handleUpdateStaff(id: string, patch: Partial<StaffInput>) {
+    return mutate(async () => {
+      const updated = await api.updateStaff(id, patch)
+      setStaff((prev) => prev.map((x) => (x.id === id ? updated : x)))
+    })
+  }
+
+  function handleSaveCompensation(id: string, compensation: CompensationEntry[]) {
+    return mutate(async () => {
+      const updated = await api.updateStaff(id, { compensation })
+      setStaff((prev) => prev.map((x) => (x.id === id ? updated : x)))
+    })
+  }
+
+  // Exports run server-side so the file only ever contains what this session may see.
+  function exportPaymentsCSV() {
+    api.exportPayments(ledgerFilters, settings.baseCurrency).catch((err: Error) => setError(err.message))
+  }
+
+  function openPaymentForm(editing: Payment | null) {
+    setEditingPayment(editing)
+    setPaymentPrefill(null)
+    setPaymentModalOpen(true)
+  }
+
+  function openStaffForm(editing: Staff | null) {
+    setEditingStaff(editing)
+    setStaffModalOpen(true)
+  }
+
+  function confirmPaymentRemoval(p: Payment) {
+    setPendingRemoval({
+      kind: 'payment',
+      id: p.id,
+      label: `${staffById.get(p.staffId)?.fullName || 'Staff'} · ${formatMoney(p.amount, p.currency)} · ${p.category} · ${monthLabel(p.monthEarned)}`,
+    })
+  }
+
+  function confirmStaffRemoval(s: Staff) {
+    setPendingRemoval({ kind: 'staff', id: s.id, label: `${s.fullName} (${s.jobTitle})` })
+  }
+
+  return {
+    session,
+    sessionChecked,
+    can,
+    error,
+    setError,
+    revision,
+    mutate,
+    reloadPayments,
+    reloadSession,
+    staff,
+    staffById,
+    payments,
+    visiblePayments,
+    recentPayments,
+    missingReceiptsCount,
+    pendingApprovalCount,
+    duePayments,
+    dueWarnings,
+    monthTotal,
+    fxRates,
+    settings,
+    advances,
+    templates,
+    ledgerFilters,
+    setLedgerFilters,
+    setLedgerQuery,
+    exportPaymentsCSV,
+    handleLogout,
+    // modals
+    paymentModalOpen,
+    setPaymentModalOpen,
+    editingPayment,
+    paymentPrefill,
+    staffModalOpen,
+    setStaffModalOpen,
+    editingStaff,
+    historyStaff,
+    setHistoryStaff,
+    loginStaff,
+    setLoginStaff,
+    payStaff,
+    setPayStaff,
+    advanceStaff,
+    setAdvanceStaff,
+    templateForm,
+    setTemplateForm,
+    importOpen,
+    setImportOpen,
+    previewPayment,
+    setPreviewPayment,
+    pendingRemoval,
+    setPendingRemoval,
+    pendingTransition,
+    setPendingTransition,
+    openPaymentForm,
+    openStaffForm,
+    confirmPaymentRemoval,
+    confirmStaffRemoval,
+    // changes
+    handleCreatePayment,
+    handleUpdatePayment,
+    handleTransition,
+    handleImportPayments,
+    handleLinkStatementLine,
+    handleCreateFromStatementLine,
+    handleChangeBaseCurrency,
+    handleSaveCompanyDetails,
+    handleSaveApprovalThreshold,
+    handleCreateFxRate,
+    handleDeleteFxRate,
+    handleCreateAdvance,
+    handleDeleteAdvance,
+    handleSaveTemplate,
+    handleDeleteTemplate,
+    handleConfirmOccurrence,
+    handleSkipOccurrence,
+    handleDownloadReceipt,
+    handleExportReport,
+    handleDownloadPayslip,
+    handleConfirmRemoval,
+    handleRestore,
+    handleCreateStaff,
+    handleSetStaffLogin,
+    handleUpdateStaff,
+    handleSaveCompensation,
+  }
+}
+
+type ConsoleValue = ReturnType<typeof useConsoleData> & { session: SessionUser }
+
+export const ConsoleContext = createContext<ConsoleValue | null>(null)
+
+export function useConsole() {
+  const value = useContext(ConsoleContext)
+  if (!value) throw new Error('Console pages must be rendered inside the console layout')
+  return value
+}
+
+// Loads data only one page shows when that page opens, and again after every saved change.
+// `load` must be stable (an api method or a useCallback); null skips loading altogether.
+export function usePageData<T>(load: (() => Promise<T>) | null) {
+  const { revision, setError } = useConsole()
+  const [data, setData] = useState<T | null>(null)
+
+  useEffect(() => {
+    if (!load) return
+    let cancelled = false
+    load()
+      .then((d) => !cancelled && setData(d))
+      .catch((err: Error) => !cancelled && setError(err.message))
+    return () => {
+      cancelled = true
+    }
+  }, [load, revision, setError])
+
+  return data
+}
@@ -0,0 +1,1520 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+
+import { ADVANCE_KIND_LABELS, repaymentsDue } from '@/lib/advances'
+import { ANOMALY_LABELS, detectAnomalies } from '@/lib/anomalies'
+import { compensationFor, expectedMonthlySalary } from '@/lib/compensation'
+import { formatBytes, formatDate, formatMoney, monthLabel } from '@/lib/format'
+import { findRate, roundMoney } from '@/lib/fx'
+import { isItemised, PAY_LINE_LABELS, payBreakdown, singleLine, sortedLines } from '@/lib/pay-lines'
+import { isPaid, PAYMENT_STATUS_LABELS } from '@/lib/payments'
+import { ROLE_LABELS } from '@/lib/permissions'
+import { paymentGuard, STAFF_STATUS_LABELS } from '@/lib/staff'
+import { RECURRENCE_LABELS } from '@/lib/recurring'
+import {
+  ADVANCE_KINDS,
+  CURRENCIES,
+  PAY_FREQUENCIES,
+  PAY_LINE_KINDS,
+  PAYMENT_CATEGORIES,
+  PAYMENT_METHODS,
+  RECEIPT_MIME_TYPES,
+  RECURRENCE_FREQUENCIES,
+  ROLES,
+  STAFF_STATUSES,
+  type Advance,
+  type AdvanceInput,
+  type AdvanceKind,
+  type AnomalyOverride,
+  type CompensationEntry,
+  type Currency,
+  type FxRate,
+  type ImportPreview,
+  type NewPaymentInput,
+  type PayLine,
+  type PayLineKind,
+  type Payment,
+  type PaymentCategory,
+  type PaymentMethod,
+  type PaymentStatus,
+  type PaymentTemplate,
+  type PaymentTemplateInput,
+  type PayFrequency,
+  type RecurrenceFrequency,
+  type Role,
+  type Staff,
+  type StaffInput,
+  type StaffStatus,
+} from '@/lib/types'
+import {
+  MONTH_PATTERN,
+  REFERENCE_FORMATS,
+  validateAdvance,
+  validatePayment,
+  validateStaff,
+  validateTemplate,
+} from '@/lib/validation'
+import { api } from './api'
+import { Button, cn, FieldError, formatPay, Input, Label, Modal, Pill, Select, StatusHistoryList } from './components'
+
+// ---------------------------
+// Modal state
+// ---------------------------
+
+// A delete or purge waiting to be confirmed with a reason.
+export type PendingRemoval = { kind: 'payment' | 'staff' | 'purge'; id: string; label: string }
+
+// A workflow step that needs a note before it is sent, such as returning a payment to draft.
+export type PendingTransition = { payment: Payment; to: PaymentStatus }
+
+// The recurring template being set up or edited; `source` is the payment a new one copies.
+export type TemplateForm = { staff: Staff; editing: PaymentTemplate | null; source?: Payment }
+
+// Receipt edits staged in PaymentModal and applied after the payment itself is saved.
+export type ReceiptChange = { file: File | null; remove: boolean }
+
+// ---------------------------
+// Modals
+// ---------------------------
+
+// A line item as typed; the amount stays text until the payment is saved. Repayment lines keep their advance.
+type LineDraft = { kind: PayLineKind; label: string; amount: string; advanceId?: string }
+
+function toLineDrafts(lines: PayLine[]): LineDraft[] {
+  return sortedLines(lines).map((l) => ({ kind: l.kind, label: l.label, amount: String(l.amount), advanceId: l.advanceId }))
+}
+
+export function PaymentModal({
+  open,
+  onClose,
+  staff,
+  staffById,
+  payments,
+  advances,
+  fxRates,
+  editing,
+  prefill,
+  onCreate,
+  onUpdate,
+  onPreviewReceipt,
+}: {
+  open: boolean
+  onClose: () => void
+  staff: Staff[]
+  staffById: Map<string, Staff>
+  payments: Payment[]
+  advances: Advance[]
+  fxRates: FxRate[]
+  editing: Payment | null
+  prefill?: Partial<NewPaymentInput> | null
+  onCreate: (p: NewPaymentInput, receipt: ReceiptChange) => void
+  onUpdate: (id: string, patch: Partial<Payment> & AnomalyOverride, receipt: ReceiptChange) => void
+  onPreviewReceipt: (p: Payment) => void
+}) {
+  const isEdit = Boolean(editing)
+  // Sent payments only take a receipt, reference and notes; what was approved stays as it is.
+  const locked = Boolean(editing && isPaid(editing))
+
+  const [staffId, setStaffId] = useState(editing?.staffId || staff[0]?.id || '')
+  const [monthEarned, setMonthEarned] = useState(editing?.monthEarned || '')
+  const [dateSent, setDateSent] = useState(editing?.dateSent ? editing.dateSent.slice(0, 16) : '')
+  const [amount, setAmount] = useState(editing?.amount ? String(editing.amount) : '')
+  // Null while the payment is entered as one amount.
+  const [lines, setLines] = useState<LineDraft[] | null>(editing && isItemised(editing.lines) ? toLineDrafts(editing.lines) : null)
+  const [currency, setCurrency] = useState<Currency>(editing?.currency || 'USD')
+  const [receiveCurrency, setReceiveCurrency] = useState<Currency>(editing?.receiveCurrency || 'USD')
+  const [method, setMethod] = useState<PaymentMethod>(editing?.method || 'Wise')
+  const [category, setCategory] = useState<PaymentCategory>(editing?.category || 'Salary')
+  const [referenceId, setReferenceId] = useState(editing?.referenceId || '')
+  const [notes, setNotes] = useState(editing?.notes || '')
+  const [initialStatus, setInitialStatus] = useState<NonNullable<NewPaymentInput['status']>>('draft')
+  const [skipRepayments, setSkipRepayments] = useState(false)
+  const [receiptFile, setReceiptFile] = useState<File | null>(null)
+  const [removeReceipt, setRemoveReceipt] = useState(false)
+  // The warning kinds the user ticked "record anyway" for; a new warning needs a fresh tick.
+  const [confirmedWarnings, setConfirmedWarnings] = useState('')
+  // Field errors show once the user first tries to save, then follow their edits.
+  const [attempted, setAttempted] = useState(false)
+
+  useEffect(() => {
+    if (editing) {
+      setStaffId(editing.staffId)
+      setMonthEarned(editing.monthEarned)
+      setDateSent(editing.dateSent.slice(0, 16))
+      setAmount(String(editing.amount))
+      setLines(isItemised(editing.lines) ? toLineDrafts(editing.lines) : null)
+      setCurrency(editing.currency)
+      setReceiveCurrency(editing.receiveCurrency)
+      setMethod(editing.method)
+      setCategory(editing.category)
+      setReferenceId(editing.referenceId || '')
+      setNotes(editing.notes || '')
+    } else {
+      setStaffId(prefill?.staffId || staff[0]?.id || '')
+      setMonthEarned(prefill?.monthEarned || '')
+      setDateSent(prefill?.dateSent ? prefill.dateSent.slice(0, 16) : '')
+      setAmount(prefill?.amount ? String(prefill.amount) : '')
+      setLines(prefill?.lines && isItemised(prefill.lines) ? toLineDrafts(prefill.lines) : null)
+      setCurrency(prefill?.currency || 'USD')
+      setReceiveCurrency(prefill?.receiveCurrency || prefill?.currency || 'USD')
+      setMethod(prefill?.method || 'Wise')
+      setCategory(prefill?.category || 'Salary')
+      setReferenceId(prefill?.referenceId || '')
+      setNotes(prefill?.notes || '')
+      setInitialStatus(prefill?.status || 'draft')
+    }
+    setSkipRepayments(false)
+    setReceiptFile(null)
+    setRemoveReceipt(false)
+    setConfirmedWarnings('')
+    setAttempted(false)
+  }, [editing, prefill, staff])
+
+  const parsedLines = useMemo(
+    () => lines?.map((l) => ({ kind: l.kind, label: l.label, amount: l.amount === '' ? NaN : Number(l.amount), advanceId: l.advanceId })),
+    [lines]
+  )
+  // A new Salary payment repays the advance installments due for its month on top of what is entered,
+  // unless skipped (the next Salary payment then catches up). Edits keep the repayment lines they have.
+  const dueRepayments = useMemo(
+    () =>
+      isEdit || category !== 'Salary' || !MONTH_PATTERN.test(monthEarned)
+        ? []
+        : repaymentsDue(advances, payments, { staffId, monthEarned, currency }),
+    [isEdit, category, monthEarned, advances, payments, staffId, currency]
+  )
+  const repayments = useMemo(() => (skipRepayments ? [] : dueRepayments), [skipRepayments, dueRepayments])
+  const savedLines = useMemo(() => {
+    if (!parsedLines && repayments.length === 0) return undefined
+    return [...(parsedLines ?? singleLine(category, amount === '' ? NaN : Number(amount))), ...repayments]
+  }, [parsedLines, repayments, category, amount])
+  const breakdown = useMemo(() => (savedLines ? payBreakdown(savedLines) : null), [savedLines])
+  const netAmount = breakdown ? breakdown.net : Number(amount)
+  const repaymentError =
+    repayments.length > 0 && breakdown && breakdown.gross > 0 && !(breakdown.net > 0)
+      ? 'Repayments due take the whole amount; raise it or skip repayments this month'
+      : undefined
+
+  function updateLine(index: number, patch: Partial<LineDraft>) {
+    setLines((current) => current && current.map((l, i) => (i === index ? { ...l, ...patch } : l)))
+  }
+
+  // Preview only; the server looks the rate up again when saving.
+  const quote = dateSent ? findRate(fxRates, currency, receiveCurrency, dateSent.slice(0, 10)) : null
+  const selectedStaff = staffById.get(staffId)
+  const guard = selectedStaff ? paymentGuard(selectedStaff, monthEarned) : null
+  const blocked = guard?.level === 'block'
+
+  // Mirrors the server: an edit is only re-checked when a field the checks look at changes.
+  const anomalies = useMemo(() => {
+    const candidate = {
+      id: editing?.id,
+      staffId,
+      monthEarned,
+      category,
+      amount: netAmount,
+      currency,
+      referenceId: referenceId || undefined,
+    }
+    if (!staffId || !monthEarned || !(candidate.amount > 0)) return []
+    const unchanged =
+      editing &&
+      editing.staffId === staffId &&
+      editing.monthEarned === monthEarned &&
+      editing.category === category &&
+      editing.amount === candidate.amount &&
+      editing.currency === currency &&
+      (editing.referenceId || '') === referenceId
+    return unchanged ? [] : detectAnomalies(candidate, payments)
+  }, [editing, staffId, monthEarned, category, netAmount, currency, referenceId, payments])
+  const warningKinds = anomalies.map((a) => a.kind).join(',')
+  const needsOverride = anomalies.length > 0 && confirmedWarnings !== warningKinds
+
+  const fieldErrors = validatePayment({
+    staffId,
+    monthEarned,
+    dateSent,
+    amount: amount === '' ? undefined : Number(amount),
+    lines: parsedLines,
+    method,
+    referenceId,
+  })
+  const errors = attempted ? fieldErrors : {}
+
+  function handleSubmit() {
+    setAttempted(true)
+    if (Object.keys(fieldErrors).length || repaymentError || blocked || needsOverride) return
+
+    const paymentData = {
+      staffId,
+      monthEarned,
+      dateSent: new Date(dateSent).toISOString(),
+      amount: netAmount,
+      lines: savedLines?.map((l) => ({ ...l, label: l.label.trim() })),
+      currency,
+      receiveCurrency,
+      method,
+      category,
+      referenceId: referenceId.trim() || undefined,
+      notes: notes || undefined,
+      overrideWarnings: anomalies.length ? anomalies.map((a) => a.kind) : undefined,
+    }
+    const receipt = { file: receiptFile, remove: removeReceipt }
+
+    if (locked && editing) {
+      const { referenceId, notes, overrideWarnings } = paymentData
+      onUpdate(editing.id, { referenceId, notes, overrideWarnings }, receipt)
+    } else if (isEdit && editing) {
+      onUpdate(editing.id, paymentData, receipt)
+    } else {
+      onCreate({ ...paymentData, status: initialStatus }, receipt)
+    }
+    onClose()
+  }
+
+  return (
+    <Modal open={open} title={locked ? 'Receipt & Notes' : isEdit ? 'Edit Payment' : 'Add Payment'} onClose={onClose}>
+      <div className="space-y-4">
+        {locked && editing ? (
+          <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700">
+            <div className="font-medium text-slate-900">
+              {staffById.get(editing.staffId)?.fullName || 'Staff'} · {formatMoney(editing.amount, editing.currency)} · {editing.category} ·{' '}
+              {monthLabel(editing.monthEarned)}
+            </div>
+            <div className="text-xs text-slate-500">
+              {PAYMENT_STATUS_LABELS[editing.status]}: what was approved can no longer change. To correct it, delete the payment and
+              record it again.
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Staff</Label>
+              <Select
+                value={staffId}
+                onChange={setStaffId}
+                options={staff.map((s) => ({
+                  label: `${s.fullName} (${s.jobTitle})${s.status === 'active' ? '' : ` · ${STAFF_STATUS_LABELS[s.status]}`}`,
+                  value: s.id,
+                }))}
+              />
+              <FieldError message={errors.staffId} />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Month earned (YYYY-MM)</Label>
+                <Input value={monthEarned} onChange={setMonthEarned} placeholder="2025-12" />
+                <FieldError message={errors.monthEarned} />
+              </div>
+              <div className="space-y-2">
+                <Label>Date sent</Label>
+                <Input type="datetime-local" value={dateSent} onChange={setDateSent} />
+                <FieldError message={errors.dateSent} />
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label>{lines ? 'Net amount sent' : repayments.length ? 'Amount before repayments' : 'Amount sent'}</Label>
+                {lines && breakdown ? (
+                  <div className="flex h-10 items-center rounded-xl border border-slate-200 bg-slate-50 px-3 text-sm text-slate-900">
+                    {Number.isFinite(breakdown.net) ? formatMoney(breakdown.net, currency) : '—'}
+                  </div>
+                ) : (
+                  <Input type="number" value={amount} onChange={setAmount} placeholder="1250.00" />
+                )}
+                <FieldError message={errors.amount} />
+                {!lines && (
+                  <button
+                    className="text-xs text-slate-500 underline hover:text-slate-900"
+                    onClick={() => setLines([{ kind: 'earning', label: category, amount }])}
+                  >
+                    Break down into line items
+                  </button>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Send currency</Label>
+                <Select
+                  value={currency}
+                  onChange={(v) => setCurrency(v as Currency)}
+                  options={CURRENCIES.map((c) => ({ label: c, value: c }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Receive currency</Label>
+                <Select
+                  value={receiveCurrency}
+                  onChange={(v) => setReceiveCurrency(v as Currency)}
+                  options={CURRENCIES.map((c) => ({ label: c, value: c }))}
+                />
+              </div>
+            </div>
+
+            {lines && breakdown && (
+              <div className="space-y-2 rounded-xl border border-slate-200 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <Label>Line items</Label>
+                  <button
+                    className="text-xs text-slate-500 underline hover:text-slate-900"
+                    onClick={() => {
+                      // Repayments due stay separate, so only the entered lines fold into the amount.
+                      const entered = payBreakdown(parsedLines ?? []).net
+                      setAmount(Number.isFinite(entered) && entered > 0 ? String(entered) : '')
+                      setLines(null)
+                    }}
+                  >
+                    Use a single amount
+                  </button>
+                </div>
+                {lines.map((line, i) => (
+                  <div key={i} className="grid grid-cols-[150px_1fr_120px_auto] items-center gap-2">
+                    <Select
+                      value={line.kind}
+                      onChange={(v) => updateLine(i, { kind: v as PayLineKind })}
+                      options={PAY_LINE_KINDS.map((k) => ({ label: PAY_LINE_LABELS[k], value: k }))}
+                    />
+                    <Input value={line.label} onChange={(v) => updateLine(i, { label: v })} placeholder="Description" />
+                    <Input type="number" value={line.amount} onChange={(v) => updateLine(i, { amount: v })} placeholder="0.00" />
+                    <Button variant="ghost" size="sm" onClick={() => setLines(lines.filter((_, j) => j !== i))} disabled={lines.length === 1}>
+                      ✕
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={() => setLines([...lines, { kind: 'deduction', label: '', amount: '' }])}>
+                  ＋ Add line
+                </Button>
+                <FieldError message={errors.lines} />
+                {Number.isFinite(breakdown.employerCost) && (
+                  <div className="text-xs text-slate-500">
+                    Gross {formatMoney(breakdown.gross, currency)} − deductions {formatMoney(breakdown.deductions, currency)} = net{' '}
+                    {formatMoney(breakdown.net, currency)}
+                    {breakdown.fees > 0 && ` · employer also pays ${formatMoney(breakdown.fees, currency)} in fees`}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {dueRepayments.length > 0 && (
+              <div className="space-y-2 rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-700">
+                <div className="font-semibold">Advance repayments due</div>
+                {dueRepayments.map((l) => (
+                  <div key={l.advanceId} className={cn('flex justify-between gap-2', skipRepayments && 'text-slate-400 line-through')}>
+                    <span>{l.label}</span>
+                    <span>−{formatMoney(l.amount, currency)}</span>
+                  </div>
+                ))}
+                {!lines && breakdown && !skipRepayments && Number.isFinite(breakdown.net) && (
+                  <div className="flex justify-between gap-2 border-t border-slate-200 pt-1 font-medium text-slate-900">
+                    <span>Net amount sent</span>
+                    <span>{formatMoney(breakdown.net, currency)}</span>
+                  </div>
+                )}
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={skipRepayments} onChange={(e) => setSkipRepayments(e.target.checked)} />
+                  Skip repayments this month (the next Salary payment catches up)
+                </label>
+                {attempted && <FieldError message={repaymentError} />}
+              </div>
+            )}
+
+            {guard && (
+              <div
+                className={cn(
+                  'rounded-xl border px-3 py-2 text-xs',
+                  blocked ? 'border-red-200 bg-red-50 text-red-800' : 'border-amber-200 bg-amber-50 text-amber-800'
+                )}
+              >
+                {guard.message}
+              </div>
+            )}
+
+            {currency !== receiveCurrency && (
+              <div
+                className={cn(
+                  'rounded-xl border px-3 py-2 text-xs',
+                  quote || !dateSent ? 'border-slate-200 bg-slate-50 text-slate-700' : 'border-amber-200 bg-amber-50 text-amber-800'
+                )}
+              >
+                {!dateSent
+                  ? 'Pick the send date to look up the exchange rate.'
+                  : quote
+                    ? `1 ${currency} = ${quote.rate} ${receiveCurrency} (rate dated ${quote.date})${
+                        netAmount > 0 ? ` · recipient gets ${formatMoney(roundMoney(netAmount * quote.rate), receiveCurrency)}` : ''
+                      }`
+                    : `No ${currency}→${receiveCurrency} rate on or before ${dateSent.slice(0, 10)}. Add one under FX Rates first.`}
+              </div>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Method</Label>
+                <Select
+                  value={method}
+                  onChange={(v) => setMethod(v as PaymentMethod)}
+                  options={[
+                    { label: 'Wise', value: 'Wise' },
+                    { label: 'Sendwave', value: 'Sendwave' },
+                    { label: 'WorldRemit', value: 'WorldRemit' },
+                  ]}
+                />
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          {!locked && (
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select
+                value={category}
+                onChange={(v) => setCategory(v as PaymentCategory)}
+                options={[
+                  { label: 'Salary', value: 'Salary' },
+                  { label: 'Bonus', value: 'Bonus' },
+                  { label: 'Reimbursement', value: 'Reimbursement' },
+                  { label: 'Other', value: 'Other' },
+                ]}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Reference ID</Label>
+            <Input value={referenceId} onChange={setReferenceId} placeholder={REFERENCE_FORMATS[method].example} />
+            <FieldError message={errors.referenceId} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Notes</Label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Payment notes..."
+            className="h-20 w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-200"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Receipt (PDF or image, up to 10 MB)</Label>
+          {editing?.receiptStatus === 'attached' && !removeReceipt && !receiptFile && (
+            <div className="flex items-center justify-between gap-3 rounded-xl border border-slate-200 px-3 py-2">
+              <div className="min-w-0">
+                <div className="truncate text-sm text-slate-900">{editing.receipt?.name || editing.receiptName || 'receipt'}</div>
+                {editing.receipt && (
+                  <div className="text-xs text-slate-500">
+                    {formatBytes(editing.receipt.size)} · sha256 {editing.receipt.sha256.slice(0, 12)}…
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {editing.receipt && (
+                  <Button variant="ghost" size="sm" onClick={() => onPreviewReceipt(editing)}>
+                    Preview
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => setRemoveReceipt(true)}>
+                  Remove
+                </Button>
+              </div>
+            </div>
+          )}
+          {removeReceipt && (
+            <div className="text-xs text-amber-700">
+              The receipt will be removed when you save.{' '}
+              <button className="underline" onClick={() => setRemoveReceipt(false)}>
+                Undo
+              </button>
+            </div>
+          )}
+          <input
+            type="file"
+            accept={RECEIPT_MIME_TYPES.join(',')}
+            onChange={(e) => setReceiptFile(e.target.files?.[0] ?? null)}
+            className="block w-full text-sm text-slate-700 file:mr-3 file:rounded-xl file:border-0 file:bg-slate-100 file:px-3 file:py-2 file:text-sm file:font-medium file:text-slate-900 hover:file:bg-slate-200"
+          />
+          <div className="text-xs text-slate-500">Receipt status updates automatically when a file is attached or removed.</div>
+        </div>
+
+        {isEdit && (editing?.status === 'pending_approval' || editing?.status === 'approved') && (
+          <div className="rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+            This payment is {PAYMENT_STATUS_LABELS[editing.status].toLowerCase()}. Changing anything but the reference or notes
+            returns it to draft for a fresh approval.
+          </div>
+        )}
+
+        {anomalies.length > 0 && (
+          <div className="space-y-2 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+            {anomalies.map((a) => (
+              <div key={a.kind}>
+                <span className="font-semibold">{ANOMALY_LABELS[a.kind]}:</span> {a.message}
+              </div>
+            ))}
+            <label className="flex items-center gap-2 font-medium">
+              <input
+                type="checkbox"
+                checked={confirmedWarnings === warningKinds}
+                onChange={(e) => setConfirmedWarnings(e.target.checked ? warningKinds : '')}
+              />
+              I have checked these; record the payment anyway (the override is logged)
+            </label>
+          </div>
+        )}
+
+        {!isEdit && (
+          <div className="space-y-2">
+            <Label>Save as</Label>
+            <Select
+              value={initialStatus}
+              onChange={(v) => setInitialStatus(v as NonNullable<NewPaymentInput['status']>)}
+              options={[
+                { label: 'Draft', value: 'draft' },
+                { label: 'Submit for approval', value: 'pending_approval' },
+                { label: 'Already sent (record a past transfer)', value: 'sent' },
+              ]}
+            />
+            {initialStatus === 'sent' && (
+              <div className="text-xs text-slate-500">
+                At or above the approval threshold this is submitted for approval instead, so someone else signs it off.
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleSubmit}
+            disabled={(attempted && (Object.keys(fieldErrors).length > 0 || Boolean(repaymentError))) || blocked || needsOverride}
+          >
+            {isEdit ? 'Update' : 'Create'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+// Mounted only while open, so each opening starts from `editing` (or blank for a new record).
+export function StaffModal({
+  editing,
+  onClose,
+  onCreate,
+  onUpdate,
+}: {
+  editing: Staff | null
+  onClose: () => void
+  onCreate: (s: StaffInput) => void
+  onUpdate: (id: string, patch: Partial<StaffInput>) => void
+}) {
+  const [fullName, setFullName] = useState(editing?.fullName || '')
+  const [jobTitle, setJobTitle] = useState(editing?.jobTitle || '')
+  const [email, setEmail] = useState(editing?.email || '')
+  const [hireDate, setHireDate] = useState(editing?.hireDate || '')
+  const [status, setStatus] = useState<StaffStatus>(editing?.status || 'active')
+  const [terminationDate, setTerminationDate] = useState(editing?.terminationDate || '')
+  const [terminationReason, setTerminationReason] = useState(editing?.terminationReason || '')
+  const [statusReason, setStatusReason] = useState('')
+
+  const [attempted, setAttempted] = useState(false)
+
+  const terminated = status === 'terminated'
+  const statusChanged = Boolean(editing) && editing?.status !== status
+  const fieldErrors = validateStaff({ fullName, jobTitle, email, hireDate, status, terminationDate, terminationReason })
+  const invalid = Object.keys(fieldErrors).length > 0
+  const errors = attempted ? fieldErrors : {}
+
+  function handleSubmit() {
+    setAttempted(true)
+    if (invalid) return
+    // Compensation is left out so saving never touches pay (that needs its own permission).
+    const profile = {
+      fullName,
+      jobTitle,
+      email: email.trim() || undefined,
+      hireDate: hireDate || undefined,
+      status,
+      terminationDate: terminated ? terminationDate : undefined,
+      terminationReason: terminated ? terminationReason : undefined,
+      statusReason: statusChanged && !terminated ? statusReason || undefined : undefined,
+    }
+    if (editing) onUpdate(editing.id, profile)
+    else onCreate(profile)
+    onClose()
+  }
+
+  return (
+    <Modal open title={editing ? 'Edit Staff' : 'Add Staff'} onClose={onClose}>
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label>Full name</Label>
+          <Input value={fullName} onChange={setFullName} placeholder="John Doe" />
+          <FieldError message={errors.fullName} />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Job title</Label>
+          <Input value={jobTitle} onChange={setJobTitle} placeholder="Operations Manager" />
+          <FieldError message={errors.jobTitle} />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Email (optional)</Label>
+            <Input type="email" value={email} onChange={setEmail} placeholder="john@company.com" />
+            <FieldError message={errors.email} />
+          </div>
+          <div className="space-y-2">
+            <Label>Hire date</Label>
+            <Input type="date" value={hireDate} onChange={setHireDate} />
+            <FieldError message={errors.hireDate} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <Select
+            value={status}
+            onChange={(v) => setStatus(v as StaffStatus)}
+            options={STAFF_STATUSES.map((st) => ({ label: STAFF_STATUS_LABELS[st], value: st }))}
+          />
+        </div>
+
+        {terminated && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Termination date</Label>
+              <Input type="date" value={terminationDate} onChange={setTerminationDate} />
+              <FieldError message={errors.terminationDate} />
+            </div>
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Input value={terminationReason} onChange={setTerminationReason} placeholder="Resigned" />
+              <FieldError message={errors.terminationReason} />
+            </div>
+          </div>
+        )}
+
+        {statusChanged && !terminated && (
+          <div className="space-y-2">
+            <Label>Reason for the status change (optional)</Label>
+            <Input value={statusReason} onChange={setStatusReason} placeholder={editing?.status === 'terminated' ? 'Rehired' : 'On leave'} />
+          </div>
+        )}
+
+        {statusChanged && (
+          <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-700">
+            The change is added to {editing?.fullName}&apos;s status history.
+            {terminated && ' Payments for months after the termination date will be refused.'}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={attempted && invalid}>
+            {editing ? 'Save' : 'Create'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+export function StaffHistoryModal({ staff, onClose }: { staff: Staff; onClose: () => void }) {
+  return (
+    <Modal open title="Status history" description={`${staff.fullName} · ${staff.jobTitle}`} onClose={onClose}>
+      <StatusHistoryList staff={staff} />
+    </Modal>
+  )
+}
+
+// When the login is the signed-in user's own, `selfRole` is their current role; it cannot be changed here.
+export function StaffLoginModal({
+  staff,
+  selfRole,
+  canGrantAdmin,
+  onClose,
+  onSave,
+}: {
+  staff: Staff | null
+  selfRole: Role | null
+  canGrantAdmin: boolean // only admins hand out (or reset) admin logins
+  onClose: () => void
+  onSave: (staffId: string, login: { password: string; role: Role }) => void
+}) {
+  const [password, setPassword] = useState('')
+  const [loginRole, setLoginRole] = useState<Role>('employee')
+
+  function handleClose() {
+    setPassword('')
+    setLoginRole('employee')
+    onClose()
+  }
+
+  function handleSubmit() {
+    if (!staff || password.length < 8) return
+    onSave(staff.id, { password, role: selfRole ?? loginRole })
+    handleClose()
+  }
+
+  return (
+    <Modal
+      open={Boolean(staff)}
+      title="Set Login"
+      description={staff ? `${staff.fullName} signs in as ${staff.email}. Saving signs them out everywhere.` : undefined}
+      onClose={handleClose}
+    >
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label>New password (min. 8 characters)</Label>
+          <Input type="password" value={password} onChange={setPassword} placeholder="••••••••" />
+        </div>
+
+        {!selfRole && (
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select
+              value={loginRole}
+              onChange={(v) => setLoginRole(v as Role)}
+              options={ROLES.filter((r) => canGrantAdmin || r !== 'admin').map((r) => ({ label: ROLE_LABELS[r], value: r }))}
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={password.length < 8}>
+            Save login
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+// Mounted with key={staff.id}, so the draft history starts from the saved one each time it opens.
+export function CompensationModal({
+  staff,
+  onClose,
+  onSave,
+}: {
+  staff: Staff | null
+  onClose: () => void
+  onSave: (staffId: string, compensation: CompensationEntry[]) => void
+}) {
+  const [entries, setEntries] = useState<CompensationEntry[]>(staff?.compensation ?? [])
+  const latest = entries[entries.length - 1]
+  const [effectiveFrom, setEffectiveFrom] = useState('')
+  const [baseSalary, setBaseSalary] = useState('')
+  const [frequency, setFrequency] = useState<PayFrequency>(latest?.frequency ?? 'monthly')
+  const [currency, setCurrency] = useState<Currency>(latest?.currency ?? 'USD')
+  const [note, setNote] = useState('')
+
+  const duplicate = entries.some((e) => e.effectiveFrom === effectiveFrom)
+  const canAdd = /^\d{4}-(0[1-9]|1[0-2])$/.test(effectiveFrom) && baseSalary !== '' && Number(baseSalary) >= 0 && !duplicate
+
+  function addEntry() {
+    if (!canAdd) return
+    const entry: CompensationEntry = { effectiveFrom, baseSalary: Number(baseSalary), frequency, currency, note: note || undefined }
+    setEntries((prev) => [...prev, entry].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)))
+    setEffectiveFrom('')
+    setBaseSalary('')
+    setNote('')
+  }
+
+  function handleSubmit() {
+    if (!staff) return
+    onSave(staff.id, entries)
+    onClose()
+  }
+
+  return (
+    <Modal
+      open={Boolean(staff)}
+      title="Compensation"
+      description={staff ? `${staff.fullName} · each change applies from its month until the next one.` : undefined}
+      onClose={onClose}
+    >
+      <div className="space-y-4">
+        <div className="overflow-hidden rounded-xl border border-slate-200">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">From</th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Base salary</th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Per month</th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Note</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((e) => (
+                <tr key={e.effectiveFrom} className="border-t border-slate-200">
+                  <td className="px-3 py-2 text-slate-700">{monthLabel(e.effectiveFrom)}</td>
+                  <td className="px-3 py-2 font-medium text-slate-900">{formatPay(e)}</td>
+                  <td className="px-3 py-2 text-slate-700">{formatMoney(expectedMonthlySalary(e), e.currency)}</td>
+                  <td className="px-3 py-2 text-slate-500">{e.note || '—'}</td>
+                  <td className="px-3 py-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEntries((prev) => prev.filter((x) => x.effectiveFrom !== e.effectiveFrom))}
+                    >
+                      Remove
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+              {entries.length === 0 && (
+                <tr>
+                  <td className="px-3 py-6 text-center text-slate-500" colSpan={5}>
+                    No pay information on record.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Effective from (YYYY-MM)</Label>
+            <Input value={effectiveFrom} onChange={setEffectiveFrom} placeholder="2026-03" />
+          </div>
+          <div className="space-y-2">
+            <Label>Base salary per period</Label>
+            <Input type="number" value={baseSalary} onChange={setBaseSalary} placeholder="1250.00" />
+          </div>
+          <div className="space-y-2">
+            <Label>Frequency</Label>
+            <Select
+              value={frequency}
+              onChange={(v) => setFrequency(v as PayFrequency)}
+              options={PAY_FREQUENCIES.map((f) => ({ label: f, value: f }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Currency</Label>
+            <Select value={currency} onChange={(v) => setCurrency(v as Currency)} options={CURRENCIES.map((c) => ({ label: c, value: c }))} />
+          </div>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label>Note (optional)</Label>
+            <Input value={note} onChange={setNote} placeholder="Annual review" />
+          </div>
+          <Button variant="outline" onClick={addEntry} disabled={!canAdd}>
+            Add change
+          </Button>
+        </div>
+        {duplicate && <div className="text-xs text-amber-700">A change already takes effect in {effectiveFrom}; remove it first.</div>}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit}>
+            Save compensation
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+// Mounted only while open. Defaults to the staff member's pay currency and repayments from this month's salary.
+export function AdvanceModal({ staff, onClose, onSave }: { staff: Staff; onClose: () => void; onSave: (a: AdvanceInput) => void }) {
+  const today = new Date().toISOString().slice(0, 10)
+  const [kind, setKind] = useState<AdvanceKind>('advance')
+  const [principal, setPrincipal] = useState('')
+  const [currency, setCurrency] = useState<Currency>(compensationFor(staff, today.slice(0, 7))?.currency ?? 'USD')
+  const [issuedOn, setIssuedOn] = useState(today)
+  const [firstRepaymentMonth, setFirstRepaymentMonth] = useState(today.slice(0, 7))
+  const [installment, setInstallment] = useState('')
+  const [notes, setNotes] = useState('')
+  const [attempted, setAttempted] = useState(false)
+
+  const input: AdvanceInput = {
+    staffId: staff.id,
+    kind,
+    principal: principal === '' ? NaN : Number(principal),
+    currency,
+    issuedOn,
+    firstRepaymentMonth,
+    installment: installment === '' ? NaN : Number(installment),
+    notes: notes.trim() || undefined,
+  }
+  const fieldErrors = validateAdvance(input)
+  const errors = attempted ? fieldErrors : {}
+  const months = input.principal > 0 && input.installment > 0 ? Math.ceil(input.principal / input.installment) : null
+
+  function handleSubmit() {
+    setAttempted(true)
+    if (Object.keys(fieldErrors).length) return
+    onSave(input)
+    onClose()
+  }
+
+  return (
+    <Modal open title="Record an advance or loan" description={`${staff.fullName} · repaid out of their Salary payments.`} onClose={onClose}>
+      <div className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Kind</Label>
+            <Select
+              value={kind}
+              onChange={(v) => setKind(v as AdvanceKind)}
+              options={ADVANCE_KINDS.map((k) => ({ label: ADVANCE_KIND_LABELS[k], value: k }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Amount lent</Label>
+            <Input type="number" value={principal} onChange={setPrincipal} placeholder="600.00" />
+            <FieldError message={errors.principal} />
+          </div>
+          <div className="space-y-2">
+            <Label>Currency</Label>
+            <Select value={currency} onChange={(v) => setCurrency(v as Currency)} options={CURRENCIES.map((c) => ({ label: c, value: c }))} />
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Issued on</Label>
+            <Input type="date" value={issuedOn} onChange={setIssuedOn} />
+            <FieldError message={errors.issuedOn} />
+          </div>
+          <div className="space-y-2">
+            <Label>First repayment (YYYY-MM)</Label>
+            <Input value={firstRepaymentMonth} onChange={setFirstRepaymentMonth} placeholder="2026-03" />
+            <FieldError message={errors.firstRepaymentMonth} />
+          </div>
+          <div className="space-y-2">
+            <Label>Repayment per month</Label>
+            <Input type="number" value={installment} onChange={setInstallment} placeholder="100.00" />
+            <FieldError message={errors.installment} />
+          </div>
+        </div>
+        {months && (
+          <div className="text-xs text-slate-500">
+            Deducted from {months} Salary payment(s) in {currency}, starting with {monthLabel(firstRepaymentMonth)}.
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Notes (optional)</Label>
+          <Input value={notes} onChange={setNotes} placeholder="Medical emergency" />
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={attempted && Object.keys(fieldErrors).length > 0}>
+            Record {ADVANCE_KIND_LABELS[kind].toLowerCase()}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+// Mounted only while open. A new template copies `form.source` (the payment it repeats, without advance
+// repayments, which are worked out again each time) or falls back to the staff member's pay profile.
+export function PaymentTemplateModal({
+  form,
+  onClose,
+  onSave,
+}: {
+  form: TemplateForm
+  onClose: () => void
+  onSave: (input: PaymentTemplateInput, editingId?: string) => void
+}) {
+  const { staff, editing, source } = form
+  const today = new Date().toISOString().slice(0, 10)
+  const profile = compensationFor(staff, today.slice(0, 7))
+  const sourceAmount = source ? payBreakdown(source.lines.filter((l) => !l.advanceId)).net : null
+
+  const [amount, setAmount] = useState(editing ? String(editing.amount) : sourceAmount ? String(sourceAmount) : '')
+  const [currency, setCurrency] = useState<Currency>(editing?.currency ?? source?.currency ?? profile?.currency ?? 'USD')
+  const [receiveCurrency, setReceiveCurrency] = useState<Currency>(
+    editing?.receiveCurrency ?? source?.receiveCurrency ?? profile?.currency ?? 'USD'
+  )
+  const [method, setMethod] = useState<PaymentMethod>(editing?.method ?? source?.method ?? 'Wise')
+  const [category, setCategory] = useState<PaymentCategory>(editing?.category ?? source?.category ?? 'Salary')
+  const [notes, setNotes] = useState(editing?.notes ?? source?.notes ?? '')
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>(editing?.frequency ?? 'monthly')
+  const [dayOfMonth, setDayOfMonth] = useState(
+    String(editing?.dayOfMonth ?? Number((source?.dateSent ?? today).slice(8, 10)))
+  )
+  const [startDate, setStartDate] = useState(editing?.startDate ?? today)
+  const [endDate, setEndDate] = useState(editing?.endDate ?? '')
+  const [paysPreviousMonth, setPaysPreviousMonth] = useState(
+    editing?.paysPreviousMonth ?? (source ? source.monthEarned < source.dateSent.slice(0, 7) : false)
+  )
+  const [attempted, setAttempted] = useState(false)
+
+  const input: PaymentTemplateInput = {
+    staffId: staff.id,
+    amount: amount === '' ? NaN : Number(amount),
+    currency,
+    receiveCurrency,
+    method,
+    category,
+    notes: notes.trim() || undefined,
+    frequency,
+    dayOfMonth: frequency === 'monthly' ? Number(dayOfMonth) : undefined,
+    startDate,
+    endDate: endDate || undefined,
+    paysPreviousMonth,
+  }
+  const fieldErrors = validateTemplate(input)
+  const errors = attempted ? fieldErrors : {}
+
+  function handleSubmit() {
+    setAttempted(true)
+    if (Object.keys(fieldErrors).length) return
+    onSave(input, editing?.id)
+    onClose()
+  }
+
+  return (
+    <Modal
+      open
+      title={editing ? 'Edit recurring payment' : 'Set up a recurring payment'}
+      description={`${staff.fullName} · each payment falls due as a draft on the dashboard until someone confirms it.`}
+      onClose={onClose}
+    >
+      <div className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Amount</Label>
+            <Input type="number" value={amount} onChange={setAmount} placeholder="1250.00" />
+            <FieldError message={errors.amount} />
+          </div>
+          <div className="space-y-2">
+            <Label>Send currency</Label>
+            <Select value={currency} onChange={(v) => setCurrency(v as Currency)} options={CURRENCIES.map((c) => ({ label: c, value: c }))} />
+          </div>
+          <div className="space-y-2">
+            <Label>Receive currency</Label>
+            <Select
+              value={receiveCurrency}
+              onChange={(v) => setReceiveCurrency(v as Currency)}
+              options={CURRENCIES.map((c) => ({ label: c, value: c }))}
+            />
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Method</Label>
+            <Select
+              value={method}
+              onChange={(v) => setMethod(v as PaymentMethod)}
+              options={PAYMENT_METHODS.map((m) => ({ label: m, value: m }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select
+              value={category}
+              onChange={(v) => setCategory(v as PaymentCategory)}
+              options={PAYMENT_CATEGORIES.map((c) => ({ label: c, value: c }))}
+            />
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Schedule</Label>
+            <Select
+              value={frequency}
+              onChange={(v) => setFrequency(v as RecurrenceFrequency)}
+              options={RECURRENCE_FREQUENCIES.map((f) => ({ label: RECURRENCE_LABELS[f], value: f }))}
+            />
+          </div>
+          {frequency === 'monthly' && (
+            <div className="space-y-2">
+              <Label>Day of month</Label>
+              <Input type="number" value={dayOfMonth} onChange={setDayOfMonth} placeholder="25" />
+              <FieldError message={errors.dayOfMonth} />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>{frequency === 'biweekly' ? 'First payment' : 'Starting'}</Label>
+            <Input type="date" value={startDate} onChange={setStartDate} />
+            <FieldError message={errors.startDate} />
+          </div>
+          <div className="space-y-2">
+            <Label>Until (optional)</Label>
+            <Input type="date" value={endDate} onChange={setEndDate} />
+            <FieldError message={errors.endDate} />
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input type="checkbox" checked={paysPreviousMonth} onChange={(e) => setPaysPreviousMonth(e.target.checked)} />
+          Each payment is for the previous month (e.g. a salary sent at the start of the next month)
+        </label>
+
+        <div className="space-y-2">
+          <Label>Notes</Label>
+          <Input value={notes} onChange={setNotes} placeholder="Copied onto every payment" />
+        </div>
+
+        {category === 'Salary' && (
+          <div className="text-xs text-slate-500">Advance and loan repayments due are deducted when each payment is confirmed.</div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={attempted && Object.keys(fieldErrors).length > 0}>
+            {editing ? 'Save' : 'Set up'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+// Rendered only while open, so each import starts from an empty preview.
+const REMOVAL_COPY: Record<PendingRemoval['kind'], { title: string; description: string; confirm: string }> = {
+  payment: {
+    title: 'Delete payment',
+    description: 'The payment moves to the Trash and stops counting towards totals and exports. You can restore it later.',
+    confirm: 'Move to trash',
+  },
+  staff: {
+    title: 'Delete staff member',
+    description: 'The staff record moves to the Trash and their login stops working. You can restore it later.',
+    confirm: 'Move to trash',
+  },
+  purge: {
+    title: 'Delete permanently',
+    description: 'This cannot be undone. The record is removed for good; only its audit history remains.',
+    confirm: 'Delete permanently',
+  },
+}
+
+export function RemovalModal({
+  removal,
+  onClose,
+  onConfirm,
+}: {
+  removal: PendingRemoval
+  onClose: () => void
+  onConfirm: (removal: PendingRemoval, reason: string) => void
+}) {
+  const [reason, setReason] = useState('')
+  const copy = REMOVAL_COPY[removal.kind]
+
+  return (
+    <Modal open title={copy.title} description={copy.description} onClose={onClose}>
+      <div className="space-y-4">
+        <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-900">{removal.label}</div>
+        <div className="space-y-2">
+          <Label>Reason (recorded in the audit log)</Label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Duplicate of an earlier transfer"
+            className="h-20 w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-200"
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            disabled={!reason.trim()}
+            onClick={() => {
+              onConfirm(removal, reason.trim())
+              onClose()
+            }}
+          >
+            {copy.confirm}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+export function ReturnPaymentModal({
+  pending,
+  staffById,
+  onClose,
+  onConfirm,
+}: {
+  pending: PendingTransition
+  staffById: Map<string, Staff>
+  onClose: () => void
+  onConfirm: (payment: Payment, to: PaymentStatus, note: string) => void
+}) {
+  const [note, setNote] = useState('')
+  const { payment, to } = pending
+
+  return (
+    <Modal
+      open
+      title="Return to draft"
+      description="The payment goes back to draft and must be submitted and approved again before it can be sent."
+      onClose={onClose}
+    >
+      <div className="space-y-4">
+        <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-900">
+          {staffById.get(payment.staffId)?.fullName || 'Staff'} · {formatMoney(payment.amount, payment.currency)} · {payment.category} ·{' '}
+          {monthLabel(payment.monthEarned)}
+        </div>
+        <div className="space-y-2">
+          <Label>Note (recorded in the audit log)</Label>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. Amount doesn't match the approved salary"
+            className="h-20 w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 focus:border-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-200"
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            disabled={!note.trim()}
+            onClick={() => {
+              onConfirm(payment, to, note.trim())
+              onClose()
+            }}
+          >
+            Return to draft
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+export function ImportPaymentsModal({
+  staffById,
+  onClose,
+  onPreview,
+  onImport,
+}: {
+  staffById: Map<string, Staff>
+  onClose: () => void
+  onPreview: (file: File) => Promise<ImportPreview>
+  onImport: (file: File, overrideRows: number[]) => Promise<void>
+}) {
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  // Rows with warnings the user chose to import anyway.
+  const [overrideRows, setOverrideRows] = useState<number[]>([])
+
+  const importCount = preview ? preview.validCount - preview.warningCount + overrideRows.length : 0
+
+  function toggleOverride(row: number, checked: boolean) {
+    setOverrideRows((prev) => (checked ? [...prev, row] : prev.filter((r) => r !== row)))
+  }
+
+  async function handleFile(next: File | null) {
+    setFile(next)
+    setPreview(null)
+    setPreviewError(null)
+    setOverrideRows([])
+    if (!next) return
+    setBusy(true)
+    try {
+      setPreview(await onPreview(next))
+    } catch (err) {
+      setPreviewError((err as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleImport() {
+    if (!file || !importCount) return
+    setBusy(true)
+    await onImport(file, overrideRows)
+    onClose()
+  }
+
+  return (
+    <Modal
+      open
+      title="Import payments"
+      description="Upload a CSV in the same layout as the export. Nothing is saved until you confirm the preview."
+      onClose={onClose}
+    >
+      <div className="space-y-4">
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => handleFile(e.target.files?.[0] ?? null)}
+          className="block w-full text-sm text-slate-700 file:mr-3 file:rounded-lg file:border-0 file:bg-slate-100 file:px-3 file:py-2 file:text-sm file:font-medium file:text-slate-900 hover:file:bg-slate-200"
+        />
+
+        {busy && !preview && <div className="text-sm text-slate-500">Checking rows…</div>}
+        {previewError && (
+          <div className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{previewError}</div>
+        )}
+
+        {preview && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Pill tone="ok">{preview.validCount} ready</Pill>
+              <Pill tone={preview.errorCount ? 'warn' : 'neutral'}>{preview.errorCount} with errors</Pill>
+              {preview.warningCount > 0 && <Pill tone="warn">{preview.warningCount} need review</Pill>}
+            </div>
+            <div className="max-h-[360px] overflow-auto rounded-xl border border-slate-200">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-slate-50">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-semibold text-slate-600">Row</th>
+                    <th className="px-2 py-1 text-left font-semibold text-slate-600">Staff</th>
+                    <th className="px-2 py-1 text-left font-semibold text-slate-600">Month</th>
+                    <th className="px-2 py-1 text-left font-semibold text-slate-600">Amount</th>
+                    <th className="px-2 py-1 text-left font-semibold text-slate-600">Method · Category</th>
+                    <th className="px-2 py-1 text-left font-semibold text-slate-600">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((r) => (
+                    <tr
+                      key={r.row}
+                      className={cn(
+                        'border-t border-slate-200 align-top',
+                        r.errors.length > 0 ? 'bg-red-50/50' : r.warnings.length > 0 && 'bg-amber-50/50'
+                      )}
+                    >
+                      <td className="px-2 py-1 text-slate-500">{r.row}</td>
+                      <td className="px-2 py-1 font-medium text-slate-900">
+                        {r.payment ? staffById.get(r.payment.staffId)?.fullName || r.staffName : r.staffName || '—'}
+                      </td>
+                      <td className="px-2 py-1 text-slate-700">{r.payment ? monthLabel(r.payment.monthEarned) : '—'}</td>
+                      <td className="px-2 py-1 text-slate-700">
+                        {r.payment ? (
+                          <>
+                            {formatMoney(r.payment.amount, r.payment.currency)}
+                            {r.payment.receiveCurrency !== r.payment.currency && (
+                              <div className="text-slate-500">→ {formatMoney(r.payment.receiveAmount, r.payment.receiveCurrency)}</div>
+                            )}
+                          </>
+                        ) : (
+                          '—'
+                        )}
+                      </td>
+                      <td className="px-2 py-1 text-slate-700">{r.payment ? `${r.payment.method} · ${r.payment.category}` : '—'}</td>
+                      <td className="px-2 py-1">
+                        {r.errors.length ? (
+                          <ul className="space-y-0.5 text-red-700">
+                            {r.errors.map((e) => (
+                              <li key={e}>{e}</li>
+                            ))}
+                          </ul>
+                        ) : r.warnings.length ? (
+                          <div className="space-y-1 text-amber-800">
+                            <ul className="space-y-0.5">
+                              {r.warnings.map((w) => (
+                                <li key={w.kind}>{w.message}</li>
+                              ))}
+                            </ul>
+                            <label className="flex items-center gap-1 font-medium">
+                              <input
+                                type="checkbox"
+                                checked={overrideRows.includes(r.row)}
+                                onChange={(e) => toggleOverride(r.row, e.target.checked)}
+                              />
+                              Import anyway
+                            </label>
+                          </div>
+                        ) : (
+                          <span className="text-emerald-700">OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {preview.errorCount > 0 && (
+              <div className="text-xs text-amber-700">
+                Rows with errors are skipped. Fix them in the spreadsheet and import those rows as a separate file.
+              </div>
+            )}
+            {preview.warningCount > 0 && (
+              <div className="text-xs text-amber-700">
+                Rows that look like duplicates or unusual amounts are skipped unless you tick Import anyway. Each override is logged.
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleImport} disabled={busy || !importCount}>
+            Import {importCount} payment(s)
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+export function ReceiptPreviewModal({
+  payment,
+  onClose,
+  onDownload,
+}: {
+  payment: Payment | null
+  onClose: () => void
+  onDownload: (p: Payment) => void
+}) {
+  const receipt = payment?.receipt
+  const src = payment ? api.receiptUrl(payment.id) : ''
+
+  return (
+    <Modal
+      open={Boolean(payment && receipt)}
+      title={receipt?.name || 'Receipt'}
+      description={receipt ? `${formatBytes(receipt.size)} · uploaded ${formatDate(receipt.uploadedAt)} · sha256 ${receipt.sha256}` : undefined}
+      onClose={onClose}
+    >
+      <div className="space-y-4">
+        <div className="overflow-hidden rounded-xl border border-slate-200 bg-slate-50">
+          {receipt?.mimeType === 'application/pdf' ? (
+            <iframe src={src} title={receipt.name} className="h-[60vh] w-full" />
+          ) : (
+            // eslint-disable-next-line @next/next/no-img-element -- authenticated API response, not an optimizable asset
+            <img src={src} alt={receipt?.name || 'Receipt'} className="mx-auto max-h-[60vh] object-contain" />
+          )}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {payment && <Button onClick={() => onDownload(payment)}>⬇ Download</Button>}
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,194 @@
+'use client'
+
+import { useState } from 'react'
+
+import { formatDate, formatMoney, monthLabel } from '@/lib/format'
+import { isItemised } from '@/lib/pay-lines'
+import { allowedTransitions } from '@/lib/payments'
+import type { Payment, PaymentStatus, Permission, Settings, Staff } from '@/lib/types'
+import { Button, Card, CardContent, CardHeader, Input, Label, LineSummary } from '../components'
+import { useConsole } from '../console'
+
+export function ApprovalsRoute() {
+  const c = useConsole()
+  return (
+    <ApprovalsPage
+      permissions={c.session.permissions}
+      userId={c.session.userId}
+      payments={c.payments}
+      staffById={c.staffById}
+      settings={c.settings}
+      onTransition={c.handleTransition}
+      onSaveThreshold={c.can('settings.edit') ? c.handleSaveApprovalThreshold : undefined}
+    />
+  )
+}
+
+function ApprovalsPage({
+  permissions,
+  userId,
+  payments,
+  staffById,
+  settings,
+  onTransition,
+  onSaveThreshold,
+}: {
+  permissions: Permission[]
+  userId: string
+  payments: Payment[]
+  staffById: Map<string, Staff>
+  settings: Settings
+  onTransition: (p: Payment, to: PaymentStatus) => void
+  onSaveThreshold?: (threshold: number) => void
+}) {
+  return (
+    <div className="space-y-6">
+      {onSaveThreshold && <ApprovalThresholdCard key={settings.approvalThreshold} settings={settings} onSave={onSaveThreshold} />}
+      <ApprovalQueue
+        title="Waiting for approval"
+        description="Approve to release a payment for sending, or return it to draft with a note."
+        payments={payments.filter((p) => p.status === 'pending_approval')}
+        permissions={permissions}
+        userId={userId}
+        staffById={staffById}
+        onTransition={onTransition}
+      />
+      <ApprovalQueue
+        title="Approved, ready to send"
+        description="Mark each payment as sent once the transfer has gone out."
+        payments={payments.filter((p) => p.status === 'approved')}
+        permissions={permissions}
+        userId={userId}
+        staffById={staffById}
+        onTransition={onTransition}
+      />
+    </div>
+  )
+}
+
+// Mounted with key={settings.approvalThreshold}, so the field resets when the saved value changes.
+function ApprovalThresholdCard({ settings, onSave }: { settings: Settings; onSave: (threshold: number) => void }) {
+  const [threshold, setThreshold] = useState(String(settings.approvalThreshold))
+  const value = Number(threshold)
+  const valid = threshold.trim() !== '' && Number.isFinite(value) && value >= 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="text-base font-semibold text-slate-900">Approval threshold</div>
+        <div className="text-sm text-slate-500">
+          Payments worth this much or more in {settings.baseCurrency} must be approved by someone other than the person who
+          prepared them.
+        </div>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-end gap-3">
+        <div className="w-[200px] space-y-2">
+          <Label>Threshold ({settings.baseCurrency})</Label>
+          <Input type="number" value={threshold} onChange={setThreshold} />
+        </div>
+        <Button onClick={() => onSave(value)} disabled={!valid || value === settings.approvalThreshold}>
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+function ApprovalQueue({
+  title,
+  description,
+  payments,
+  permissions,
+  userId,
+  staffById,
+  onTransition,
+}: {
+  title: string
+  description: string
+  payments: Payment[]
+  permissions: Permission[]
+  userId: string
+  staffById: Map<string, Staff>
+  onTransition: (p: Payment, to: PaymentStatus) => void
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="text-base font-semibold text-slate-900">{title}</div>
+        <div className="text-sm text-slate-500">{description}</div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-hidden rounded-xl border border-slate-200">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Staff</th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Payment</th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Amount</th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Prepared by</th>
+                <th className="px-3 py-2 text-right font-semibold text-slate-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {payments.map((p) => {
+                const s = staffById.get(p.staffId)
+                const preparedByMe = p.createdBy?.userId === userId || p.submittedBy?.userId === userId
+                return (
+                  <tr key={p.id} className="border-t border-slate-200">
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-slate-900">{s?.fullName || 'Staff'}</div>
+                      <div className="text-xs text-slate-500">{s?.jobTitle || ''}</div>
+                    </td>
+                    <td className="px-3 py-2 text-slate-700">
+                      <div>
+                        {p.category} · {monthLabel(p.monthEarned)}
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {p.method} · sending {formatDate(p.dateSent)}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-slate-900">{formatMoney(p.amount, p.currency)}</div>
+                      {isItemised(p.lines) && <LineSummary payment={p} />}
+                      {p.receiveCurrency !== p.currency && (
+                        <div className="text-xs text-slate-500">→ {formatMoney(p.receiveAmount, p.receiveCurrency)}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-slate-700">
+                      <div>{p.submittedBy?.name || p.createdBy?.name || '—'}</div>
+                      {p.approvedBy && <div className="text-xs text-slate-500">Approved by {p.approvedBy.name}</div>}
+                      {preparedByMe && p.status === 'pending_approval' && (
+                        <div className="text-xs text-amber-700">You prepared this; above the threshold someone else must approve it.</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <div className="flex justify-end gap-2">
+                        {allowedTransitions(p, permissions).map((t) => (
+                          <Button
+                            key={t.to}
+                            variant={t.to === 'draft' ? 'ghost' : 'outline'}
+                            size="sm"
+                            onClick={() => onTransition(p, t.to)}
+                          >
+                            {t.label}
+                          </Button>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+              {payments.length === 0 && (
+                <tr>
+                  <td className="px-3 py-6 text-center text-slate-500" colSpan={5}>
+                    Nothing here.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
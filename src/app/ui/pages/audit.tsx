@@ -0,0 +1,90 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+import type { AuditLog, AuditVerification } from '@/lib/types'
+import { api } from '../api'
+import { AuditEntry, Button, Card, CardContent, CardHeader, cn } from '../components'
+import { useConsole, usePageData } from '../console'
+
+export function AuditRoute() {
+  const { setError } = useConsole()
+  const logs = usePageData(api.listAudit)
+  const [verification, setVerification] = useState<AuditVerification | null>(null)
+
+  // Stable, because the audit page re-runs it from an effect.
+  const handleVerify = useCallback(() => {
+    api
+      .verifyAudit()
+      .then(setVerification)
+      .catch((err: Error) => setError(err.message))
+  }, [setError])
+
+  if (!logs) return null
+  return <AuditPage logs={logs} verification={verification} onVerify={handleVerify} />
+}
+
+function AuditPage({
+  logs,
+  verification,
+  onVerify,
+}: {
+  logs: AuditLog[]
+  verification: AuditVerification | null
+  onVerify: () => void
+}) {
+  // Re-check the chain whenever the page opens or new entries arrive.
+  useEffect(() => {
+    onVerify()
+  }, [logs.length, onVerify])
+
+  const problemIds = new Set(verification?.problems.map((p) => p.id))
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col justify-between gap-3 sm:flex-row sm:items-start">
+        <div>
+          <div className="text-base font-semibold text-slate-900">Audit Log</div>
+          <div className="text-sm text-slate-500">Every create/update/delete action is recorded here.</div>
+        </div>
+        <Button variant="outline" size="sm" onClick={onVerify}>
+          Verify integrity
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {verification && (
+          <div
+            className={cn(
+              'mb-4 rounded-xl border p-3 text-sm',
+              verification.ok ? 'border-emerald-200 bg-emerald-50 text-emerald-900' : 'border-red-200 bg-red-50 text-red-900'
+            )}
+          >
+            <div className="font-medium">
+              {verification.ok
+                ? `Hash chain intact — ${verification.checked} entries verified`
+                : `Hash chain broken — ${verification.problems.length} of ${verification.checked} entries failed verification`}
+            </div>
+            {verification.headHash && (
+              <div className="mt-1 break-all font-mono text-xs opacity-80">Head: {verification.headHash}</div>
+            )}
+            <div className="mt-1 text-xs opacity-80">
+              Keep a copy of the head hash outside this system to detect entries removed from the end of the log.
+            </div>
+            {verification.problems.map((p) => (
+              <div key={p.id} className="mt-1 text-xs">
+                #{p.index + 1} {p.id}: {p.reason}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {logs.map((l) => (
+            <AuditEntry key={l.id} log={l} broken={problemIds.has(l.id)} />
+          ))}
+          {logs.length === 0 && <div className="text-sm text-slate-500">No audit records.</div>}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
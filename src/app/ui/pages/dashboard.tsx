@@ -0,0 +1,137 @@
+'use client'
+
+import { ANOMALY_LABELS } from '@/lib/anomalies'
+import { formatDate, formatMoney, monthLabel } from '@/lib/format'
+import { describeSchedule, type DueOccurrence } from '@/lib/recurring'
+import type { AnomalyKind, Payment, PaymentAnomaly, Staff } from '@/lib/types'
+import { Button, Card, CardContent, CardHeader, Pill } from '../components'
+import { useConsole } from '../console'
+
+export function DashboardRoute() {
+  const c = useConsole()
+  return (
+    <OwnerDashboard
+      recentPayments={c.recentPayments}
+      staffById={c.staffById}
+      missingReceiptsCount={c.missingReceiptsCount}
+      duePayments={c.duePayments}
+      dueWarnings={c.dueWarnings}
+      onConfirmDue={c.can('payments.edit') ? c.handleConfirmOccurrence : undefined}
+      onSkipDue={c.can('payments.edit') ? c.handleSkipOccurrence : undefined}
+    />
+  )
+}
+
+function OwnerDashboard({
+  recentPayments,
+  staffById,
+  missingReceiptsCount,
+  duePayments,
+  dueWarnings,
+  onConfirmDue,
+  onSkipDue,
+}: {
+  recentPayments: Payment[]
+  staffById: Map<string, Staff>
+  missingReceiptsCount: number
+  duePayments: DueOccurrence[]
+  dueWarnings: Map<string, PaymentAnomaly[]>
+  onConfirmDue?: (o: DueOccurrence, overrideWarnings: AnomalyKind[]) => void
+  onSkipDue?: (o: DueOccurrence) => void
+}) {
+  return (
+    <div className="grid gap-6">
+      <Card>
+        <CardHeader>
+          <div className="text-base font-semibold text-slate-900">Recent Payments</div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {recentPayments.map((p) => {
+              const s = staffById.get(p.staffId)
+              return (
+                <div key={p.id} className="flex flex-col justify-between gap-2 rounded-xl border border-slate-200 p-3 sm:flex-row sm:items-center">
+                  <div>
+                    <div className="font-medium text-slate-900">
+                      {s?.fullName || 'Staff'} · {formatMoney(p.amount, p.currency)}
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      Month earned: {monthLabel(p.monthEarned)} · Sent: {formatDate(p.dateSent)} · {p.method}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Pill>{p.category}</Pill>
+                    {p.receiptStatus === 'attached' ? <Pill tone="ok">Receipt attached</Pill> : <Pill tone="warn">Missing receipt</Pill>}
+                  </div>
+                </div>
+              )
+            })}
+            {recentPayments.length === 0 && <div className="text-sm text-slate-500">No payments yet.</div>}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="text-base font-semibold text-slate-900">Action Items</div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex items-center justify-between rounded-xl border border-slate-200 p-3">
+            <div>
+              <div className="font-medium text-slate-900">Receipts missing</div>
+              <div className="text-xs text-slate-500">Upload receipts to complete your payment trail.</div>
+            </div>
+            <Pill tone={missingReceiptsCount > 0 ? 'warn' : 'ok'}>{missingReceiptsCount}</Pill>
+          </div>
+          {duePayments.map((o) => {
+            const key = `${o.template.id}|${o.date}`
+            const warnings = dueWarnings.get(key) ?? []
+            return (
+              <div key={key} className="space-y-2 rounded-xl border border-dashed border-slate-300 p-3">
+                <div className="flex flex-col justify-between gap-2 sm:flex-row sm:items-center">
+                  <div>
+                    <div className="flex flex-wrap items-center gap-2 font-medium text-slate-900">
+                      {staffById.get(o.template.staffId)?.fullName || 'Staff'} · {formatMoney(o.template.amount, o.template.currency)}
+                      <Pill>Draft</Pill>
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {o.template.category} for {monthLabel(o.monthEarned)} · due {o.date} · {o.template.method} · {describeSchedule(o.template)}
+                    </div>
+                  </div>
+                  {onConfirmDue && (
+                    <div className="flex gap-2">
+                      {onSkipDue && (
+                        <Button variant="ghost" size="sm" onClick={() => onSkipDue(o)}>
+                          Skip
+                        </Button>
+                      )}
+                      <Button size="sm" onClick={() => onConfirmDue(o, warnings.map((a) => a.kind))}>
+                        {warnings.length ? 'Confirm anyway' : 'Confirm'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {warnings.length > 0 && (
+                  <div className="space-y-1 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+                    {warnings.map((a) => (
+                      <div key={a.kind}>
+                        <span className="font-semibold">{ANOMALY_LABELS[a.kind]}:</span> {a.message}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+          {duePayments.length > 0 && onConfirmDue && (
+            <div className="text-xs text-slate-500">
+              Confirming records the payment from its recurring template and submits it for approval. Confirming one with warnings
+              logs the override.
+            </div>
+          )}
+          <div className="text-xs text-slate-500">Tip: Keep reference IDs for Wise/Sendwave/WorldRemit for faster reconciliation.</div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
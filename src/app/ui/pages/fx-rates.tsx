@@ -0,0 +1,114 @@
+'use client'
+
+import { useState } from 'react'
+
+import { CURRENCIES, type Currency, type FxRate } from '@/lib/types'
+import { Button, Card, CardContent, CardHeader, Input, Label, Select } from '../components'
+import { useConsole } from '../console'
+
+export function FxRatesRoute() {
+  const c = useConsole()
+  return (
+    <FxRatesPage
+      rates={c.fxRates}
+      onCreate={c.can('settings.edit') ? c.handleCreateFxRate : undefined}
+      onDelete={c.can('settings.edit') ? c.handleDeleteFxRate : undefined}
+    />
+  )
+}
+
+function FxRatesPage({
+  rates,
+  onCreate,
+  onDelete,
+}: {
+  rates: FxRate[]
+  onCreate?: (r: Omit<FxRate, 'id'>) => void
+  onDelete?: (id: string) => void
+}) {
+  const [date, setDate] = useState('')
+  const [base, setBase] = useState<Currency>('USD')
+  const [quote, setQuote] = useState<Currency>('KES')
+  const [rate, setRate] = useState('')
+
+  function handleAdd() {
+    if (!onCreate || !date || !rate || base === quote) return
+    onCreate({ date, base, quote, rate: Number(rate) })
+    setRate('')
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="text-base font-semibold text-slate-900">FX Rates</div>
+        <div className="text-sm text-slate-500">
+          Payments use the latest rate dated on or before their send date. Rates are stored per pair and can be used in
+          either direction.
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {onCreate && (
+          <div className="grid gap-3 sm:grid-cols-5 sm:items-end">
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input type="date" value={date} onChange={setDate} />
+            </div>
+            <div className="space-y-2">
+              <Label>Base</Label>
+              <Select value={base} onChange={(v) => setBase(v as Currency)} options={CURRENCIES.map((c) => ({ label: c, value: c }))} />
+            </div>
+            <div className="space-y-2">
+              <Label>Quote</Label>
+              <Select value={quote} onChange={(v) => setQuote(v as Currency)} options={CURRENCIES.map((c) => ({ label: c, value: c }))} />
+            </div>
+            <div className="space-y-2">
+              <Label>1 {base} =</Label>
+              <Input type="number" value={rate} onChange={setRate} placeholder="129.00" />
+            </div>
+            <Button onClick={handleAdd} disabled={!date || !rate || base === quote}>
+              Add rate
+            </Button>
+          </div>
+        )}
+
+        <div className="overflow-hidden rounded-xl border border-slate-200">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Date</th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Pair</th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Rate</th>
+                <th className="px-3 py-2 text-right font-semibold text-slate-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rates.map((r) => (
+                <tr key={r.id} className="border-t border-slate-200">
+                  <td className="px-3 py-2 text-slate-700">{r.date}</td>
+                  <td className="px-3 py-2 font-medium text-slate-900">
+                    {r.base}→{r.quote}
+                  </td>
+                  <td className="px-3 py-2 text-slate-700">{r.rate}</td>
+                  <td className="px-3 py-2 text-right">
+                    {onDelete && (
+                      <Button variant="ghost" size="sm" onClick={() => onDelete(r.id)}>
+                        Delete
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {rates.length === 0 && (
+                <tr>
+                  <td className="px-3 py-6 text-center text-slate-500" colSpan={4}>
+                    No rates on file.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
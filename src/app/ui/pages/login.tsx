@@ -0,0 +1,72 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+import { homePathFor, safeNextPath } from '@/lib/routes'
+import { api } from '../api'
+import { Button, Card, CardContent, CardHeader, Container, Input, Label, TopBar } from '../components'
+
+// The /login page. The proxy sends signed-out visitors here with the page they asked for in `next`.
+export function LoginPage() {
+  const router = useRouter()
+  const [loginEmail, setLoginEmail] = useState('')
+  const [loginPassword, setLoginPassword] = useState('')
+  const [loginError, setLoginError] = useState<string | null>(null)
+  const [signingIn, setSigningIn] = useState(false)
+
+  async function handleLogin() {
+    setSigningIn(true)
+    try {
+      const user = await api.login(loginEmail, loginPassword)
+      const next = safeNextPath(new URLSearchParams(window.location.search).get('next'), window.location.origin)
+      router.replace(next ?? homePathFor(user))
+    } catch (err) {
+      setLoginError((err as Error).message)
+      setSigningIn(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <TopBar user={null} onLogout={() => undefined} />
+
+      <Container>
+        <div className="mx-auto max-w-md py-10">
+          <Card>
+            <CardHeader>
+              <div className="text-xl font-semibold text-slate-900">LoadHarbour Payroll</div>
+              <div className="mt-1 text-sm text-slate-500">Sign in to record and view payments securely.</div>
+            </CardHeader>
+            <CardContent>
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  handleLogin()
+                }}
+              >
+                <div className="space-y-2">
+                  <Label>Email</Label>
+                  <Input type="email" value={loginEmail} onChange={setLoginEmail} placeholder="you@company.com" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Password</Label>
+                  <Input type="password" value={loginPassword} onChange={setLoginPassword} placeholder="••••••••" />
+                </div>
+
+                {loginError && <div className="text-sm text-red-600">{loginError}</div>}
+
+                <Button variant="primary" type="submit" disabled={signingIn || !loginEmail || !loginPassword}>
+                  {signingIn ? 'Signing in…' : 'Sign in'}
+                </Button>
+
+                <div className="text-sm text-slate-500">Forgot your password? Ask an admin to reset your login.</div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </Container>
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { formatMoney, monthLabel } from '@/lib/format'
+import type { EarningsBasis, EarningsStatement, Payment } from '@/lib/types'
+import { api } from '../api'
+import { AdvancesCard, Button, Card, CardContent, CardHeader, cn, Select } from '../components'
+import { useConsole } from '../console'
+import { PaymentsRoute } from './payments'
+
+export function MyPaymentsRoute() {
+  const c = useConsole()
+  const ownAdvances = c.advances.filter((a) => a.staffId === c.session.staffId)
+  return (
+    <>
+      {ownAdvances.length > 0 && (
+        <AdvancesCard
+          advances={ownAdvances}
+          payments={c.payments}
+          description="Money advanced or lent to you, repaid out of your salary. Balances count repayments on payments already sent."
+        />
+      )}
+      <PaymentsRoute />
+      <EarningsStatementCard staffId={c.session.staffId} payments={c.payments} onError={c.setError} />
+    </>
+  )
+}
+
+const EARNINGS_COLUMNS = [
+  { key: 'salary', label: 'Salary' },
+  { key: 'bonus', label: 'Bonus' },
+  { key: 'other', label: 'Other' },
+  { key: 'earnings', label: 'Earnings' },
+  { key: 'reimbursements', label: 'Reimbursements' },
+  { key: 'deductions', label: 'Deductions' },
+  { key: 'net', label: 'Net paid' },
+] as const
+
+function EarningsStatementCard({
+  staffId,
+  payments,
+  onError,
+}: {
+  staffId: string
+  payments: Payment[]
+  onError: (message: string) => void
+}) {
+  const currentYear = new Date().getFullYear()
+  const [year, setYear] = useState(currentYear)
+  const [basis, setBasis] = useState<EarningsBasis>('calendar')
+  const [loaded, setLoaded] = useState<{ key: string; statement: EarningsStatement } | null>(null)
+  const key = `${staffId}|${year}|${basis}`
+  const statement = loaded?.key === key ? loaded.statement : null
+
+  // A fiscal year is named after the year it starts in, so it can begin a year before the first payment.
+  const firstYear = Math.min(currentYear, ...payments.map((p) => Number(p.monthEarned.slice(0, 4)) - (basis === 'fiscal' ? 1 : 0)))
+  const years = Array.from({ length: currentYear - firstYear + 1 }, (_, i) => currentYear - i)
+
+  useEffect(() => {
+    api
+      .getEarningsStatement(staffId, year, basis)
+      .then((s) => setLoaded({ key: `${staffId}|${year}|${basis}`, statement: s }))
+      .catch((err: Error) => onError(err.message))
+  }, [staffId, year, basis, onError])
+
+  function handleDownload(format: 'csv' | 'pdf') {
+    api.downloadEarningsStatement(staffId, year, basis, format).catch((err: Error) => onError(err.message))
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col justify-between gap-3 sm:flex-row sm:items-center">
+        <div>
+          <div className="text-base font-semibold text-slate-900">Year-end statement</div>
+          <div className="text-sm text-slate-500">
+            What you earned each month{statement ? ` in ${statement.label}` : ''}, gross by category. Reimbursements are listed
+            separately; net paid is what was sent after deductions.
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="w-[110px]">
+            <Select value={String(year)} onChange={(v) => setYear(Number(v))} options={years.map((y) => ({ label: String(y), value: String(y) }))} />
+          </div>
+          <div className="w-[150px]">
+            <Select
+              value={basis}
+              onChange={(v) => setBasis(v as EarningsBasis)}
+              options={[
+                { label: 'Calendar year', value: 'calendar' },
+                { label: 'Fiscal year', value: 'fiscal' },
+              ]}
+            />
+          </div>
+          <Button variant="outline" onClick={() => handleDownload('pdf')}>
+            ⬇ PDF
+          </Button>
+          <Button variant="outline" onClick={() => handleDownload('csv')}>
+            ⬇ CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!statement && <div className="text-sm text-slate-500">Loading…</div>}
+        {statement && statement.sections.length === 0 && (
+          <div className="text-sm text-slate-500">No payments recorded for {statement.label}.</div>
+        )}
+        {statement?.sections.map((section) => (
+          <div key={section.currency} className="overflow-x-auto rounded-xl border border-slate-200">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Month earned ({section.currency})</th>
+                  {EARNINGS_COLUMNS.map((c) => (
+                    <th key={c.key} className="px-3 py-2 text-right font-semibold text-slate-700">
+                      {c.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {section.months.map((m) => (
+                  <tr key={m.month} className="border-t border-slate-200">
+                    <td className="px-3 py-2 text-slate-700">{monthLabel(m.month)}</td>
+                    {EARNINGS_COLUMNS.map((c) => (
+                      <td
+                        key={c.key}
+                        className={cn(
+                          'px-3 py-2 text-right',
+                          m[c.key] ? 'text-slate-900' : 'text-slate-400',
+                          (c.key === 'earnings' || c.key === 'net') && 'font-medium'
+                        )}
+                      >
+                        {m[c.key] ? formatMoney(m[c.key], section.currency) : '—'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr className="border-t-2 border-slate-300 bg-slate-50">
+                  <td className="px-3 py-2 font-semibold text-slate-900">Total</td>
+                  {EARNINGS_COLUMNS.map((c) => (
+                    <td key={c.key} className="px-3 py-2 text-right font-semibold text-slate-900">
+                      {formatMoney(section.totals[c.key], section.currency)}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,237 @@
+'use client'
+
+import Link from 'next/link'
+import { useCallback } from 'react'
+
+import { formatDate, formatMoney, monthLabel } from '@/lib/format'
+import { allowedTransitions, isPaid, PAYMENT_STATUS_LABELS } from '@/lib/payments'
+import type { AuditLog, Payment, PaymentStatus, Permission, Staff } from '@/lib/types'
+import {
+  AuditEntry,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  DetailRow,
+  NotFoundCard,
+  PayLinesTable,
+  Pill,
+  STATUS_TONES,
+} from '../components'
+import { api } from '../api'
+import { useConsole, usePageData } from '../console'
+
+export function PaymentDetailRoute({ id }: { id: string }) {
+  const c = useConsole()
+  const loadAudit = useCallback(() => api.listAudit({ payment: id }), [id])
+  const audit = usePageData(c.can('audit.view') ? loadAudit : null)
+  const payment = c.payments.find((p) => p.id === id)
+  if (!payment) return <NotFoundCard title="Payment not found" backHref="/payments" backLabel="Back to payments" />
+  const staff = c.staffById.get(payment.staffId)
+  return (
+    <PaymentDetailPage
+      payment={payment}
+      staff={staff}
+      permissions={c.session.permissions}
+      staffId={c.session.staffId}
+      audit={audit ?? []}
+      onTransition={c.handleTransition}
+      onEdit={c.openPaymentForm}
+      onDelete={c.confirmPaymentRemoval}
+      onPreviewReceipt={c.setPreviewPayment}
+      onDownloadReceipt={c.handleDownloadReceipt}
+      onDownloadPayslip={c.handleDownloadPayslip}
+      onMakeRecurring={
+        staff && c.can('payments.edit') ? (p) => c.setTemplateForm({ staff, editing: null, source: p }) : undefined
+      }
+    />
+  )
+}
+
+function PaymentDetailPage({
+  payment: p,
+  staff,
+  permissions,
+  staffId,
+  audit,
+  onTransition,
+  onEdit,
+  onDelete,
+  onPreviewReceipt,
+  onDownloadReceipt,
+  onDownloadPayslip,
+  onMakeRecurring,
+}: {
+  payment: Payment
+  staff?: Staff
+  permissions: Permission[]
+  staffId: string
+  audit: AuditLog[]
+  onTransition: (p: Payment, to: PaymentStatus) => void
+  onEdit: (p: Payment) => void
+  onDelete: (p: Payment) => void
+  onPreviewReceipt: (p: Payment) => void
+  onDownloadReceipt: (p: Payment) => void
+  onDownloadPayslip: (p: Payment) => void
+  onMakeRecurring?: (p: Payment) => void
+}) {
+  const canEdit = permissions.includes('payments.edit')
+  const signoffs = [
+    { label: 'Recorded by', signoff: p.createdBy },
+    { label: 'Submitted by', signoff: p.submittedBy },
+    { label: 'Approved by', signoff: p.approvedBy },
+  ]
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="text-xs text-slate-500">
+              <Link href="/payments" className="hover:underline">
+                Payments
+              </Link>{' '}
+              / {p.id}
+            </div>
+            <div className="mt-1 flex items-center gap-2">
+              <div className="text-base font-semibold text-slate-900">
+                {formatMoney(p.amount, p.currency)} · {monthLabel(p.monthEarned)}
+              </div>
+              <Pill tone={STATUS_TONES[p.status]}>{PAYMENT_STATUS_LABELS[p.status]}</Pill>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {allowedTransitions(p, permissions).map((t) => (
+              <Button key={t.to} variant="outline" size="sm" onClick={() => onTransition(p, t.to)}>
+                {t.label}
+              </Button>
+            ))}
+            {(permissions.includes('exports') || p.staffId === staffId) && (
+              <Button variant="ghost" size="sm" onClick={() => onDownloadPayslip(p)}>
+                Payslip
+              </Button>
+            )}
+            {onMakeRecurring && (
+              <Button variant="ghost" size="sm" onClick={() => onMakeRecurring(p)}>
+                Make recurring
+              </Button>
+            )}
+            {canEdit && (
+              <>
+                <Button variant="ghost" size="sm" onClick={() => onEdit(p)}>
+                  {isPaid(p) ? 'Receipt & notes' : 'Edit'}
+                </Button>
+                <Button variant="danger" size="sm" onClick={() => onDelete(p)}>
+                  Delete
+                </Button>
+              </>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <DetailRow label="Staff">
+            {staff && permissions.includes('staff.view') ? (
+              <Link href={`/staff/${staff.id}`} className="font-medium hover:underline">
+                {staff.fullName}
+              </Link>
+            ) : (
+              staff?.fullName || 'Staff'
+            )}
+            {staff && <div className="text-xs text-slate-500">{staff.jobTitle}</div>}
+          </DetailRow>
+          <DetailRow label="Month earned">{monthLabel(p.monthEarned)}</DetailRow>
+          <DetailRow label="Date sent">{formatDate(p.dateSent)}</DetailRow>
+          <DetailRow label="Amount">
+            {formatMoney(p.amount, p.currency)}
+            {p.receiveCurrency !== p.currency && (
+              <div className="text-xs text-slate-500">
+                → {formatMoney(p.receiveAmount, p.receiveCurrency)} @ {p.fxRate} (rate dated {p.fxRateDate})
+              </div>
+            )}
+          </DetailRow>
+          <DetailRow label="Method">{p.method}</DetailRow>
+          <DetailRow label="Category">
+            <Pill>{p.category}</Pill>
+          </DetailRow>
+          <DetailRow label="Reference">{p.referenceId ? <span className="font-mono">{p.referenceId}</span> : '—'}</DetailRow>
+          <DetailRow label="Source">
+            {p.payrollRunId
+              ? `Payroll run ${p.payrollRunId}`
+              : p.importBatchId
+                ? `CSV import ${p.importBatchId}`
+                : p.templateId
+                  ? `Recurring template ${p.templateId} (due ${p.scheduledFor})`
+                  : 'Entered by hand'}
+          </DetailRow>
+          <DetailRow label="Receipt">
+            {p.receipt ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <button className="max-w-[240px] truncate hover:underline" onClick={() => onPreviewReceipt(p)}>
+                  {p.receipt.name}
+                </button>
+                <Button variant="outline" size="sm" onClick={() => onDownloadReceipt(p)}>
+                  ⬇ Download
+                </Button>
+              </div>
+            ) : p.receiptStatus === 'attached' ? (
+              p.receiptName || 'receipt'
+            ) : (
+              <Pill tone="warn">Missing</Pill>
+            )}
+          </DetailRow>
+          {p.notes && (
+            <div className="md:col-span-3">
+              <DetailRow label="Notes">
+                <div className="whitespace-pre-wrap">{p.notes}</div>
+              </DetailRow>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="text-base font-semibold text-slate-900">Pay breakdown</div>
+        </CardHeader>
+        <CardContent>
+          <PayLinesTable lines={p.lines} currency={p.currency} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="text-base font-semibold text-slate-900">Sign-offs</div>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          {signoffs.map(({ label, signoff }) => (
+            <DetailRow key={label} label={label}>
+              {signoff ? (
+                <>
+                  {signoff.name}
+                  <div className="text-xs text-slate-500">{formatDate(signoff.at)}</div>
+                </>
+              ) : (
+                <span className="text-slate-500">—</span>
+              )}
+            </DetailRow>
+          ))}
+        </CardContent>
+      </Card>
+
+      {permissions.includes('audit.view') && (
+        <Card>
+          <CardHeader>
+            <div className="text-base font-semibold text-slate-900">History</div>
+            <div className="text-sm text-slate-500">Every audit entry recorded against this payment.</div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {audit.map((l) => (
+              <AuditEntry key={l.id} log={l} />
+            ))}
+            {audit.length === 0 && <div className="text-sm text-slate-500">No audit records.</div>}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
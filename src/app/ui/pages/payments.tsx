@@ -0,0 +1,371 @@
+'use client'
+
+import Link from 'next/link'
+import React, { useState } from 'react'
+
+import { formatDate, formatMoney, monthLabel } from '@/lib/format'
+import {
+  activeFilterCount,
+  DEFAULT_LEDGER_FILTERS,
+  DEFAULT_SORT_DIRECTION,
+  LEDGER_PAGE_SIZE,
+  RECEIPT_STATUSES,
+  type LedgerFilters,
+  type LedgerSortKey,
+} from '@/lib/ledger'
+import { isItemised } from '@/lib/pay-lines'
+import { allowedTransitions, isPaid, PAYMENT_STATUS_LABELS } from '@/lib/payments'
+import {
+  PAYMENT_CATEGORIES,
+  PAYMENT_METHODS,
+  type Currency,
+  type Payment,
+  type PaymentStatus,
+  type Permission,
+  type Staff,
+} from '@/lib/types'
+import {
+  Button,
+  ButtonLink,
+  Card,
+  CardContent,
+  CardHeader,
+  Input,
+  Label,
+  LineSummary,
+  PayLinesTable,
+  Pill,
+  Select,
+  STATUS_TONES,
+} from '../components'
+import { useConsole } from '../console'
+
+export function PaymentsRoute() {
+  const c = useConsole()
+  return (
+    <PaymentsPage
+      permissions={c.session.permissions}
+      staffId={c.session.staffId}
+      payments={c.visiblePayments}
+      staff={c.staff}
+      staffById={c.staffById}
+      filters={c.ledgerFilters}
+      onFiltersChange={c.setLedgerFilters}
+      baseCurrency={c.settings.baseCurrency}
+      onTransition={c.handleTransition}
+      onEdit={c.openPaymentForm}
+      onDelete={c.confirmPaymentRemoval}
+      onPreviewReceipt={c.setPreviewPayment}
+      onDownloadReceipt={c.handleDownloadReceipt}
+      onDownloadPayslip={c.handleDownloadPayslip}
+    />
+  )
+}
+
+function PaymentsPage({
+  permissions,
+  staffId,
+  payments,
+  staff,
+  staffById,
+  filters,
+  onFiltersChange,
+  baseCurrency,
+  onTransition,
+  onEdit,
+  onDelete,
+  onPreviewReceipt,
+  onDownloadReceipt,
+  onDownloadPayslip,
+}: {
+  permissions: Permission[]
+  staffId: string
+  payments: Payment[] // already filtered and sorted; paged here
+  staff: Staff[]
+  staffById: Map<string, Staff>
+  filters: LedgerFilters
+  onFiltersChange: (f: LedgerFilters) => void
+  baseCurrency: Currency
+  onTransition: (p: Payment, to: PaymentStatus) => void
+  onEdit: (p: Payment) => void
+  onDelete: (p: Payment) => void
+  onPreviewReceipt: (p: Payment) => void
+  onDownloadReceipt: (p: Payment) => void
+  onDownloadPayslip: (p: Payment) => void
+}) {
+  const isLedger = permissions.includes('payments.view')
+  const canEdit = permissions.includes('payments.edit')
+  const canExport = permissions.includes('exports')
+  // Employees have no payment detail page, so their breakdown opens under the row.
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  const pageCount = Math.max(1, Math.ceil(payments.length / LEDGER_PAGE_SIZE))
+  const page = Math.min(filters.page, pageCount)
+  const pageRows = payments.slice((page - 1) * LEDGER_PAGE_SIZE, page * LEDGER_PAGE_SIZE)
+  const narrowed = activeFilterCount(filters) > 0 || filters.q !== ''
+
+  // Any change to what is shown starts again from the first page.
+  const setFilter = <K extends keyof LedgerFilters>(key: K, value: LedgerFilters[K]) =>
+    onFiltersChange({ ...filters, [key]: value, page: 1 })
+
+  function sortBy(key: LedgerSortKey) {
+    const dir = filters.sort === key ? (filters.dir === 'asc' ? 'desc' : 'asc') : DEFAULT_SORT_DIRECTION[key]
+    onFiltersChange({ ...filters, sort: key, dir, page: 1 })
+  }
+
+  const header = (key: LedgerSortKey, label: string) => (
+    <th className="px-3 py-2 text-left font-semibold text-slate-700">
+      <button className="inline-flex items-center gap-1 hover:text-slate-900" onClick={() => sortBy(key)}>
+        {label}
+        <span className="text-xs text-slate-400">{filters.sort === key ? (filters.dir === 'asc' ? '▲' : '▼') : '↕'}</span>
+      </button>
+    </th>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="text-base font-semibold text-slate-900">{isLedger ? 'Payments Ledger' : 'Transactions'}</div>
+        <div className="text-sm text-slate-500">
+          {!isLedger
+            ? 'You can only view your own transactions.'
+            : canEdit
+              ? 'Search, edit, delete, and attach receipts.'
+              : 'Read-only. You can see the whole ledger but not change it.'}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          {isLedger && (
+            <div className="space-y-2">
+              <Label>Staff</Label>
+              <Select
+                value={filters.staffId}
+                onChange={(v) => setFilter('staffId', v)}
+                placeholder="All staff"
+                options={staff.map((s) => ({ label: s.fullName, value: s.id }))}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Method</Label>
+            <Select
+              value={filters.method}
+              onChange={(v) => setFilter('method', v as LedgerFilters['method'])}
+              placeholder="All methods"
+              options={PAYMENT_METHODS.map((m) => ({ label: m, value: m }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select
+              value={filters.category}
+              onChange={(v) => setFilter('category', v as LedgerFilters['category'])}
+              placeholder="All categories"
+              options={PAYMENT_CATEGORIES.map((c) => ({ label: c, value: c }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Receipt</Label>
+            <Select
+              value={filters.receipt}
+              onChange={(v) => setFilter('receipt', v as LedgerFilters['receipt'])}
+              placeholder="Any receipt"
+              options={RECEIPT_STATUSES.map((r) => ({ label: r === 'attached' ? 'Attached' : 'Missing', value: r }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Sent between</Label>
+            <div className="flex items-center gap-2">
+              <Input type="date" value={filters.sentFrom} onChange={(v) => setFilter('sentFrom', v)} />
+              <Input type="date" value={filters.sentTo} onChange={(v) => setFilter('sentTo', v)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Earned between</Label>
+            <div className="flex items-center gap-2">
+              <Input type="month" value={filters.monthFrom} onChange={(v) => setFilter('monthFrom', v)} />
+              <Input type="month" value={filters.monthTo} onChange={(v) => setFilter('monthTo', v)} />
+            </div>
+          </div>
+          {isLedger && (
+            <div className="space-y-2">
+              <Label>Amount ({baseCurrency})</Label>
+              <div className="flex items-center gap-2">
+                <Input type="number" value={filters.minAmount} onChange={(v) => setFilter('minAmount', v)} placeholder="Min" />
+                <Input type="number" value={filters.maxAmount} onChange={(v) => setFilter('maxAmount', v)} placeholder="Max" />
+              </div>
+            </div>
+          )}
+          <div className="flex items-end justify-between gap-2">
+            <div className="pb-2 text-xs text-slate-500">{payments.length} payment(s)</div>
+            {narrowed && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onFiltersChange({ ...DEFAULT_LEDGER_FILTERS, sort: filters.sort, dir: filters.dir })}
+              >
+                Clear filters
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="overflow-hidden rounded-xl border border-slate-200">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                {isLedger && header('staff', 'Staff')}
+                {header('monthEarned', 'Month earned')}
+                {header('dateSent', 'Date sent')}
+                {header('amount', 'Amount')}
+                {header('method', 'Method')}
+                {header('category', 'Category')}
+                {header('receipt', 'Receipt')}
+                {header('status', 'Status')}
+                <th className="px-3 py-2 text-right font-semibold text-slate-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pageRows.map((p) => {
+                const s = staffById.get(p.staffId)
+                return (
+                  <React.Fragment key={p.id}>
+                    <tr className="border-t border-slate-200">
+                      {isLedger && (
+                        <td className="px-3 py-2">
+                          {s && permissions.includes('staff.view') ? (
+                            <Link href={`/staff/${s.id}`} className="font-medium text-slate-900 hover:underline">
+                              {s.fullName}
+                            </Link>
+                          ) : (
+                            <div className="font-medium text-slate-900">{s?.fullName || 'Staff'}</div>
+                          )}
+                          <div className="text-xs text-slate-500">{s?.jobTitle || ''}</div>
+                        </td>
+                      )}
+                      <td className="px-3 py-2 text-slate-700">{monthLabel(p.monthEarned)}</td>
+                      <td className="px-3 py-2 text-slate-500">{formatDate(p.dateSent)}</td>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-slate-900">{formatMoney(p.amount, p.currency)}</div>
+                        {isItemised(p.lines) && <LineSummary payment={p} />}
+                        {p.receiveCurrency !== p.currency && (
+                          <div className="text-xs text-slate-500" title={`Rate dated ${p.fxRateDate}`}>
+                            → {formatMoney(p.receiveAmount, p.receiveCurrency)} @ {p.fxRate}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-slate-700">{p.method}</td>
+                      <td className="px-3 py-2">
+                        <Pill>{p.category}</Pill>
+                      </td>
+                      <td className="px-3 py-2">
+                        {p.receiptStatus === 'attached' ? (
+                          <div className="flex flex-col gap-1">
+                            <Pill tone="ok">Attached</Pill>
+                            {p.receipt ? (
+                              <button
+                                className="max-w-[240px] truncate text-left text-xs text-slate-500 hover:text-slate-900 hover:underline"
+                                onClick={() => onPreviewReceipt(p)}
+                              >
+                                {p.receipt.name}
+                              </button>
+                            ) : (
+                              <div className="max-w-[240px] truncate text-xs text-slate-500">{p.receiptName || 'receipt'}</div>
+                            )}
+                          </div>
+                        ) : (
+                          <Pill tone="warn">Missing</Pill>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <Pill tone={STATUS_TONES[p.status]}>{PAYMENT_STATUS_LABELS[p.status]}</Pill>
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {!isLedger ? (
+                          <div className="flex justify-end gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => setExpanded(expanded === p.id ? null : p.id)}>
+                              {expanded === p.id ? 'Hide breakdown' : 'Breakdown'}
+                            </Button>
+                            <Button variant="outline" size="sm" disabled={!p.receipt} onClick={() => onDownloadReceipt(p)}>
+                              ⬇ Receipt
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => onDownloadPayslip(p)}>
+                              ⬇ Payslip
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex justify-end gap-2">
+                            {allowedTransitions(p, permissions).map((t) => (
+                              <Button key={t.to} variant="outline" size="sm" onClick={() => onTransition(p, t.to)}>
+                                {t.label}
+                              </Button>
+                            ))}
+                            <ButtonLink href={`/payments/${p.id}`}>Details</ButtonLink>
+                            {(canExport || p.staffId === staffId) && (
+                              <Button variant="ghost" size="sm" onClick={() => onDownloadPayslip(p)}>
+                                Payslip
+                              </Button>
+                            )}
+                            {canEdit && (
+                              <>
+                                <Button variant="ghost" size="sm" onClick={() => onEdit(p)}>
+                                  {isPaid(p) ? 'Receipt & notes' : 'Edit'}
+                                </Button>
+                                <Button variant="danger" size="sm" onClick={() => onDelete(p)}>
+                                  Delete
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                    {expanded === p.id && (
+                      <tr className="bg-slate-50">
+                        <td className="px-3 py-3" colSpan={isLedger ? 9 : 8}>
+                          <PayLinesTable lines={p.lines} currency={p.currency} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                )
+              })}
+              {payments.length === 0 && (
+                <tr>
+                  <td className="px-3 py-6 text-center text-slate-500" colSpan={isLedger ? 9 : 8}>
+                    No payments found.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-between gap-2 text-sm text-slate-500">
+            <div>
+              Showing {(page - 1) * LEDGER_PAGE_SIZE + 1}–{(page - 1) * LEDGER_PAGE_SIZE + pageRows.length} of {payments.length}
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => onFiltersChange({ ...filters, page: page - 1 })}>
+                ← Previous
+              </Button>
+              <span>
+                Page {page} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= pageCount}
+                onClick={() => onFiltersChange({ ...filters, page: page + 1 })}
+              >
+                Next →
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,478 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+
+import { repaymentsDue } from '@/lib/advances'
+import { ANOMALY_LABELS, detectAnomalies } from '@/lib/anomalies'
+import { formatDate, formatMoney, monthLabel } from '@/lib/format'
+import { roundMoney } from '@/lib/fx'
+import { payBreakdown } from '@/lib/pay-lines'
+import {
+  CURRENCIES,
+  PAYMENT_METHODS,
+  type Advance,
+  type AnomalyKind,
+  type Currency,
+  type Payment,
+  type PaymentMethod,
+  type PayrollRun,
+  type PayrollRunItem,
+  type Settings,
+  type Staff,
+} from '@/lib/types'
+import { Button, Card, CardContent, CardHeader, cn, Input, Label, Pill, Select } from '../components'
+import { api } from '../api'
+import { useConsole, usePageData } from '../console'
+
+export function PayrollRoute() {
+  const c = useConsole()
+  const runs = usePageData(api.listPayrollRuns)
+
+  // The runs reload after each change, so these only need to send it.
+  function handleCreate(monthEarned: string) {
+    return c.mutate(async () => {
+      await api.createPayrollRun(monthEarned)
+    })
+  }
+
+  function handleSave(id: string, items: PayrollRunItem[]) {
+    return c.mutate(async () => {
+      await api.updatePayrollRun(id, items)
+    })
+  }
+
+  // Saves the reviewed lines first so the batch is created from exactly what is on screen.
+  function handleFinalize(id: string, items: PayrollRunItem[], dateSent: string, overrideWarnings: AnomalyKind[]) {
+    return c.mutate(async () => {
+      await api.updatePayrollRun(id, items)
+      await api.finalizePayrollRun(id, dateSent, overrideWarnings)
+      await c.reloadPayments()
+    })
+  }
+
+  function handleDelete(id: string) {
+    return c.mutate(async () => {
+      await api.deletePayrollRun(id)
+    })
+  }
+
+  if (!runs) return null
+  return (
+    <>
+      <PayrollRunsPage
+        runs={runs}
+        staff={c.staff}
+        staffById={c.staffById}
+        payments={c.payments}
+        advances={c.advances}
+        onCreate={handleCreate}
+        onSave={handleSave}
+        onFinalize={handleFinalize}
+        onDelete={handleDelete}
+      />
+      {c.can('settings.edit') && (
+        <CompanyDetailsCard
+          key={`${c.settings.companyName}|${c.settings.companyAddress ?? ''}|${c.settings.fiscalYearStartMonth}`}
+          settings={c.settings}
+          onSave={c.handleSaveCompanyDetails}
+        />
+      )}
+    </>
+  )
+}
+
+function PayrollRunsPage({
+  runs,
+  staff,
+  staffById,
+  payments,
+  advances,
+  onCreate,
+  onSave,
+  onFinalize,
+  onDelete,
+}: {
+  runs: PayrollRun[]
+  staff: Staff[]
+  staffById: Map<string, Staff>
+  payments: Payment[]
+  advances: Advance[]
+  onCreate: (monthEarned: string) => void
+  onSave: (id: string, items: PayrollRunItem[]) => void
+  onFinalize: (id: string, items: PayrollRunItem[], dateSent: string, overrideWarnings: AnomalyKind[]) => void
+  onDelete: (id: string) => void
+}) {
+  const [monthEarned, setMonthEarned] = useState('')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const selected = runs.find((r) => r.id === selectedId) ?? runs[0] ?? null
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="text-base font-semibold text-slate-900">Payroll Runs</div>
+          <div className="text-sm text-slate-500">
+            Draft a Salary payment for every active staff member, review the amounts, then create them as one batch.
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="w-[200px] space-y-2">
+              <Label>Month earned (YYYY-MM)</Label>
+              <Input value={monthEarned} onChange={setMonthEarned} placeholder="2026-02" />
+            </div>
+            <Button
+              onClick={() => {
+                onCreate(monthEarned)
+                setMonthEarned('')
+              }}
+              disabled={!monthEarned}
+            >
+              ＋ Draft run
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {runs.map((r) => (
+              <button
+                key={r.id}
+                onClick={() => setSelectedId(r.id)}
+                className={cn(
+                  'rounded-xl border px-3 py-2 text-left text-sm transition',
+                  selected?.id === r.id ? 'border-slate-900 bg-slate-50' : 'border-slate-200 hover:bg-slate-50'
+                )}
+              >
+                <div className="font-medium text-slate-900">{monthLabel(r.monthEarned)}</div>
+                <div className="mt-1 flex items-center gap-2 text-xs text-slate-500">
+                  <Pill tone={r.status === 'finalized' ? 'ok' : 'warn'}>{r.status}</Pill>
+                  {r.items.length} staff
+                </div>
+              </button>
+            ))}
+            {runs.length === 0 && <div className="text-sm text-slate-500">No payroll runs yet.</div>}
+          </div>
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <PayrollRunEditor
+          key={`${selected.id}:${selected.updatedAt}`}
+          run={selected}
+          staff={staff}
+          staffById={staffById}
+          payments={payments}
+          advances={advances}
+          onSave={onSave}
+          onFinalize={onFinalize}
+          onDelete={onDelete}
+        />
+      )}
+    </div>
+  )
+}
+
+// Keyed by run id + updatedAt, so local edits reset whenever the server copy changes.
+function PayrollRunEditor({
+  run,
+  staff,
+  staffById,
+  payments,
+  advances,
+  onSave,
+  onFinalize,
+  onDelete,
+}: {
+  run: PayrollRun
+  staff: Staff[]
+  staffById: Map<string, Staff>
+  payments: Payment[]
+  advances: Advance[]
+  onSave: (id: string, items: PayrollRunItem[]) => void
+  onFinalize: (id: string, items: PayrollRunItem[], dateSent: string, overrideWarnings: AnomalyKind[]) => void
+  onDelete: (id: string) => void
+}) {
+  const [items, setItems] = useState<PayrollRunItem[]>(run.items)
+  const [dateSent, setDateSent] = useState('')
+  const [addStaffId, setAddStaffId] = useState('')
+  const [confirmedWarnings, setConfirmedWarnings] = useState('')
+  const isDraft = run.status === 'draft'
+
+  const totals = useMemo(() => {
+    const sums = new Map<Currency, number>()
+    for (const item of items) sums.set(item.currency, (sums.get(item.currency) ?? 0) + item.amount)
+    return [...sums].map(([currency, amount]) => ({ currency, amount: roundMoney(amount) }))
+  }, [items])
+
+  // Preview of what finalizing deducts for advances; the server works it out again from the payments on record.
+  const repayments = useMemo(
+    () =>
+      items.map(
+        (item) =>
+          payBreakdown(repaymentsDue(advances, payments, { staffId: item.staffId, monthEarned: run.monthEarned, currency: item.currency }))
+            .deductions
+      ),
+    [items, advances, payments, run.monthEarned]
+  )
+
+  // The duplicate and anomaly checks finalizing runs on each line, against the net that will be sent.
+  const warnings = useMemo(
+    () =>
+      items.flatMap((item, i) => {
+        if (!(item.amount > 0)) return []
+        const candidate = { ...item, monthEarned: run.monthEarned, category: 'Salary' as const, amount: roundMoney(item.amount - repayments[i]) }
+        return detectAnomalies(candidate, payments).map((a) => ({ ...a, staffId: item.staffId }))
+      }),
+    [items, repayments, payments, run.monthEarned]
+  )
+  const warningKinds = [...new Set(warnings.map((a) => a.kind))]
+  const needsOverride = warnings.length > 0 && confirmedWarnings !== warningKinds.join(',')
+
+  const addable = staff.filter((s) => s.status === 'active' && !items.some((i) => i.staffId === s.id))
+  const runPayments = payments.filter((p) => run.paymentIds.includes(p.id))
+  const incomplete = items.some((i) => !(i.amount > 0))
+  const overdrawn = items.some((item, i) => item.amount > 0 && repayments[i] >= item.amount)
+
+  function setItem(index: number, patch: Partial<PayrollRunItem>) {
+    setItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...patch } : item)))
+  }
+
+  function addLine() {
+    if (!addStaffId) return
+    setItems((prev) => [...prev, { staffId: addStaffId, amount: 0, currency: 'USD', receiveCurrency: 'USD', method: 'Wise' }])
+    setAddStaffId('')
+  }
+
+  const currencyOptions = CURRENCIES.map((c) => ({ label: c, value: c }))
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <div className="text-base font-semibold text-slate-900">
+            {monthLabel(run.monthEarned)} · {isDraft ? 'Draft' : 'Finalized'}
+          </div>
+          <div className="text-sm text-slate-500">
+            {items.length} salary payment(s) · {(isDraft ? totals : run.totals).map((t) => formatMoney(t.amount, t.currency)).join(' + ') || 'nothing'}
+            {!isDraft && ' sent'}
+            {run.finalizedAt && ` · finalized ${formatDate(run.finalizedAt)}`}
+          </div>
+        </div>
+        {isDraft && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="ghost" onClick={() => onDelete(run.id)}>
+              Discard
+            </Button>
+            <Button variant="outline" onClick={() => onSave(run.id, items)}>
+              Save draft
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isDraft ? (
+          <div className="overflow-x-auto rounded-xl border border-slate-200">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Staff</th>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Amount</th>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Repayments</th>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Send</th>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Receive</th>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Method</th>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Reference</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item, i) => (
+                  <tr key={item.staffId} className="border-t border-slate-200">
+                    <td className="px-3 py-2 font-medium text-slate-900">{staffById.get(item.staffId)?.fullName || item.staffId}</td>
+                    <td className="min-w-[120px] px-3 py-2">
+                      <Input type="number" value={String(item.amount)} onChange={(v) => setItem(i, { amount: Number(v) })} />
+                    </td>
+                    <td className="min-w-[120px] px-3 py-2 text-slate-700">
+                      {repayments[i] > 0 ? (
+                        <>
+                          −{formatMoney(repayments[i], item.currency)}
+                          <div className="text-xs text-slate-500">net {formatMoney(roundMoney(item.amount - repayments[i]), item.currency)}</div>
+                        </>
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                    <td className="min-w-[96px] px-3 py-2">
+                      <Select value={item.currency} onChange={(v) => setItem(i, { currency: v as Currency })} options={currencyOptions} />
+                    </td>
+                    <td className="min-w-[96px] px-3 py-2">
+                      <Select
+                        value={item.receiveCurrency}
+                        onChange={(v) => setItem(i, { receiveCurrency: v as Currency })}
+                        options={currencyOptions}
+                      />
+                    </td>
+                    <td className="min-w-[130px] px-3 py-2">
+                      <Select
+                        value={item.method}
+                        onChange={(v) => setItem(i, { method: v as PaymentMethod })}
+                        options={PAYMENT_METHODS.map((m) => ({ label: m, value: m }))}
+                      />
+                    </td>
+                    <td className="min-w-[140px] px-3 py-2">
+                      <Input value={item.referenceId || ''} onChange={(v) => setItem(i, { referenceId: v || undefined })} />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <Button variant="ghost" size="sm" onClick={() => setItems((prev) => prev.filter((_, j) => j !== i))}>
+                        Remove
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+                {items.length === 0 && (
+                  <tr>
+                    <td className="px-3 py-6 text-center text-slate-500" colSpan={8}>
+                      No staff in this run.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="overflow-hidden rounded-xl border border-slate-200">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Staff</th>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Amount</th>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Method</th>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-700">Payment</th>
+                </tr>
+              </thead>
+              <tbody>
+                {run.paymentIds.map((id) => {
+                  const p = runPayments.find((x) => x.id === id)
+                  return (
+                    <tr key={id} className="border-t border-slate-200">
+                      <td className="px-3 py-2 font-medium text-slate-900">{p ? staffById.get(p.staffId)?.fullName || p.staffId : '—'}</td>
+                      <td className="px-3 py-2 text-slate-700">{p ? formatMoney(p.amount, p.currency) : '—'}</td>
+                      <td className="px-3 py-2 text-slate-700">{p?.method || '—'}</td>
+                      <td className="px-3 py-2 font-mono text-xs text-slate-500">{p ? id : `${id} (deleted)`}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {isDraft && (
+          <div className="flex flex-wrap items-end justify-between gap-3">
+            <div className="flex items-end gap-2">
+              <div className="w-[220px] space-y-2">
+                <Label>Add staff</Label>
+                <Select
+                  value={addStaffId}
+                  onChange={setAddStaffId}
+                  placeholder="Choose staff"
+                  options={addable.map((s) => ({ label: s.fullName, value: s.id }))}
+                />
+              </div>
+              <Button variant="outline" onClick={addLine} disabled={!addStaffId}>
+                Add
+              </Button>
+            </div>
+            <div className="flex items-end gap-2">
+              <div className="w-[220px] space-y-2">
+                <Label>Date sent</Label>
+                <Input type="datetime-local" value={dateSent} onChange={setDateSent} />
+              </div>
+              <Button
+                onClick={() => onFinalize(run.id, items, new Date(dateSent).toISOString(), warningKinds)}
+                disabled={!dateSent || items.length === 0 || incomplete || overdrawn || needsOverride}
+              >
+                Finalize &amp; create payments
+              </Button>
+            </div>
+          </div>
+        )}
+        {isDraft && incomplete && (
+          <div className="text-xs text-amber-700">Every line needs an amount above zero before the run can be finalized.</div>
+        )}
+        {isDraft && overdrawn && (
+          <div className="text-xs text-amber-700">Repayments due take a whole salary; raise the amount or remove that person from the run.</div>
+        )}
+        {isDraft && warnings.length > 0 && (
+          <div className="space-y-2 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+            {warnings.map((a) => (
+              <div key={`${a.staffId}|${a.kind}`}>
+                <span className="font-semibold">
+                  {staffById.get(a.staffId)?.fullName || a.staffId}, {ANOMALY_LABELS[a.kind].toLowerCase()}:
+                </span>{' '}
+                {a.message}
+              </div>
+            ))}
+            <label className="flex items-center gap-2 font-medium">
+              <input
+                type="checkbox"
+                checked={confirmedWarnings === warningKinds.join(',')}
+                onChange={(e) => setConfirmedWarnings(e.target.checked ? warningKinds.join(',') : '')}
+              />
+              I have checked these; finalize the run anyway (the overrides are logged)
+            </label>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+
+function CompanyDetailsCard({
+  settings,
+  onSave,
+}: {
+  settings: Settings
+  onSave: (patch: Pick<Settings, 'companyName' | 'companyAddress' | 'fiscalYearStartMonth'>) => void
+}) {
+  const [companyName, setCompanyName] = useState(settings.companyName)
+  const [companyAddress, setCompanyAddress] = useState(settings.companyAddress ?? '')
+  const [fiscalYearStartMonth, setFiscalYearStartMonth] = useState(settings.fiscalYearStartMonth)
+  const dirty =
+    companyName !== settings.companyName ||
+    companyAddress !== (settings.companyAddress ?? '') ||
+    fiscalYearStartMonth !== settings.fiscalYearStartMonth
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="text-base font-semibold text-slate-900">Company details</div>
+        <div className="text-sm text-slate-500">
+          Printed at the top of payslips and year-end statements. Staff download theirs from My Payments.
+        </div>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-end gap-3">
+        <div className="w-[240px] space-y-2">
+          <Label>Company name</Label>
+          <Input value={companyName} onChange={setCompanyName} />
+        </div>
+        <div className="min-w-[240px] flex-1 space-y-2">
+          <Label>Address (optional)</Label>
+          <Input value={companyAddress} onChange={setCompanyAddress} placeholder="P.O. Box 1234, Nairobi" />
+        </div>
+        <div className="w-[180px] space-y-2">
+          <Label>Fiscal year starts</Label>
+          <Select
+            value={String(fiscalYearStartMonth)}
+            onChange={(v) => setFiscalYearStartMonth(Number(v))}
+            options={MONTH_NAMES.map((name, i) => ({ label: name, value: String(i + 1) }))}
+          />
+        </div>
+        <Button onClick={() => onSave({ companyName, companyAddress, fiscalYearStartMonth })} disabled={!dirty || !companyName.trim()}>
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
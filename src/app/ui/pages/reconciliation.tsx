@@ -0,0 +1,129 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+
+import { monthRange, reconcileSalaries, shiftMonth, type ReconciliationStatus } from '@/lib/compensation'
+import { formatMoney, monthLabel } from '@/lib/format'
+import type { FxRate, Payment, Staff } from '@/lib/types'
+import { Card, CardContent, CardHeader, cn, Input, Label, Pill } from '../components'
+import { useConsole } from '../console'
+
+export function ReconciliationRoute() {
+  const c = useConsole()
+  return <ReconciliationPage staff={c.staff} staffById={c.staffById} payments={c.payments} fxRates={c.fxRates} />
+}
+
+const RECONCILIATION_TONES: Record<ReconciliationStatus, 'ok' | 'warn' | 'neutral'> = {
+  paid: 'ok',
+  underpaid: 'warn',
+  overpaid: 'warn',
+  missing: 'warn',
+  unconverted: 'neutral',
+}
+
+function ReconciliationPage({
+  staff,
+  staffById,
+  payments,
+  fxRates,
+}: {
+  staff: Staff[]
+  staffById: Map<string, Staff>
+  payments: Payment[]
+  fxRates: FxRate[]
+}) {
+  const thisMonth = new Date().toISOString().slice(0, 7)
+  const [from, setFrom] = useState(shiftMonth(thisMonth, -5))
+  const [to, setTo] = useState(thisMonth)
+  const [issuesOnly, setIssuesOnly] = useState(true)
+
+  const rows = useMemo(() => {
+    const months = monthRange(from, to).reverse()
+    return reconcileSalaries(staff, payments, fxRates, months).sort(
+      (a, b) => b.month.localeCompare(a.month) || (staffById.get(a.staffId)?.fullName || '').localeCompare(staffById.get(b.staffId)?.fullName || '')
+    )
+  }, [from, to, staff, payments, fxRates, staffById])
+
+  const issues = rows.filter((r) => r.status !== 'paid')
+  const shown = issuesOnly ? issues : rows
+  const withoutProfile = staff.filter((s) => s.status === 'active' && !s.compensation?.length)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="text-base font-semibold text-slate-900">Salary reconciliation</div>
+        <div className="text-sm text-slate-500">
+          Expected monthly salary from each compensation profile compared with the Salary payments logged for that month.
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="w-[140px] space-y-2">
+            <Label>From (YYYY-MM)</Label>
+            <Input value={from} onChange={setFrom} placeholder="2025-12" />
+          </div>
+          <div className="w-[140px] space-y-2">
+            <Label>To (YYYY-MM)</Label>
+            <Input value={to} onChange={setTo} placeholder="2026-02" />
+          </div>
+          <label className="flex h-10 items-center gap-2 text-sm text-slate-700">
+            <input type="checkbox" checked={issuesOnly} onChange={(e) => setIssuesOnly(e.target.checked)} />
+            Only show gaps and overpayments
+          </label>
+          <div className="ml-auto flex gap-2">
+            <Pill tone={issues.length ? 'warn' : 'ok'}>{issues.length} issue(s)</Pill>
+            <Pill>{rows.length} staff-months</Pill>
+          </div>
+        </div>
+
+        {withoutProfile.length > 0 && (
+          <div className="rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+            No compensation profile for {withoutProfile.map((s) => s.fullName).join(', ')}; they are not reconciled. Set one
+            from the Staff page.
+          </div>
+        )}
+
+        <div className="overflow-hidden rounded-xl border border-slate-200">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Month</th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Staff</th>
+                <th className="px-3 py-2 text-right font-semibold text-slate-700">Expected</th>
+                <th className="px-3 py-2 text-right font-semibold text-slate-700">Paid (gross)</th>
+                <th className="px-3 py-2 text-right font-semibold text-slate-700">Difference</th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((r) => (
+                <tr key={`${r.staffId}:${r.month}`} className="border-t border-slate-200">
+                  <td className="px-3 py-2 text-slate-700">{monthLabel(r.month)}</td>
+                  <td className="px-3 py-2 font-medium text-slate-900">{staffById.get(r.staffId)?.fullName || r.staffId}</td>
+                  <td className="px-3 py-2 text-right text-slate-700">{formatMoney(r.expected, r.currency)}</td>
+                  <td className="px-3 py-2 text-right text-slate-700" title={r.paymentIds.join(', ')}>
+                    {formatMoney(r.paid, r.currency)}
+                  </td>
+                  <td className={cn('px-3 py-2 text-right', r.difference < 0 ? 'text-red-700' : r.difference > 0 ? 'text-amber-700' : 'text-slate-500')}>
+                    {r.difference > 0 ? '+' : ''}
+                    {formatMoney(r.difference, r.currency)}
+                  </td>
+                  <td className="px-3 py-2">
+                    <Pill tone={RECONCILIATION_TONES[r.status]}>{r.status === 'unconverted' ? 'no FX rate' : r.status}</Pill>
+                  </td>
+                </tr>
+              ))}
+              {shown.length === 0 && (
+                <tr>
+                  <td className="px-3 py-6 text-center text-slate-500" colSpan={6}>
+                    {rows.length ? 'Every expected salary in this range was paid in full.' : 'Nothing to reconcile in this range.'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
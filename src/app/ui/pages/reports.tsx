@@ -0,0 +1,159 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+
+import { formatMoney } from '@/lib/format'
+import {
+  buildReport,
+  REPORT_DIMENSION_LABELS,
+  REPORT_DIMENSIONS,
+  type Report,
+  type ReportDimension,
+  type ReportRow,
+} from '@/lib/reports'
+import type { Currency, FxRate, Payment, Staff } from '@/lib/types'
+import { Button, Card, CardContent, CardHeader, Input, Label } from '../components'
+import { useConsole } from '../console'
+
+export function ReportsRoute() {
+  const c = useConsole()
+  return (
+    <ReportsPage
+      payments={c.payments}
+      staff={c.staff}
+      fxRates={c.fxRates}
+      baseCurrency={c.settings.baseCurrency}
+      onExport={c.can('exports') ? c.handleExportReport : undefined}
+    />
+  )
+}
+
+function ReportsPage({
+  payments,
+  staff,
+  fxRates,
+  baseCurrency,
+  onExport,
+}: {
+  payments: Payment[]
+  staff: Staff[]
+  fxRates: FxRate[]
+  baseCurrency: Currency
+  onExport?: (dimension: ReportDimension, from: string, to: string, format: 'csv' | 'pdf') => void
+}) {
+  const [from, setFrom] = useState(`${new Date().getFullYear()}-01-01`)
+  const [to, setTo] = useState('')
+  const invalid = Boolean(from && to && from > to)
+
+  const reports = useMemo(
+    () => REPORT_DIMENSIONS.map((d) => buildReport(payments, staff, fxRates, baseCurrency, d, from, to)),
+    [payments, staff, fxRates, baseCurrency, from, to]
+  )
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="text-base font-semibold text-slate-900">Reports</div>
+          <div className="text-sm text-slate-500">
+            Payments sent in the selected dates, totalled in {baseCurrency} at the rate on each send date.
+          </div>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-3">
+          <div className="w-[180px] space-y-2">
+            <Label>Sent from</Label>
+            <Input type="date" value={from} onChange={setFrom} />
+          </div>
+          <div className="w-[180px] space-y-2">
+            <Label>Sent to</Label>
+            <Input type="date" value={to} onChange={setTo} />
+          </div>
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setFrom('')
+              setTo('')
+            }}
+          >
+            All dates
+          </Button>
+          {invalid && <div className="text-sm text-rose-600">The start date is after the end date.</div>}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        {reports.map((report) => (
+          <ReportCard
+            key={report.dimension}
+            report={report}
+            onExport={onExport && ((format) => onExport(report.dimension, from, to, format))}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function ReportCard({ report, onExport }: { report: Report; onExport?: (format: 'csv' | 'pdf') => void }) {
+  const max = Math.max(0, ...report.rows.map((r) => r.total))
+  const share = (r: ReportRow) => (max > 0 ? (r.total / max) * 100 : 0)
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center justify-between gap-2">
+        <div>
+          <div className="text-sm font-semibold text-slate-900">By {REPORT_DIMENSION_LABELS[report.dimension].toLowerCase()}</div>
+          <div className="text-xs text-slate-500">
+            {report.count} payment(s), {formatMoney(report.total, report.baseCurrency)}
+            {report.unconverted > 0 && ` (${report.unconverted} without a ${report.baseCurrency} rate)`}
+          </div>
+        </div>
+        {onExport && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => onExport('csv')}>
+              ⬇ CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => onExport('pdf')}>
+              ⬇ PDF
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {report.rows.length === 0 ? (
+          <div className="text-sm text-slate-500">No payments in this range.</div>
+        ) : report.dimension === 'month' ? (
+          <div className="flex h-48 items-end gap-2 border-b border-slate-200 pt-4">
+            {report.rows.map((r) => (
+              <div key={r.key} className="flex h-full min-w-0 flex-1 flex-col items-center justify-end gap-1">
+                <div className="text-[10px] text-slate-500">{formatMoney(r.total, report.baseCurrency)}</div>
+                <div
+                  className="w-full max-w-[48px] rounded-t-md bg-slate-800"
+                  style={{ height: `${share(r)}%` }}
+                  title={`${r.label}: ${formatMoney(r.total, report.baseCurrency)} (${r.count})`}
+                />
+                <div className="truncate pb-1 text-[10px] text-slate-600">{r.key}</div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {report.rows.map((r) => (
+              <div key={r.key} className="space-y-1">
+                <div className="flex justify-between gap-2 text-sm">
+                  <span className="truncate text-slate-700">
+                    {r.label} <span className="text-xs text-slate-400">· {r.count}</span>
+                  </span>
+                  <span className="font-medium text-slate-900">{formatMoney(r.total, report.baseCurrency)}</span>
+                </div>
+                <div className="h-2 rounded-full bg-slate-100">
+                  <div className="h-2 rounded-full bg-slate-800" style={{ width: `${share(r)}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+
+import { PERMISSION_LABELS, ROLE_LABELS } from '@/lib/permissions'
+import { PERMISSIONS, ROLES, type Permission, type Role, type RolePermissions } from '@/lib/types'
+import { Button, Card, CardContent, CardHeader } from '../components'
+import { api } from '../api'
+import { useConsole, usePageData } from '../console'
+
+export function RolesRoute() {
+  const c = useConsole()
+  const matrix = usePageData(api.getRolePermissions)
+
+  // Saving the matrix can change this session's own permissions, so the session is re-read too.
+  function handleSave(next: RolePermissions) {
+    return c.mutate(async () => {
+      await api.updateRolePermissions(next)
+      await c.reloadSession()
+    })
+  }
+
+  if (!matrix) return null
+  return <RolesPage key={JSON.stringify(matrix)} matrix={matrix} onSave={handleSave} />
+}
+
+// Mounted with key={JSON.stringify(matrix)}, so the draft resets whenever a save comes back.
+function RolesPage({ matrix, onSave }: { matrix: RolePermissions; onSave: (matrix: RolePermissions) => void }) {
+  const [draft, setDraft] = useState<RolePermissions>(matrix)
+  const dirty = JSON.stringify(draft) !== JSON.stringify(matrix)
+
+  function toggle(role: Role, permission: Permission) {
+    setDraft((prev) => {
+      const held = prev[role].includes(permission)
+      // Kept in PERMISSIONS order so an unchanged matrix compares equal.
+      return { ...prev, [role]: PERMISSIONS.filter((p) => (p === permission ? !held : prev[role].includes(p))) }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center justify-between gap-3">
+        <div>
+          <div className="text-base font-semibold text-slate-900">Roles</div>
+          <div className="text-sm text-slate-500">
+            Choose what each role may do. Changes apply to everyone with that role on their next request. Admins always keep
+            every permission.
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setDraft(matrix)} disabled={!dirty}>
+            Reset
+          </Button>
+          <Button onClick={() => onSave(draft)} disabled={!dirty}>
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto rounded-xl border border-slate-200">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Permission</th>
+                {ROLES.map((r) => (
+                  <th key={r} className="px-3 py-2 text-center font-semibold text-slate-700">
+                    {ROLE_LABELS[r]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {PERMISSIONS.map((permission) => (
+                <tr key={permission} className="border-t border-slate-200">
+                  <td className="px-3 py-2">
+                    <div className="text-slate-900">{PERMISSION_LABELS[permission]}</div>
+                    <div className="text-xs text-slate-500">{permission}</div>
+                  </td>
+                  {ROLES.map((r) => (
+                    <td key={r} className="px-3 py-2 text-center">
+                      <input
+                        type="checkbox"
+                        aria-label={`${ROLE_LABELS[r]}: ${PERMISSION_LABELS[permission]}`}
+                        checked={r === 'admin' || draft[r].includes(permission)}
+                        disabled={r === 'admin'}
+                        onChange={() => toggle(r, permission)}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,403 @@
+'use client'
+
+import Link from 'next/link'
+import { useCallback, useMemo } from 'react'
+
+import { compensationFor } from '@/lib/compensation'
+import { statementPeriod } from '@/lib/earnings'
+import { formatDate, formatMoney, monthLabel } from '@/lib/format'
+import { convertAmount, roundMoney } from '@/lib/fx'
+import { isPaid, PAYMENT_STATUS_LABELS } from '@/lib/payments'
+import { monthsWithoutSalary, STAFF_STATUS_LABELS } from '@/lib/staff'
+import { buildReport } from '@/lib/reports'
+import { describeSchedule, nextOccurrence } from '@/lib/recurring'
+import {
+  PAYMENT_CATEGORIES,
+  type Advance,
+  type AuditLog,
+  type FxRate,
+  type Payment,
+  type PaymentTemplate,
+  type Settings,
+  type Staff,
+} from '@/lib/types'
+import {
+  AdvancesCard,
+  AuditEntry,
+  Button,
+  ButtonLink,
+  Card,
+  CardContent,
+  CardHeader,
+  cn,
+  DetailRow,
+  formatPay,
+  NotFoundCard,
+  Pill,
+  STAFF_STATUS_TONES,
+  STATUS_TONES,
+  StatusHistoryList,
+} from '../components'
+import { api } from '../api'
+import { useConsole, usePageData } from '../console'
+
+export function StaffDetailRoute({ id }: { id: string }) {
+  const c = useConsole()
+  const loadAudit = useCallback(() => api.listAudit({ staff: id }), [id])
+  const audit = usePageData(c.can('audit.view') ? loadAudit : null)
+  const member = c.staff.find((s) => s.id === id)
+  if (!member) return <NotFoundCard title="Staff member not found" backHref="/staff" backLabel="Back to staff" />
+  const staffPayments = c.payments.filter((p) => p.staffId === member.id)
+  const staffAdvances = c.advances.filter((a) => a.staffId === member.id)
+  const staffTemplates = c.templates.filter((t) => t.staffId === member.id)
+  // A new template starts from the way this person was last paid.
+  const lastPayment = [...staffPayments].sort((a, b) => b.dateSent.localeCompare(a.dateSent))[0]
+  return (
+    <StaffDetailPage
+      staff={member}
+      payments={c.can('payments.view') ? staffPayments : []}
+      advances={c.can('payments.view') ? staffAdvances : []}
+      templates={staffTemplates}
+      audit={c.can('audit.view') ? (audit ?? []) : null}
+      fxRates={c.fxRates}
+      settings={c.settings}
+      canSeePay={c.can('payments.view')}
+      onEdit={c.can('staff.edit') ? c.openStaffForm : undefined}
+      onManageLogin={c.can('users.manage') ? c.setLoginStaff : undefined}
+      onManagePay={c.can('staff.pay') ? c.setPayStaff : undefined}
+      onAddAdvance={c.can('payments.edit') ? c.setAdvanceStaff : undefined}
+      onDeleteAdvance={c.can('payments.edit') ? (a) => c.handleDeleteAdvance(a.id) : undefined}
+      onAddTemplate={c.can('payments.edit') ? (s) => c.setTemplateForm({ staff: s, editing: null, source: lastPayment }) : undefined}
+      onEditTemplate={c.can('payments.edit') ? (t) => c.setTemplateForm({ staff: member, editing: t }) : undefined}
+      onDeleteTemplate={c.can('payments.edit') ? (t) => c.handleDeleteTemplate(t.id) : undefined}
+    />
+  )
+}
+
+function StaffDetailPage({
+  staff: s,
+  payments,
+  advances,
+  audit,
+  fxRates,
+  settings,
+  canSeePay,
+  onEdit,
+  onManageLogin,
+  onManagePay,
+  onAddAdvance,
+  onDeleteAdvance,
+  templates,
+  onAddTemplate,
+  onEditTemplate,
+  onDeleteTemplate,
+}: {
+  staff: Staff
+  payments: Payment[] // this staff member's, empty without payments.view
+  advances: Advance[] // likewise
+  templates: PaymentTemplate[] // likewise
+  audit: AuditLog[] | null // null without audit.view
+  fxRates: FxRate[]
+  settings: Settings
+  canSeePay: boolean
+  onEdit?: (s: Staff) => void
+  onManageLogin?: (s: Staff) => void
+  onManagePay?: (s: Staff) => void
+  onAddAdvance?: (s: Staff) => void
+  onDeleteAdvance?: (a: Advance) => void
+  onAddTemplate?: (s: Staff) => void
+  onEditTemplate?: (t: PaymentTemplate) => void
+  onDeleteTemplate?: (t: PaymentTemplate) => void
+}) {
+  const today = new Date().toISOString().slice(0, 10)
+  const thisMonth = today.slice(0, 7)
+  const base = settings.baseCurrency
+
+  // The fiscal year running today; with a January start that is the calendar year.
+  const [year, month] = thisMonth.split('-').map(Number)
+  const period = statementPeriod(month >= settings.fiscalYearStartMonth ? year : year - 1, 'fiscal', settings.fiscalYearStartMonth)
+  const ytd = useMemo(
+    () => buildReport(payments, [s], fxRates, base, 'category', `${period.from}-01`, today),
+    [payments, s, fxRates, base, period.from, today]
+  )
+
+  // Newest first, each with the total sent to date (in the base currency) as of that payment.
+  const timeline = useMemo(() => {
+    const rows: Array<{ payment: Payment; running: number }> = []
+    let running = 0
+    for (const p of [...payments].sort((a, b) => a.dateSent.localeCompare(b.dateSent) || a.id.localeCompare(b.id))) {
+      const value = isPaid(p) ? convertAmount(fxRates, p.amount, p.currency, base, p.dateSent.slice(0, 10)) : null
+      if (value !== null) running = roundMoney(running + value)
+      rows.push({ payment: p, running })
+    }
+    return rows.reverse()
+  }, [payments, fxRates, base])
+
+  const gaps = useMemo(() => monthsWithoutSalary(s, payments, thisMonth), [s, payments, thisMonth])
+  const missingReceipts = timeline.filter((r) => isPaid(r.payment) && r.payment.receiptStatus === 'missing').map((r) => r.payment)
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="text-xs text-slate-500">
+              <Link href="/staff" className="hover:underline">
+                Staff
+              </Link>{' '}
+              / {s.id}
+            </div>
+            <div className="mt-1 flex items-center gap-2">
+              <div className="text-base font-semibold text-slate-900">{s.fullName}</div>
+              <Pill tone={STAFF_STATUS_TONES[s.status]}>{STAFF_STATUS_LABELS[s.status]}</Pill>
+            </div>
+            <div className="text-sm text-slate-500">{s.jobTitle}</div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {onManagePay && (
+              <Button variant="ghost" size="sm" onClick={() => onManagePay(s)}>
+                Pay
+              </Button>
+            )}
+            {onManageLogin && (
+              <Button variant="ghost" size="sm" onClick={() => onManageLogin(s)} disabled={!s.email}>
+                Login
+              </Button>
+            )}
+            {onEdit && (
+              <Button variant="outline" size="sm" onClick={() => onEdit(s)}>
+                Edit
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 gap-4 md:grid-cols-4">
+          <DetailRow label="Email">{s.email || '—'}</DetailRow>
+          <DetailRow label="Hired">{s.hireDate || '—'}</DetailRow>
+          <DetailRow label="Left">{s.status === 'terminated' ? `${s.terminationDate} · ${s.terminationReason}` : '—'}</DetailRow>
+          {canSeePay && <DetailRow label="Current pay">{formatPay(compensationFor(s, thisMonth) ?? s.compensation?.[0])}</DetailRow>}
+        </CardContent>
+      </Card>
+
+      {canSeePay && (
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+          <Card>
+            <CardHeader>
+              <div className="text-sm font-semibold text-slate-900">Year to date · {period.label}</div>
+              <div className="text-xs text-slate-500">
+                Sent since {formatDate(`${period.from}-01`)}, in {base}
+                {ytd.unconverted > 0 && ` (${ytd.unconverted} without a ${base} rate)`}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {PAYMENT_CATEGORIES.map((category) => {
+                const row = ytd.rows.find((r) => r.key === category)
+                return (
+                  <div key={category} className="flex justify-between gap-2">
+                    <span className="text-slate-700">
+                      {category} {row && <span className="text-xs text-slate-400">· {row.count}</span>}
+                    </span>
+                    <span className="text-slate-900">{formatMoney(row?.total ?? 0, base)}</span>
+                  </div>
+                )
+              })}
+              <div className="flex justify-between gap-2 border-t border-slate-200 pt-2 font-semibold text-slate-900">
+                <span>Total</span>
+                <span>{formatMoney(ytd.total, base)}</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="text-sm font-semibold text-slate-900">Months without a salary</div>
+              <div className="text-xs text-slate-500">Full months employed with no Salary payment sent.</div>
+            </CardHeader>
+            <CardContent>
+              {gaps.length === 0 ? (
+                <Pill tone="ok">None</Pill>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {gaps.map((m) => (
+                    <Pill key={m} tone="warn">
+                      {monthLabel(m)}
+                    </Pill>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="text-sm font-semibold text-slate-900">Missing receipts</div>
+              <div className="text-xs text-slate-500">Payments with no receipt attached yet.</div>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {missingReceipts.length === 0 && <Pill tone="ok">None</Pill>}
+              {missingReceipts.map((p) => (
+                <div key={p.id} className="flex items-center justify-between gap-2">
+                  <Link href={`/payments/${p.id}`} className="text-slate-700 hover:underline">
+                    {p.category} · {monthLabel(p.monthEarned)}
+                  </Link>
+                  <span className="text-slate-900">{formatMoney(p.amount, p.currency)}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {canSeePay && (
+        <AdvancesCard
+          advances={advances}
+          payments={payments}
+          description="Repaid by deductions on Salary payments, taken automatically from the first repayment month."
+          onAdd={onAddAdvance && (() => onAddAdvance(s))}
+          onDelete={onDeleteAdvance}
+        />
+      )}
+
+      {canSeePay && (
+        <RecurringPaymentsCard
+          templates={templates}
+          today={today}
+          onAdd={onAddTemplate && (() => onAddTemplate(s))}
+          onEdit={onEditTemplate}
+          onDelete={onDeleteTemplate}
+        />
+      )}
+
+      {canSeePay && (
+        <Card>
+          <CardHeader>
+            <div className="text-base font-semibold text-slate-900">Payment timeline</div>
+            <div className="text-sm text-slate-500">Running totals count money sent, converted to {base} on each send date.</div>
+          </CardHeader>
+          <CardContent>
+            {timeline.length === 0 ? (
+              <div className="text-sm text-slate-500">No payments recorded.</div>
+            ) : (
+              <ol className="space-y-4 border-l border-slate-200 pl-5">
+                {timeline.map(({ payment: p, running }) => (
+                  <li key={p.id} className="relative">
+                    <span className={cn('absolute -left-[26px] top-1.5 h-2.5 w-2.5 rounded-full', isPaid(p) ? 'bg-slate-800' : 'bg-slate-300')} />
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium text-slate-900">{formatMoney(p.amount, p.currency)}</span>
+                          <Pill>{p.category}</Pill>
+                          <Pill tone={STATUS_TONES[p.status]}>{PAYMENT_STATUS_LABELS[p.status]}</Pill>
+                          {p.receiptStatus === 'missing' && <Pill tone="warn">No receipt</Pill>}
+                        </div>
+                        <div className="mt-1 text-xs text-slate-500">
+                          {formatDate(p.dateSent)} · for {monthLabel(p.monthEarned)} · {p.method}
+                          {p.referenceId && ` · ${p.referenceId}`}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="text-right text-xs text-slate-500">
+                          Sent to date
+                          <div className="text-sm font-medium text-slate-900">{formatMoney(running, base)}</div>
+                        </div>
+                        <ButtonLink href={`/payments/${p.id}`}>Details</ButtonLink>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="text-base font-semibold text-slate-900">Status history</div>
+        </CardHeader>
+        <CardContent>
+          <StatusHistoryList staff={s} />
+        </CardContent>
+      </Card>
+
+      {audit && (
+        <Card>
+          <CardHeader>
+            <div className="text-base font-semibold text-slate-900">Audit trail</div>
+            <div className="text-sm text-slate-500">Entries recorded against {s.fullName} and their payments.</div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {audit.map((l) => (
+              <AuditEntry key={l.id} log={l} />
+            ))}
+            {audit.length === 0 && <div className="text-sm text-slate-500">No audit records.</div>}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+// Templates only schedule payments; each due one is confirmed from the dashboard's action items.
+function RecurringPaymentsCard({
+  templates,
+  today,
+  onAdd,
+  onEdit,
+  onDelete,
+}: {
+  templates: PaymentTemplate[]
+  today: string
+  onAdd?: () => void
+  onEdit?: (t: PaymentTemplate) => void
+  onDelete?: (t: PaymentTemplate) => void
+}) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <div className="text-base font-semibold text-slate-900">Recurring payments</div>
+          <div className="text-sm text-slate-500">Due payments appear as drafts under Action Items on the dashboard.</div>
+        </div>
+        {onAdd && (
+          <Button variant="outline" size="sm" onClick={onAdd}>
+            ＋ Recurring payment
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {templates.length === 0 && <div className="text-sm text-slate-500">No recurring payments set up.</div>}
+        {templates.map((t) => {
+          const next = nextOccurrence(t, today)
+          return (
+            <div key={t.id} className="flex flex-col justify-between gap-2 rounded-xl border border-slate-200 p-3 sm:flex-row sm:items-center">
+              <div>
+                <div className="flex flex-wrap items-center gap-2 font-medium text-slate-900">
+                  {formatMoney(t.amount, t.currency)}
+                  <Pill>{t.category}</Pill>
+                </div>
+                <div className="text-xs text-slate-500">
+                  {describeSchedule(t)} · {t.method}
+                  {t.paysPreviousMonth && ' · pays for the previous month'} · {next ? `next ${next}` : 'ended'}
+                  {t.notes && ` · ${t.notes}`}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {onEdit && (
+                  <Button variant="ghost" size="sm" onClick={() => onEdit(t)}>
+                    Edit
+                  </Button>
+                )}
+                {onDelete && (
+                  <Button variant="ghost" size="sm" onClick={() => onDelete(t)}>
+                    Delete
+                  </Button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,132 @@
+'use client'
+
+import Link from 'next/link'
+
+import { compensationFor } from '@/lib/compensation'
+import { STAFF_STATUS_LABELS } from '@/lib/staff'
+import type { Staff } from '@/lib/types'
+import { Button, Card, CardContent, CardHeader, formatPay, Pill, STAFF_STATUS_TONES } from '../components'
+import { useConsole } from '../console'
+
+export function StaffRoute() {
+  const c = useConsole()
+  return (
+    <StaffPage
+      staff={c.staff}
+      canSeePay={c.can('payments.view')}
+      onAddStaff={c.can('staff.edit') ? () => c.openStaffForm(null) : undefined}
+      onEdit={c.can('staff.edit') ? c.openStaffForm : undefined}
+      onShowHistory={c.setHistoryStaff}
+      onManageLogin={c.can('users.manage') ? c.setLoginStaff : undefined}
+      onManagePay={c.can('staff.pay') ? c.setPayStaff : undefined}
+      onDelete={c.can('staff.edit') ? c.confirmStaffRemoval : undefined}
+    />
+  )
+}
+
+function StaffPage({
+  staff,
+  canSeePay,
+  onAddStaff,
+  onEdit,
+  onShowHistory,
+  onManageLogin,
+  onManagePay,
+  onDelete,
+}: {
+  staff: Staff[]
+  canSeePay: boolean
+  onAddStaff?: () => void
+  onEdit?: (s: Staff) => void
+  onShowHistory: (s: Staff) => void
+  onManageLogin?: (s: Staff) => void
+  onManagePay?: (s: Staff) => void
+  onDelete?: (s: Staff) => void
+}) {
+  const thisMonth = new Date().toISOString().slice(0, 7)
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center justify-between">
+        <div>
+          <div className="text-base font-semibold text-slate-900">Staff</div>
+          <div className="text-sm text-slate-500">Manage internal staff and access.</div>
+        </div>
+        {onAddStaff && <Button onClick={onAddStaff}>＋ Add Staff</Button>}
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-hidden rounded-xl border border-slate-200">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Name</th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Role</th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Email</th>
+                {canSeePay && <th className="px-3 py-2 text-left font-semibold text-slate-700">Pay</th>}
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Status</th>
+                <th className="px-3 py-2 text-right font-semibold text-slate-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {staff.map((s) => (
+                <tr key={s.id} className="border-t border-slate-200">
+                  <td className="px-3 py-2">
+                    <Link href={`/staff/${s.id}`} className="font-medium text-slate-900 hover:underline">
+                      {s.fullName}
+                    </Link>
+                    <div className="text-xs text-slate-500">{s.id}</div>
+                  </td>
+                  <td className="px-3 py-2 text-slate-700">{s.jobTitle}</td>
+                  <td className="px-3 py-2 text-slate-500">{s.email || '—'}</td>
+                  {canSeePay && (
+                    <td className="px-3 py-2 text-slate-700">{formatPay(compensationFor(s, thisMonth) ?? s.compensation?.[0])}</td>
+                  )}
+                  <td className="px-3 py-2">
+                    <Pill tone={STAFF_STATUS_TONES[s.status]}>{STAFF_STATUS_LABELS[s.status]}</Pill>
+                    <div className="mt-1 text-xs text-slate-500">
+                      {s.status === 'terminated' ? `Left ${s.terminationDate}` : s.hireDate ? `Since ${s.hireDate}` : ''}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <div className="flex justify-end gap-2">
+                      {onManagePay && (
+                        <Button variant="ghost" size="sm" onClick={() => onManagePay(s)}>
+                          Pay
+                        </Button>
+                      )}
+                      {onManageLogin && (
+                        <Button variant="ghost" size="sm" onClick={() => onManageLogin(s)} disabled={!s.email}>
+                          Login
+                        </Button>
+                      )}
+                      {onEdit && (
+                        <Button variant="outline" size="sm" onClick={() => onEdit(s)}>
+                          Edit
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => onShowHistory(s)}>
+                        History
+                      </Button>
+                      {onDelete && (
+                        <Button variant="danger" size="sm" onClick={() => onDelete(s)}>
+                          Delete
+                        </Button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {staff.length === 0 && (
+                <tr>
+                  <td className="px-3 py-6 text-center text-slate-500" colSpan={canSeePay ? 6 : 5}>
+                    No staff records.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
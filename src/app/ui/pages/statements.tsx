@@ -0,0 +1,270 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+
+import { formatMoney } from '@/lib/format'
+import {
+  PAYMENT_METHODS,
+  type Payment,
+  type PaymentMethod,
+  type Staff,
+  type StatementLine,
+  type StatementReconciliation,
+} from '@/lib/types'
+import { api } from '../api'
+import { Button, Card, CardContent, CardHeader, Label, Pill, Select } from '../components'
+import { useConsole } from '../console'
+
+export function StatementsRoute() {
+  const c = useConsole()
+  return (
+    <StatementsPage
+      payments={c.payments}
+      staffById={c.staffById}
+      onReconcile={api.reconcileStatement}
+      onLink={c.can('payments.edit') ? c.handleLinkStatementLine : undefined}
+      onCreateFromLine={c.can('payments.edit') ? c.handleCreateFromStatementLine : undefined}
+      onMarkReconciled={c.can('payments.edit') ? (p) => c.handleTransition(p, 'reconciled') : undefined}
+    />
+  )
+}
+
+function StatementsPage({
+  payments,
+  staffById,
+  onReconcile,
+  onLink,
+  onCreateFromLine,
+  onMarkReconciled,
+}: {
+  payments: Payment[]
+  staffById: Map<string, Staff>
+  onReconcile: (provider: PaymentMethod, file: File) => Promise<StatementReconciliation>
+  onLink?: (paymentId: string, reference: string) => Promise<void>
+  onCreateFromLine?: (line: StatementLine, provider: PaymentMethod) => void
+  onMarkReconciled?: (p: Payment) => void
+}) {
+  const [provider, setProvider] = useState<PaymentMethod>('Wise')
+  const [file, setFile] = useState<File | null>(null)
+  const [result, setResult] = useState<StatementReconciliation | null>(null)
+  const [statementError, setStatementError] = useState<string | null>(null)
+  const [linkTargets, setLinkTargets] = useState<Record<number, string>>({})
+
+  // Re-runs whenever the ledger changes, so links and new payments show up as matched.
+  useEffect(() => {
+    if (!file) return
+    let cancelled = false
+    onReconcile(provider, file)
+      .then((r) => {
+        if (cancelled) return
+        setResult(r)
+        setStatementError(null)
+      })
+      .catch((err: Error) => {
+        if (cancelled) return
+        setResult(null)
+        setStatementError(err.message)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [provider, file, payments, onReconcile])
+
+  const paymentById = useMemo(() => new Map(payments.map((p) => [p.id, p])), [payments])
+  const describe = (p: Payment | undefined) =>
+    p ? `${staffById.get(p.staffId)?.fullName || 'Staff'} · ${formatMoney(p.amount, p.currency)} · ${p.dateSent.slice(0, 10)}` : '—'
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="text-base font-semibold text-slate-900">Provider statements</div>
+          <div className="text-sm text-slate-500">
+            Upload a transfer export from Wise, Sendwave or WorldRemit. Lines are matched to payments by reference ID, then
+            by amount and date.
+          </div>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-3">
+          <div className="w-[180px] space-y-2">
+            <Label>Provider</Label>
+            <Select
+              value={provider}
+              onChange={(v) => setProvider(v as PaymentMethod)}
+              options={PAYMENT_METHODS.map((m) => ({ label: m, value: m }))}
+            />
+          </div>
+          <div className="flex-1 space-y-2">
+            <Label>Statement CSV</Label>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="block w-full text-sm text-slate-700 file:mr-3 file:rounded-lg file:border-0 file:bg-slate-100 file:px-3 file:py-2 file:text-sm file:font-medium file:text-slate-900 hover:file:bg-slate-200"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {statementError && (
+        <div className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{statementError}</div>
+      )}
+
+      {result && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <Pill>
+              {result.lineCount} transfers · {result.from} to {result.to}
+            </Pill>
+            <Pill tone="ok">{result.matched.length} matched</Pill>
+            <Pill tone={result.unmatchedStatement.length ? 'warn' : 'neutral'}>
+              {result.unmatchedStatement.length} not in ledger
+            </Pill>
+            <Pill tone={result.unmatchedLedger.length ? 'warn' : 'neutral'}>{result.unmatchedLedger.length} not on statement</Pill>
+            {result.skippedLines > 0 && <Pill>{result.skippedLines} rows ignored (incoming, failed or other currency)</Pill>}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="text-sm font-semibold text-slate-900">On the statement, not in the ledger</div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {result.unmatchedStatement.map((line) => (
+                <div key={line.line} className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-200 p-3">
+                  <div>
+                    <div className="font-medium text-slate-900">
+                      {line.reference} · {formatMoney(line.amount, line.currency)}
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      Row {line.line} · {line.date}
+                      {line.recipient && ` · to ${line.recipient}`}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {onLink && result.unmatchedLedger.length > 0 && (
+                      <>
+                        <div className="w-[260px]">
+                          <Select
+                            value={linkTargets[line.line] || ''}
+                            onChange={(v) => setLinkTargets((prev) => ({ ...prev, [line.line]: v }))}
+                            placeholder="Link to ledger payment…"
+                            options={result.unmatchedLedger.map((id) => ({ label: describe(paymentById.get(id)), value: id }))}
+                          />
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={!linkTargets[line.line]}
+                          onClick={() => onLink(linkTargets[line.line], line.reference)}
+                        >
+                          Link
+                        </Button>
+                      </>
+                    )}
+                    {onCreateFromLine && (
+                      <Button size="sm" onClick={() => onCreateFromLine(line, result.provider)}>
+                        Create payment
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {result.unmatchedStatement.length === 0 && <div className="text-sm text-slate-500">Every transfer is in the ledger.</div>}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="text-sm font-semibold text-slate-900">In the ledger, not on the statement</div>
+              <div className="text-xs text-slate-500">
+                {result.provider} payments sent between {result.from} and {result.to} (± a few days).
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {result.unmatchedLedger.map((id) => {
+                const p = paymentById.get(id)
+                return (
+                  <div key={id} className="rounded-xl border border-slate-200 p-3">
+                    <div className="font-medium text-slate-900">{describe(p)}</div>
+                    <div className="text-xs text-slate-500">
+                      {id}
+                      {p?.referenceId ? ` · ref ${p.referenceId}` : ' · no reference'}
+                    </div>
+                  </div>
+                )
+              })}
+              {result.unmatchedLedger.length === 0 && <div className="text-sm text-slate-500">Nothing missing from the statement.</div>}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="text-sm font-semibold text-slate-900">Matched</div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-hidden rounded-xl border border-slate-200">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-semibold text-slate-700">Statement</th>
+                      <th className="px-3 py-2 text-left font-semibold text-slate-700">Ledger payment</th>
+                      <th className="px-3 py-2 text-left font-semibold text-slate-700">Matched by</th>
+                      <th className="px-3 py-2 text-right font-semibold text-slate-700">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.matched.map((m) => {
+                      const p = paymentById.get(m.paymentId)
+                      return (
+                        <tr key={m.line.line} className="border-t border-slate-200 align-top">
+                          <td className="px-3 py-2">
+                            <div className="font-medium text-slate-900">{m.line.reference}</div>
+                            <div className="text-xs text-slate-500">
+                              {formatMoney(m.line.amount, m.line.currency)} · {m.line.date}
+                            </div>
+                          </td>
+                          <td className="px-3 py-2 text-slate-700">
+                            {describe(p)}
+                            {p?.status === 'reconciled' && <div className="text-xs text-slate-500">Reconciled</div>}
+                            {m.discrepancies.map((d) => (
+                              <div key={d} className="text-xs text-amber-700">
+                                {d}
+                              </div>
+                            ))}
+                          </td>
+                          <td className="px-3 py-2">
+                            <Pill tone={m.matchedBy === 'reference' ? 'ok' : 'warn'}>
+                              {m.matchedBy === 'reference' ? 'reference' : 'amount + date'}
+                            </Pill>
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {onLink && m.matchedBy === 'amount-date' && (
+                              <Button variant="outline" size="sm" onClick={() => onLink(m.paymentId, m.line.reference)}>
+                                Save reference
+                              </Button>
+                            )}
+                            {onMarkReconciled && p?.status === 'sent' && m.matchedBy === 'reference' && (
+                              <Button variant="outline" size="sm" onClick={() => onMarkReconciled(p)}>
+                                Mark reconciled
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                    {result.matched.length === 0 && (
+                      <tr>
+                        <td className="px-3 py-6 text-center text-slate-500" colSpan={4}>
+                          No matches yet.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { formatDate } from '@/lib/format'
+import type { TrashItem } from '@/lib/types'
+import { Button, Card, CardContent, CardHeader, Pill } from '../components'
+import { api } from '../api'
+import { useConsole, usePageData } from '../console'
+
+export function TrashRoute() {
+  const c = useConsole()
+  const items = usePageData(api.listTrash)
+  if (!items) return null
+  return (
+    <TrashPage
+      items={items}
+      onRestore={c.handleRestore}
+      onPurge={c.can('trash.purge') ? (item) => c.setPendingRemoval({ kind: 'purge', id: item.id, label: item.label }) : undefined}
+    />
+  )
+}
+
+function TrashPage({
+  items,
+  onRestore,
+  onPurge,
+}: {
+  items: TrashItem[]
+  onRestore: (item: TrashItem) => void
+  onPurge?: (item: TrashItem) => void
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="text-base font-semibold text-slate-900">Trash</div>
+        <div className="text-sm text-slate-500">
+          Deleted payments and staff. They are left out of totals, reports and exports until restored. Their audit history is kept either way.
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-hidden rounded-xl border border-slate-200">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Item</th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Reason</th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">Deleted</th>
+                <th className="px-3 py-2 text-right font-semibold text-slate-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => (
+                <tr key={item.id} className="border-t border-slate-200">
+                  <td className="px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      <Pill>{item.entityType}</Pill>
+                      <span className="text-slate-900">{item.label}</span>
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-slate-700">{item.reason}</td>
+                  <td className="px-3 py-2 text-slate-500">
+                    <div>{formatDate(item.deletedAt)}</div>
+                    <div className="text-xs">by {item.deletedBy}</div>
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => onRestore(item)}>
+                        Restore
+                      </Button>
+                      {onPurge && (
+                        <Button variant="danger" size="sm" onClick={() => onPurge(item)}>
+                          Delete permanently
+                        </Button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {items.length === 0 && (
+                <tr>
+                  <td className="px-3 py-6 text-center text-slate-500" colSpan={4}>
+                    The trash is empty.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
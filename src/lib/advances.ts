@@ -0,0 +1,100 @@
+import { shiftMonth } from './compensation'
+import { isPaid } from './payments'
+import type { Advance, AdvanceKind, Currency, PayLine, Payment } from './types'
+
+// ---------------------------
+// Advances and loans (client + server)
+// ---------------------------
+//
+// An advance is repaid through deduction lines on later Salary payments. Each line
+// names the advance it repays, so the balance is worked out from the payments on
+// record and trashing a payment puts its repayment back on the balance.
+
+export const ADVANCE_KIND_LABELS: Record<AdvanceKind, string> = {
+  advance: 'Salary advance',
+  loan: 'Loan',
+}
+
+export type AdvanceBalance = {
+  repaid: number // by payments already sent
+  pending: number // on payments still in the workflow
+  outstanding: number // principal - repaid
+  remaining: Array<{ month: string; amount: number }> // the schedule still to be deducted, from the next month due
+}
+
+function cents(n: number) {
+  return Math.round(n * 100)
+}
+
+/** Cents deducted for the advance across `payments`, skipping `excludePaymentId` (the payment being edited). */
+function deductedCents(advanceId: string, payments: Payment[], excludePaymentId?: string) {
+  let total = 0
+  for (const p of payments) {
+    if (p.id === excludePaymentId) continue
+    for (const line of p.lines) if (line.kind === 'deduction' && line.advanceId === advanceId) total += cents(line.amount)
+  }
+  return total
+}
+
+/** The full repayment plan in cents: one installment a month, the last taking the remainder. */
+function scheduleCents(advance: Advance) {
+  const principal = cents(advance.principal)
+  const installment = Math.max(cents(advance.installment), 1)
+  const schedule: Array<{ month: string; amount: number }> = []
+  for (let taken = 0; taken < principal; taken += installment) {
+    schedule.push({ month: shiftMonth(advance.firstRepaymentMonth, schedule.length), amount: Math.min(installment, principal - taken) })
+  }
+  return schedule
+}
+
+export function repaymentLabel(advance: Advance) {
+  return `${ADVANCE_KIND_LABELS[advance.kind]} repayment (issued ${advance.issuedOn})`
+}
+
+export function advanceBalance(advance: Advance, payments: Payment[]): AdvanceBalance {
+  const sent = payments.filter(isPaid)
+  const repaid = deductedCents(advance.id, sent)
+  const pending = deductedCents(advance.id, payments) - repaid
+  // Whatever is already deducted covers the earliest installments first.
+  let covered = repaid + pending
+  const remaining: AdvanceBalance['remaining'] = []
+  for (const due of scheduleCents(advance)) {
+    const left = due.amount - Math.min(covered, due.amount)
+    covered = Math.max(covered - due.amount, 0)
+    if (left > 0) remaining.push({ month: due.month, amount: left / 100 })
+  }
+  return {
+    repaid: repaid / 100,
+    pending: pending / 100,
+    outstanding: (cents(advance.principal) - repaid) / 100,
+    remaining,
+  }
+}
+
+/**
+ * Deduction lines to add to a Salary payment for `monthEarned`: what the staff member's
+ * advances in the payment's currency have scheduled up to that month, less what other
+ * payments already deduct. A skipped month is caught up on the next payment.
+ */
+export function repaymentsDue(
+  advances: Advance[],
+  payments: Payment[],
+  target: { staffId: string; monthEarned: string; currency: Currency; excludePaymentId?: string }
+): PayLine[] {
+  const lines: PayLine[] = []
+  for (const advance of advances) {
+    if (advance.staffId !== target.staffId || advance.currency !== target.currency) continue
+    if (target.monthEarned < advance.firstRepaymentMonth) continue
+    const scheduled = scheduleCents(advance)
+      .filter((due) => due.month <= target.monthEarned)
+      .reduce((total, due) => total + due.amount, 0)
+    const due = scheduled - deductedCents(advance.id, payments, target.excludePaymentId)
+    if (due > 0) lines.push({ kind: 'deduction', label: repaymentLabel(advance), amount: due / 100, advanceId: advance.id })
+  }
+  return lines
+}
+
+/** What every payment but `excludePaymentId` deducts for the advance, sent or not. */
+export function amountDeducted(advanceId: string, payments: Payment[], excludePaymentId?: string) {
+  return deductedCents(advanceId, payments, excludePaymentId) / 100
+}
@@ -0,0 +1,82 @@
+import { formatMoney } from './format'
+import type { AnomalyKind, Payment, PaymentAnomaly } from './types'
+
+// ---------------------------
+// Duplicate and anomaly checks (client + server)
+// ---------------------------
+//
+// The payment form runs these against the ledger it holds so the warnings show
+// before saving; the server runs them again against the stored ledger and refuses
+// the payment unless every hit was overridden, then audits the override.
+
+export const ANOMALY_LABELS: Record<AnomalyKind, string> = {
+  duplicate_reference: 'Duplicate reference ID',
+  repeat_period: 'Already paid for this month',
+  unusual_amount: 'Unusual amount',
+}
+
+// An amount this many times above (or below) the staff member's median counts as unusual.
+const OUTLIER_FACTOR = 3
+// Fewer earlier payments than this is not enough history to call anything unusual.
+const MIN_HISTORY = 3
+
+export type AnomalyCandidate = Pick<Payment, 'staffId' | 'monthEarned' | 'category' | 'amount' | 'currency'> & {
+  id?: string
+  referenceId?: string
+}
+
+function normalizeReference(ref: string | undefined) {
+  return (ref || '').trim().toLowerCase()
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Compares `candidate` with every other payment in `ledger` (matched by id, so an
+ * edited payment is never compared with itself). Ledger entries without a payment
+ * id, such as earlier rows of an import file, are named by their `id` label.
+ */
+export function detectAnomalies(candidate: AnomalyCandidate, ledger: Array<AnomalyCandidate & { id: string }>): PaymentAnomaly[] {
+  const others = ledger.filter((p) => p.id !== candidate.id)
+  const anomalies: PaymentAnomaly[] = []
+
+  const ref = normalizeReference(candidate.referenceId)
+  const sameRef = ref ? others.filter((p) => normalizeReference(p.referenceId) === ref) : []
+  if (sameRef.length) {
+    anomalies.push({
+      kind: 'duplicate_reference',
+      message: `Reference ID ${candidate.referenceId?.trim()} is already recorded (${sameRef.map((p) => p.id).join(', ')}).`,
+      matches: sameRef.map((p) => p.id),
+    })
+  }
+
+  const samePeriod = others.filter(
+    (p) => p.staffId === candidate.staffId && p.monthEarned === candidate.monthEarned && p.category === candidate.category
+  )
+  if (samePeriod.length) {
+    anomalies.push({
+      kind: 'repeat_period',
+      message: `This staff member already has a ${candidate.category} payment for ${candidate.monthEarned} (${samePeriod.map((p) => p.id).join(', ')}).`,
+      matches: samePeriod.map((p) => p.id),
+    })
+  }
+
+  // Only payments in the same category and currency are compared, so no FX rate is involved.
+  const history = others.filter((p) => p.staffId === candidate.staffId && p.category === candidate.category && p.currency === candidate.currency)
+  if (history.length >= MIN_HISTORY) {
+    const usual = median(history.map((p) => p.amount))
+    if (usual > 0 && (candidate.amount > usual * OUTLIER_FACTOR || candidate.amount < usual / OUTLIER_FACTOR)) {
+      anomalies.push({
+        kind: 'unusual_amount',
+        message: `${formatMoney(candidate.amount, candidate.currency)} is far from this staff member's usual ${candidate.category} payment (median ${formatMoney(usual, candidate.currency)} over ${history.length} payments).`,
+        matches: [],
+      })
+    }
+  }
+
+  return anomalies
+}
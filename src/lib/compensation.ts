@@ -0,0 +1,113 @@
+import { convertAmount, roundMoney } from './fx'
+import { payBreakdown } from './pay-lines'
+import { isPaid } from './payments'
+import type { CompensationEntry, Currency, FxRate, PayFrequency, Payment, Staff } from './types'
+import { MONTH_PATTERN } from './validation'
+
+// ---------------------------
+// Compensation profiles and expected-vs-paid reconciliation (client + server)
+// ---------------------------
+
+const PERIODS_PER_YEAR: Record<PayFrequency, number> = { monthly: 12, biweekly: 26, weekly: 52 }
+
+/** The entry in force for `month` (YYYY-MM), or null before the first one. */
+export function compensationFor(staff: Staff, month: string): CompensationEntry | null {
+  let current: CompensationEntry | null = null
+  for (const entry of staff.compensation ?? []) {
+    if (entry.effectiveFrom <= month) current = entry
+  }
+  return current
+}
+
+/** Monthly equivalent of a profile: biweekly and weekly pay are spread evenly over the year. */
+export function expectedMonthlySalary(entry: CompensationEntry) {
+  return roundMoney((entry.baseSalary * PERIODS_PER_YEAR[entry.frequency]) / 12)
+}
+
+/** `month` (YYYY-MM) moved by `delta` months. */
+export function shiftMonth(month: string, delta: number) {
+  const [y, m] = month.split('-').map(Number)
+  const d = new Date(Date.UTC(y, m - 1 + delta, 1))
+  return d.toISOString().slice(0, 7)
+}
+
+/** Consecutive YYYY-MM values from `from` to `to`, inclusive; empty unless both are valid months. */
+export function monthRange(from: string, to: string): string[] {
+  const months: string[] = []
+  if (!MONTH_PATTERN.test(from) || !MONTH_PATTERN.test(to)) return months
+  let [y, m] = from.split('-').map(Number)
+  const [endY, endM] = to.split('-').map(Number)
+  while (y < endY || (y === endY && m <= endM)) {
+    months.push(`${y}-${String(m).padStart(2, '0')}`)
+    m += 1
+    if (m > 12) {
+      m = 1
+      y += 1
+    }
+  }
+  return months
+}
+
+export type ReconciliationStatus = 'paid' | 'underpaid' | 'overpaid' | 'missing' | 'unconverted'
+
+export type ReconciliationRow = {
+  staffId: string
+  month: string
+  currency: Currency // the profile currency; paid amounts are converted into it
+  expected: number
+  paid: number // gross, before deductions
+  difference: number // paid - expected
+  paymentIds: string[]
+  status: ReconciliationStatus
+}
+
+/**
+ * Compares each staff member's expected monthly salary with the gross of the Salary
+ * payments sent for that month (drafts and payments still in approval don't count yet),
+ * so deductions such as advance repayments don't read as underpayment. Payments in
+ * another currency are converted at the rate on their send date, so a small tolerance
+ * absorbs rounding. Inactive staff are only expected up to the last month they were
+ * paid a salary, and nobody is expected before their hire month or after their
+ * termination month.
+ */
+export function reconcileSalaries(staff: Staff[], payments: Payment[], fxRates: FxRate[], months: string[]): ReconciliationRow[] {
+  const rows: ReconciliationRow[] = []
+  for (const s of staff) {
+    const salaries = payments.filter((p) => p.staffId === s.id && p.category === 'Salary' && isPaid(p))
+    const lastPaidMonth = salaries.reduce((max, p) => (p.monthEarned > max ? p.monthEarned : max), '')
+
+    for (const month of months) {
+      const entry = compensationFor(s, month)
+      if (!entry) continue
+      if (s.status === 'inactive' && month > lastPaidMonth) continue
+      if (s.hireDate && month < s.hireDate.slice(0, 7)) continue
+      if (s.terminationDate && month > s.terminationDate.slice(0, 7)) continue
+
+      const expected = expectedMonthlySalary(entry)
+      const logged = salaries.filter((p) => p.monthEarned === month)
+      let paid = 0
+      let unconverted = false
+      for (const p of logged) {
+        const v = convertAmount(fxRates, payBreakdown(p.lines).gross, p.currency, entry.currency, p.dateSent.slice(0, 10))
+        if (v === null) unconverted = true
+        else paid += v
+      }
+      paid = roundMoney(paid)
+
+      const tolerance = logged.every((p) => p.currency === entry.currency) ? 0.01 : Math.max(0.01, expected * 0.005)
+      const difference = roundMoney(paid - expected)
+      const status: ReconciliationStatus = unconverted
+        ? 'unconverted'
+        : logged.length === 0
+          ? 'missing'
+          : difference < -tolerance
+            ? 'underpaid'
+            : difference > tolerance
+              ? 'overpaid'
+              : 'paid'
+
+      rows.push({ staffId: s.id, month, currency: entry.currency, expected, paid, difference, paymentIds: logged.map((p) => p.id), status })
+    }
+  }
+  return rows
+}
@@ -0,0 +1,69 @@
+import { monthRange, shiftMonth } from './compensation'
+import { roundMoney } from './fx'
+import { payBreakdown } from './pay-lines'
+import type { Currency, EarningsBasis, EarningsMonth, EarningsSection, Payment } from './types'
+
+// ---------------------------
+// Year-end earnings statements (client + server)
+// ---------------------------
+//
+// Payments count towards the month they were earned, not the month they were sent.
+// Reimbursements are repaid expenses, so they are totalled beside earnings rather
+// than inside them. Category columns hold gross pay; deductions are totalled on their
+// own so every row reconciles: earnings + reimbursements - deductions = net sent.
+
+/** First and last month of `year` (a fiscal year is named after the calendar year it starts in). */
+export function statementPeriod(year: number, basis: EarningsBasis, fiscalYearStartMonth: number) {
+  const startMonth = basis === 'fiscal' ? fiscalYearStartMonth : 1
+  const from = `${year}-${String(startMonth).padStart(2, '0')}`
+  const to = shiftMonth(from, 11)
+  const label = startMonth === 1 ? String(year) : `FY ${year}/${String((year + 1) % 100).padStart(2, '0')}`
+  return { from, to, label }
+}
+
+function emptyTotals(): Omit<EarningsMonth, 'month'> {
+  return { salary: 0, bonus: 0, other: 0, earnings: 0, reimbursements: 0, deductions: 0, net: 0 }
+}
+
+function addPayment(row: Omit<EarningsMonth, 'month'>, p: Payment) {
+  const { gross, deductions } = payBreakdown(p.lines)
+  if (p.category === 'Salary') row.salary += gross
+  else if (p.category === 'Bonus') row.bonus += gross
+  else if (p.category === 'Other') row.other += gross
+  else row.reimbursements += gross
+  if (p.category !== 'Reimbursement') row.earnings += gross
+  row.deductions += deductions
+  row.net += p.amount
+}
+
+function rounded<T extends Omit<EarningsMonth, 'month'>>(row: T): T {
+  return {
+    ...row,
+    salary: roundMoney(row.salary),
+    bonus: roundMoney(row.bonus),
+    other: roundMoney(row.other),
+    earnings: roundMoney(row.earnings),
+    reimbursements: roundMoney(row.reimbursements),
+    deductions: roundMoney(row.deductions),
+    net: roundMoney(row.net),
+  }
+}
+
+/** Month-by-month category totals for one staff member's payments between `from` and `to`, one section per send currency. */
+export function buildEarningsSections(payments: Payment[], from: string, to: string): EarningsSection[] {
+  const months = monthRange(from, to)
+  const inPeriod = payments.filter((p) => p.monthEarned >= from && p.monthEarned <= to)
+  const currencies = [...new Set(inPeriod.map((p) => p.currency))].sort() as Currency[]
+
+  return currencies.map((currency) => {
+    const byMonth = new Map(months.map((month) => [month, { month, ...emptyTotals() }]))
+    const totals = emptyTotals()
+    for (const p of inPeriod) {
+      const row = byMonth.get(p.monthEarned)
+      if (p.currency !== currency || !row) continue
+      addPayment(row, p)
+      addPayment(totals, p)
+    }
+    return { currency, months: [...byMonth.values()].map(rounded), totals: rounded(totals) }
+  })
+}
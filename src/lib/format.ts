@@ -0,0 +1,35 @@
+// ---------------------------
+// Formatting helpers (client + server)
+// ---------------------------
+
+export function formatMoney(amount: number, currency: string) {
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 2,
+  }).format(amount)
+}
+
+export function formatDate(iso: string) {
+  const d = new Date(iso)
+  return d.toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+export function monthLabel(yyyyMm: string) {
+  const [y, m] = yyyyMm.split('-').map(Number)
+  if (!y || !m) return yyyyMm
+  const d = new Date(Date.UTC(y, m - 1, 1))
+  return d.toLocaleString(undefined, { month: 'long', year: 'numeric' })
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
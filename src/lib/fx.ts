@@ -0,0 +1,55 @@
+import type { Currency, FxRate } from './types'
+
+// ---------------------------
+// FX lookups against the local rate table (client + server)
+// ---------------------------
+
+export type RateQuote = { rate: number; date: string }
+
+export function roundMoney(n: number) {
+  return Math.round(n * 100) / 100
+}
+
+// Inverse and cross rates are derived, so keep them to a readable precision.
+function roundRate(n: number) {
+  return Number(n.toPrecision(8))
+}
+
+/** Latest row for the exact pair dated on or before `onDate` (YYYY-MM-DD). */
+function latestDirect(rates: FxRate[], base: Currency, quote: Currency, onDate: string): RateQuote | null {
+  let best: FxRate | null = null
+  for (const r of rates) {
+    if (r.base !== base || r.quote !== quote || r.date > onDate) continue
+    if (!best || r.date > best.date) best = r
+  }
+  return best ? { rate: best.rate, date: best.date } : null
+}
+
+function latestEitherWay(rates: FxRate[], from: Currency, to: Currency, onDate: string): RateQuote | null {
+  const direct = latestDirect(rates, from, to, onDate)
+  const inverse = latestDirect(rates, to, from, onDate)
+  if (direct && (!inverse || direct.date >= inverse.date)) return direct
+  return inverse ? { rate: roundRate(1 / inverse.rate), date: inverse.date } : null
+}
+
+/**
+ * Rate to turn 1 `from` into `to` as of `onDate`. Uses the pair in either
+ * direction, else crosses through USD. `date` is the oldest row involved.
+ */
+export function findRate(rates: FxRate[], from: Currency, to: Currency, onDate: string): RateQuote | null {
+  if (from === to) return { rate: 1, date: onDate }
+  const pair = latestEitherWay(rates, from, to, onDate)
+  if (pair) return pair
+  if (from === 'USD' || to === 'USD') return null
+
+  const leg1 = latestEitherWay(rates, from, 'USD', onDate)
+  const leg2 = latestEitherWay(rates, 'USD', to, onDate)
+  if (!leg1 || !leg2) return null
+  return { rate: roundRate(leg1.rate * leg2.rate), date: leg1.date < leg2.date ? leg1.date : leg2.date }
+}
+
+/** Converts using the rate in effect on `onDate`; null when the table has no usable rate. */
+export function convertAmount(rates: FxRate[], amount: number, from: Currency, to: Currency, onDate: string): number | null {
+  const quote = findRate(rates, from, to, onDate)
+  return quote ? roundMoney(amount * quote.rate) : null
+}
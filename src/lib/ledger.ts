@@ -0,0 +1,179 @@
+import { paymentMatchesQuery } from './payments'
+import {
+  PAYMENT_CATEGORIES,
+  PAYMENT_METHODS,
+  PAYMENT_STATUSES,
+  type Payment,
+  type PaymentCategory,
+  type PaymentMethod,
+  type ReceiptStatus,
+} from './types'
+import { DAY_PATTERN, MONTH_PATTERN } from './validation'
+
+// ---------------------------
+// Ledger filters, sorting and paging (client + server)
+// ---------------------------
+//
+// The ledger keeps its view in the URL query string, so a filtered view can be
+// bookmarked or shared. The CSV export sends the same string and the server applies
+// the same filters and order, so the file holds every page of what the ledger shows.
+
+export const LEDGER_SORT_KEYS = ['staff', 'monthEarned', 'dateSent', 'amount', 'method', 'category', 'receipt', 'status'] as const
+
+export type LedgerSortKey = (typeof LEDGER_SORT_KEYS)[number]
+
+export type SortDirection = 'asc' | 'desc'
+
+export const RECEIPT_STATUSES = ['attached', 'missing'] as const satisfies ReadonlyArray<ReceiptStatus>
+
+export type LedgerFilters = {
+  q: string
+  staffId: string
+  method: PaymentMethod | ''
+  category: PaymentCategory | ''
+  receipt: ReceiptStatus | ''
+  sentFrom: string // YYYY-MM-DD, inclusive
+  sentTo: string
+  monthFrom: string // YYYY-MM, inclusive
+  monthTo: string
+  minAmount: string // in the base currency
+  maxAmount: string
+  sort: LedgerSortKey
+  dir: SortDirection
+  page: number
+}
+
+export const DEFAULT_LEDGER_FILTERS: LedgerFilters = {
+  q: '',
+  staffId: '',
+  method: '',
+  category: '',
+  receipt: '',
+  sentFrom: '',
+  sentTo: '',
+  monthFrom: '',
+  monthTo: '',
+  minAmount: '',
+  maxAmount: '',
+  sort: 'dateSent',
+  dir: 'desc',
+  page: 1,
+}
+
+export const LEDGER_PAGE_SIZE = 25
+
+// Dates, months and amounts read best newest or largest first; names and labels A–Z.
+export const DEFAULT_SORT_DIRECTION: Record<LedgerSortKey, SortDirection> = {
+  staff: 'asc',
+  monthEarned: 'desc',
+  dateSent: 'desc',
+  amount: 'desc',
+  method: 'asc',
+  category: 'asc',
+  receipt: 'asc',
+  status: 'asc',
+}
+
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/
+
+/** Reads filters from a query string, dropping anything malformed rather than failing. */
+export function parseLedgerFilters(params: Pick<URLSearchParams, 'get'>): LedgerFilters {
+  const text = (key: keyof LedgerFilters) => params.get(key)?.trim() ?? ''
+  const oneOf = <T extends string>(values: readonly T[], key: keyof LedgerFilters) =>
+    values.includes(text(key) as T) ? (text(key) as T) : ''
+  const matching = (pattern: RegExp, key: keyof LedgerFilters) => (pattern.test(text(key)) ? text(key) : '')
+  const page = Number(text('page'))
+
+  return {
+    q: text('q'),
+    staffId: text('staffId'),
+    method: oneOf(PAYMENT_METHODS, 'method'),
+    category: oneOf(PAYMENT_CATEGORIES, 'category'),
+    receipt: oneOf(RECEIPT_STATUSES, 'receipt'),
+    sentFrom: matching(DAY_PATTERN, 'sentFrom'),
+    sentTo: matching(DAY_PATTERN, 'sentTo'),
+    monthFrom: matching(MONTH_PATTERN, 'monthFrom'),
+    monthTo: matching(MONTH_PATTERN, 'monthTo'),
+    minAmount: matching(AMOUNT_PATTERN, 'minAmount'),
+    maxAmount: matching(AMOUNT_PATTERN, 'maxAmount'),
+    sort: oneOf(LEDGER_SORT_KEYS, 'sort') || DEFAULT_LEDGER_FILTERS.sort,
+    dir: oneOf(['asc', 'desc'], 'dir') || DEFAULT_LEDGER_FILTERS.dir,
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  }
+}
+
+/** The query string for a view, leaving out everything at its default so URLs stay short. */
+export function ledgerSearchParams(filters: LedgerFilters) {
+  const params = new URLSearchParams()
+  for (const key of Object.keys(DEFAULT_LEDGER_FILTERS) as Array<keyof LedgerFilters>) {
+    if (filters[key] !== DEFAULT_LEDGER_FILTERS[key]) params.set(key, String(filters[key]))
+  }
+  return params
+}
+
+/** How many filters (beyond the search box) are narrowing the list. */
+export function activeFilterCount(filters: LedgerFilters) {
+  const keys = ['staffId', 'method', 'category', 'receipt', 'sentFrom', 'sentTo', 'monthFrom', 'monthTo', 'minAmount', 'maxAmount'] as const
+  return keys.filter((key) => filters[key] !== '').length
+}
+
+export type LedgerContext = {
+  staffName: (staffId: string) => string
+  /** The payment's amount in the base currency, or null when no rate is on file. */
+  toBase: (p: Payment) => number | null
+}
+
+function sortValue(p: Payment, key: LedgerSortKey, ctx: LedgerContext): string | number | null {
+  switch (key) {
+    case 'staff':
+      return ctx.staffName(p.staffId).toLowerCase()
+    case 'amount':
+      return ctx.toBase(p)
+    case 'receipt':
+      return p.receiptStatus
+    case 'status':
+      return PAYMENT_STATUSES.indexOf(p.status)
+    default:
+      return p[key]
+  }
+}
+
+/**
+ * Every payment matching the filters, in the requested order (ties newest sent first).
+ * An amount range compares base-currency values, so payments with no rate on file
+ * drop out while one is set.
+ */
+export function filterLedger(payments: Payment[], filters: LedgerFilters, ctx: LedgerContext): Payment[] {
+  const min = filters.minAmount ? Number(filters.minAmount) : null
+  const max = filters.maxAmount ? Number(filters.maxAmount) : null
+
+  const rows = payments.filter((p) => {
+    const sentOn = p.dateSent.slice(0, 10)
+    if (filters.staffId && p.staffId !== filters.staffId) return false
+    if (filters.method && p.method !== filters.method) return false
+    if (filters.category && p.category !== filters.category) return false
+    if (filters.receipt && p.receiptStatus !== filters.receipt) return false
+    if (filters.sentFrom && sentOn < filters.sentFrom) return false
+    if (filters.sentTo && sentOn > filters.sentTo) return false
+    if (filters.monthFrom && p.monthEarned < filters.monthFrom) return false
+    if (filters.monthTo && p.monthEarned > filters.monthTo) return false
+    if (min !== null || max !== null) {
+      const amount = ctx.toBase(p)
+      if (amount === null || (min !== null && amount < min) || (max !== null && amount > max)) return false
+    }
+    return paymentMatchesQuery(p, ctx.staffName(p.staffId), filters.q)
+  })
+
+  const sign = filters.dir === 'asc' ? 1 : -1
+  return rows.sort((a, b) => {
+    const x = sortValue(a, filters.sort, ctx)
+    const y = sortValue(b, filters.sort, ctx)
+    // Missing values (an amount with no rate) always sort last.
+    if (x !== y) {
+      if (x === null) return 1
+      if (y === null) return -1
+      return (x < y ? -1 : 1) * sign
+    }
+    return b.dateSent.localeCompare(a.dateSent) || a.id.localeCompare(b.id)
+  })
+}
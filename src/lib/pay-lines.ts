@@ -0,0 +1,81 @@
+import { PAY_LINE_KINDS, type PayLine, type PayLineKind, type PaymentCategory } from './types'
+
+// ---------------------------
+// Gross-to-net pay lines (client + server)
+// ---------------------------
+//
+// Totals are summed in whole cents so gross less deductions always equals net
+// exactly, on screen, in exports and on payslips.
+
+export const PAY_LINE_LABELS: Record<PayLineKind, string> = {
+  earning: 'Earning',
+  allowance: 'Allowance',
+  deduction: 'Deduction',
+  fee: 'Employer-paid fee',
+}
+
+export type PayBreakdown = {
+  earnings: number
+  allowances: number
+  gross: number // earnings + allowances
+  deductions: number
+  net: number // gross - deductions, the amount sent
+  fees: number // paid by the employer on top of net
+  employerCost: number // net + fees
+}
+
+function cents(n: number) {
+  return Math.round(n * 100)
+}
+
+export function payBreakdown(lines: PayLine[]): PayBreakdown {
+  const sum = (kind: PayLineKind) => lines.filter((l) => l.kind === kind).reduce((total, l) => total + cents(l.amount), 0)
+  const earnings = sum('earning')
+  const allowances = sum('allowance')
+  const deductions = sum('deduction')
+  const fees = sum('fee')
+  const gross = earnings + allowances
+  return {
+    earnings: earnings / 100,
+    allowances: allowances / 100,
+    gross: gross / 100,
+    deductions: deductions / 100,
+    net: (gross - deductions) / 100,
+    fees: fees / 100,
+    employerCost: (gross - deductions + fees) / 100,
+  }
+}
+
+/** The lines of a payment entered as one amount. */
+export function singleLine(category: PaymentCategory, amount: number): PayLine[] {
+  return [{ kind: 'earning', label: category, amount }]
+}
+
+/** Whether a payment has more to show than its amount: several lines, or anything but one earning. */
+export function isItemised(lines: PayLine[]) {
+  return lines.length > 1 || lines.some((l) => l.kind !== 'earning')
+}
+
+/** Lines in display order: earnings, allowances, deductions, then fees. */
+export function sortedLines(lines: PayLine[]) {
+  return [...lines].sort((a, b) => PAY_LINE_KINDS.indexOf(a.kind) - PAY_LINE_KINDS.indexOf(b.kind))
+}
+
+/** One line of text for a CSV cell or audit note, e.g. "Earning: Base salary 1200; Deduction: Advance 50". */
+export function describeLines(lines: PayLine[]) {
+  return sortedLines(lines)
+    .map((l) => `${PAY_LINE_LABELS[l.kind]}: ${l.label} ${l.amount}`)
+    .join('; ')
+}
+
+/** Reads `describeLines` text back into lines, as the CSV import does; null if any part does not parse. */
+export function parseLines(text: string): PayLine[] | null {
+  const lines: PayLine[] = []
+  for (const part of text.split(';')) {
+    const match = /^([^:]+):\s*(.+?)\s+(\d+(?:\.\d+)?)$/.exec(part.trim())
+    const kind = match && PAY_LINE_KINDS.find((k) => PAY_LINE_LABELS[k].toLowerCase() === match[1].trim().toLowerCase())
+    if (!match || !kind) return null
+    lines.push({ kind, label: match[2], amount: Number(match[3]) })
+  }
+  return lines
+}
@@ -0,0 +1,67 @@
+import type { Payment, PaymentStatus, Permission } from './types'
+
+// ---------------------------
+// Payment helpers shared by the ledger UI and the server
+// ---------------------------
+
+/** Free-text match used by the ledger search box. */
+export function paymentMatchesQuery(p: Payment, staffName: string, query: string) {
+  const q = query.trim().toLowerCase()
+  if (!q) return true
+  return (
+    p.id.toLowerCase().includes(q) ||
+    p.monthEarned.toLowerCase().includes(q) ||
+    p.method.toLowerCase().includes(q) ||
+    p.category.toLowerCase().includes(q) ||
+    (p.referenceId || '').toLowerCase().includes(q) ||
+    (p.notes || '').toLowerCase().includes(q) ||
+    staffName.toLowerCase().includes(q)
+  )
+}
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  draft: 'Draft',
+  pending_approval: 'Pending approval',
+  approved: 'Approved',
+  sent: 'Sent',
+  reconciled: 'Reconciled',
+}
+
+/** Money has left the account. Only these payments reach employees, payslips and statements. */
+export function isPaid(p: Payment) {
+  return p.status === 'sent' || p.status === 'reconciled'
+}
+
+export type PaymentTransition = {
+  label: string // button label
+  verb: string // past tense, for the audit summary
+  permission: Permission
+  needsNote?: boolean
+}
+
+// The steps a payment may take from each status, and the permission each needs.
+// The server enforces this table; the ledger uses it to decide which buttons to show.
+export const PAYMENT_TRANSITIONS: Record<PaymentStatus, Partial<Record<PaymentStatus, PaymentTransition>>> = {
+  draft: {
+    pending_approval: { label: 'Submit', verb: 'Submitted for approval', permission: 'payments.edit' },
+  },
+  pending_approval: {
+    approved: { label: 'Approve', verb: 'Approved', permission: 'payments.approve' },
+    draft: { label: 'Return', verb: 'Returned to draft', permission: 'payments.approve', needsNote: true },
+  },
+  approved: {
+    sent: { label: 'Mark sent', verb: 'Marked as sent', permission: 'payments.edit' },
+    draft: { label: 'Return', verb: 'Returned to draft', permission: 'payments.approve', needsNote: true },
+  },
+  sent: {
+    reconciled: { label: 'Reconcile', verb: 'Reconciled', permission: 'payments.edit' },
+  },
+  reconciled: {},
+}
+
+/** Transitions open to someone holding `permissions` from the payment's current status. */
+export function allowedTransitions(p: Payment, permissions: Permission[]) {
+  return (Object.entries(PAYMENT_TRANSITIONS[p.status]) as Array<[PaymentStatus, PaymentTransition]>)
+    .filter(([, t]) => permissions.includes(t.permission))
+    .map(([to, t]) => ({ to, ...t }))
+}
@@ -0,0 +1,52 @@
+import { PERMISSIONS, type Permission, type Role, type RolePermissions } from './types'
+
+// ---------------------------
+// Roles and permissions (client + server)
+// ---------------------------
+//
+// The server checks permissions on every request; the UI reads the same list from
+// the session to decide which pages and buttons to show. Admins can change what the
+// other roles may do from the Roles page. The admin row is fixed, so there is always
+// someone who can undo a bad change.
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  accountant: 'Accountant',
+  hr: 'HR',
+  approver: 'Approver',
+  viewer: 'Viewer',
+  employee: 'Employee',
+}
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'payments.view': 'View the ledger and amounts',
+  'payments.edit': 'Create, edit and send payments',
+  'payments.approve': 'Approve payments',
+  'staff.view': 'View staff',
+  'staff.edit': 'Add, edit and remove staff',
+  'staff.pay': 'Edit compensation',
+  'users.manage': 'Manage logins and roles',
+  'audit.view': 'View the audit log',
+  exports: 'Export CSV and PDF files',
+  'settings.edit': 'Change settings and FX rates',
+  'trash.purge': 'Permanently delete from the trash',
+}
+
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissions = {
+  admin: [...PERMISSIONS],
+  accountant: ['payments.view', 'staff.view', 'audit.view', 'exports'],
+  hr: ['staff.view', 'staff.edit'],
+  approver: ['payments.view', 'payments.approve', 'staff.view'],
+  viewer: ['payments.view', 'staff.view'],
+  employee: [],
+}
+
+/** The permissions a role holds under the given matrix. Admins always hold all of them. */
+export function permissionsFor(matrix: RolePermissions, role: Role): Permission[] {
+  if (role === 'admin') return [...PERMISSIONS]
+  return PERMISSIONS.filter((p) => (matrix[role] ?? DEFAULT_ROLE_PERMISSIONS[role]).includes(p))
+}
+
+export function hasPermission(user: { permissions: Permission[] }, ...required: Permission[]) {
+  return required.every((p) => user.permissions.includes(p))
+}
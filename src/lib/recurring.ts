@@ -0,0 +1,83 @@
+import { shiftMonth } from './compensation'
+import type { Payment, PaymentTemplate, RecurrenceFrequency } from './types'
+
+// ---------------------------
+// Recurring payment schedules (client + server)
+// ---------------------------
+//
+// Dates are plain YYYY-MM-DD strings worked out in UTC, so the dashboard and the
+// server agree on what is due whatever the browser's time zone.
+
+export const RECURRENCE_LABELS: Record<RecurrenceFrequency, string> = {
+  monthly: 'Monthly',
+  biweekly: 'Every two weeks',
+}
+
+export type DueOccurrence = {
+  template: PaymentTemplate
+  date: string // YYYY-MM-DD the payment was scheduled for
+  monthEarned: string
+}
+
+function addDays(day: string, days: number) {
+  const d = new Date(`${day}T00:00:00.000Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+/** `dayOfMonth` in `month` (YYYY-MM), moved to the last day when the month is shorter. */
+function dayIn(month: string, dayOfMonth: number) {
+  const [y, m] = month.split('-').map(Number)
+  const last = new Date(Date.UTC(y, m, 0)).getUTCDate()
+  return `${month}-${String(Math.min(dayOfMonth, last)).padStart(2, '0')}`
+}
+
+/** Every scheduled date from the start date through `through` (inclusive), ignoring skips and confirmations. */
+export function occurrences(template: PaymentTemplate, through: string): string[] {
+  const last = template.endDate && template.endDate < through ? template.endDate : through
+  const dates: string[] = []
+  if (template.frequency === 'biweekly') {
+    for (let day = template.startDate; day <= last; day = addDays(day, 14)) dates.push(day)
+    return dates
+  }
+  const dayOfMonth = template.dayOfMonth ?? Number(template.startDate.slice(8, 10))
+  for (let month = template.startDate.slice(0, 7); `${month}-01` <= last; month = shiftMonth(month, 1)) {
+    const day = dayIn(month, dayOfMonth)
+    if (day >= template.startDate && day <= last) dates.push(day)
+  }
+  return dates
+}
+
+/** The first scheduled date after `after`, or null once the schedule has ended. */
+export function nextOccurrence(template: PaymentTemplate, after: string): string | null {
+  return occurrences(template, addDays(after, 62)).find((day) => day > after) ?? null
+}
+
+export function monthEarnedFor(template: PaymentTemplate, date: string) {
+  return template.paysPreviousMonth ? shiftMonth(date.slice(0, 7), -1) : date.slice(0, 7)
+}
+
+/** e.g. "Monthly on day 25" or "Every two weeks from 2026-03-06", with the end date if there is one. */
+export function describeSchedule(template: PaymentTemplate) {
+  const schedule =
+    template.frequency === 'monthly'
+      ? `Monthly on day ${template.dayOfMonth ?? Number(template.startDate.slice(8, 10))}`
+      : `Every two weeks from ${template.startDate}`
+  return template.endDate ? `${schedule} until ${template.endDate}` : schedule
+}
+
+/**
+ * Occurrences up to `today` that were neither skipped nor confirmed, oldest first.
+ * A confirmed payment that is later deleted puts its occurrence back on the list.
+ */
+export function dueOccurrences(templates: PaymentTemplate[], payments: Payment[], today: string): DueOccurrence[] {
+  const confirmed = new Set(payments.flatMap((p) => (p.templateId ? [`${p.templateId}|${p.scheduledFor}`] : [])))
+  const due: DueOccurrence[] = []
+  for (const template of templates) {
+    for (const date of occurrences(template, today)) {
+      if (template.skippedDates.includes(date) || confirmed.has(`${template.id}|${date}`)) continue
+      due.push({ template, date, monthEarned: monthEarnedFor(template, date) })
+    }
+  }
+  return due.sort((a, b) => a.date.localeCompare(b.date) || a.template.id.localeCompare(b.template.id))
+}
@@ -0,0 +1,105 @@
+import { monthLabel } from './format'
+import { convertAmount, roundMoney } from './fx'
+import { isPaid } from './payments'
+import { PAYMENT_CATEGORIES, PAYMENT_METHODS, type Currency, type FxRate, type Payment, type Staff } from './types'
+
+// ---------------------------
+// Owner reports (client + server)
+// ---------------------------
+//
+// Totals over payments sent in a date range, grouped one way at a time. Amounts are
+// converted into the base currency with the rate on each payment's send date, like
+// the dashboard; payments with no usable rate are counted but left out of the totals.
+// Only money actually sent counts: drafts and payments still in approval are skipped.
+
+export const REPORT_DIMENSIONS = ['month', 'category', 'method', 'staff'] as const
+
+export type ReportDimension = (typeof REPORT_DIMENSIONS)[number]
+
+export const REPORT_DIMENSION_LABELS: Record<ReportDimension, string> = {
+  month: 'Month earned',
+  category: 'Category',
+  method: 'Method',
+  staff: 'Staff',
+}
+
+export type ReportRow = {
+  key: string // YYYY-MM, category, method or staff ID
+  label: string
+  count: number
+  total: number // in the report's base currency
+  unconverted: number // payments in this group with no rate to the base currency
+}
+
+export type Report = {
+  dimension: ReportDimension
+  from: string // YYYY-MM-DD, inclusive; '' for open-ended
+  to: string
+  baseCurrency: Currency
+  rows: ReportRow[]
+  count: number
+  total: number
+  unconverted: number
+}
+
+function groupKey(p: Payment, dimension: ReportDimension) {
+  if (dimension === 'month') return p.monthEarned
+  if (dimension === 'category') return p.category
+  if (dimension === 'method') return p.method
+  return p.staffId
+}
+
+function rowLabel(key: string, dimension: ReportDimension, staffNames: Map<string, string>) {
+  if (dimension === 'month') return monthLabel(key)
+  if (dimension === 'staff') return staffNames.get(key) || key
+  return key
+}
+
+/** Months sort chronologically, categories and methods in their declared order, staff by total (largest first). */
+function orderRows(rows: ReportRow[], dimension: ReportDimension) {
+  if (dimension === 'month') return rows.sort((a, b) => a.key.localeCompare(b.key))
+  if (dimension === 'category') return rows.sort((a, b) => PAYMENT_CATEGORIES.indexOf(a.key as never) - PAYMENT_CATEGORIES.indexOf(b.key as never))
+  if (dimension === 'method') return rows.sort((a, b) => PAYMENT_METHODS.indexOf(a.key as never) - PAYMENT_METHODS.indexOf(b.key as never))
+  return rows.sort((a, b) => b.total - a.total || a.label.localeCompare(b.label))
+}
+
+export function buildReport(
+  payments: Payment[],
+  staff: Staff[],
+  fxRates: FxRate[],
+  baseCurrency: Currency,
+  dimension: ReportDimension,
+  from: string,
+  to: string
+): Report {
+  const staffNames = new Map(staff.map((s) => [s.id, s.fullName]))
+  const groups = new Map<string, ReportRow>()
+  let count = 0
+  let total = 0
+  let unconverted = 0
+
+  for (const p of payments) {
+    if (!isPaid(p)) continue
+    const day = p.dateSent.slice(0, 10)
+    if ((from && day < from) || (to && day > to)) continue
+    const key = groupKey(p, dimension)
+    const row = groups.get(key) ?? { key, label: rowLabel(key, dimension, staffNames), count: 0, total: 0, unconverted: 0 }
+    const value = convertAmount(fxRates, p.amount, p.currency, baseCurrency, day)
+    row.count += 1
+    count += 1
+    if (value === null) {
+      row.unconverted += 1
+      unconverted += 1
+    } else {
+      row.total += value
+      total += value
+    }
+    groups.set(key, row)
+  }
+
+  const rows = orderRows(
+    [...groups.values()].map((r) => ({ ...r, total: roundMoney(r.total) })),
+    dimension
+  )
+  return { dimension, from, to, baseCurrency, rows, count, total: roundMoney(total), unconverted }
+}
@@ -0,0 +1,91 @@
+import { hasPermission } from './permissions'
+import type { SessionUser } from './types'
+
+// ---------------------------
+// Console pages (client + proxy)
+// ---------------------------
+//
+// Each page is an App Router route under src/app/(console). The proxy sends a session
+// that may not open a page to its home page, and the sidebar lists the same pages, so
+// both read the rules from here.
+
+export type Route =
+  | 'dashboard'
+  | 'staff'
+  | 'payments'
+  | 'audit'
+  | 'fx-rates'
+  | 'payroll'
+  | 'reports'
+  | 'reconciliation'
+  | 'statements'
+  | 'trash'
+  | 'approvals'
+  | 'roles'
+  | 'my-payments'
+
+export type RouteEntry = {
+  key: Route
+  path: string
+  label: string
+  icon: string
+  visible: (user: SessionUser) => boolean
+}
+
+// Sidebar entries in display order; each page is listed only for sessions holding what it needs.
+export const ROUTES: RouteEntry[] = [
+  { key: 'dashboard', path: '/dashboard', label: 'Dashboard', icon: '📊', visible: (u) => hasPermission(u, 'payments.view') },
+  { key: 'payments', path: '/payments', label: 'Payments', icon: '💸', visible: (u) => hasPermission(u, 'payments.view') },
+  { key: 'approvals', path: '/approvals', label: 'Approvals', icon: '✅', visible: (u) => hasPermission(u, 'payments.approve') },
+  { key: 'payroll', path: '/payroll', label: 'Payroll Runs', icon: '🗓️', visible: (u) => hasPermission(u, 'payments.edit') },
+  { key: 'reports', path: '/reports', label: 'Reports', icon: '📈', visible: (u) => hasPermission(u, 'payments.view') },
+  { key: 'staff', path: '/staff', label: 'Staff', icon: '👥', visible: (u) => hasPermission(u, 'staff.view') },
+  {
+    key: 'reconciliation',
+    path: '/reconciliation',
+    label: 'Reconciliation',
+    icon: '⚖️',
+    visible: (u) => hasPermission(u, 'payments.view', 'staff.view'),
+  },
+  { key: 'statements', path: '/statements', label: 'Statements', icon: '🏦', visible: (u) => hasPermission(u, 'payments.view') },
+  { key: 'fx-rates', path: '/fx-rates', label: 'FX Rates', icon: '💱', visible: (u) => hasPermission(u, 'payments.view') },
+  { key: 'audit', path: '/audit', label: 'Audit Log', icon: '🧾', visible: (u) => hasPermission(u, 'audit.view') },
+  {
+    key: 'trash',
+    path: '/trash',
+    label: 'Trash',
+    icon: '🗑️',
+    visible: (u) => hasPermission(u, 'payments.edit') || hasPermission(u, 'staff.edit'),
+  },
+  { key: 'roles', path: '/roles', label: 'Roles', icon: '🔑', visible: (u) => hasPermission(u, 'users.manage') },
+  // Anyone without the ledger sees their own pay here instead.
+  { key: 'my-payments', path: '/me/payments', label: 'My Payments', icon: '💼', visible: (u) => !hasPermission(u, 'payments.view') },
+]
+
+export function routesFor(user: SessionUser) {
+  return ROUTES.filter((r) => r.visible(user))
+}
+
+/** The page a path belongs to; detail pages such as /payments/:id fall under their list. Unknown paths give null. */
+export function routeForPath(pathname: string): RouteEntry | null {
+  return ROUTES.find((r) => pathname === r.path || pathname.startsWith(`${r.path}/`)) ?? null
+}
+
+/** Where a session lands after signing in, or when it opens a page it may not see. */
+export function homePathFor(user: SessionUser) {
+  return routesFor(user)[0]?.path ?? '/me/payments'
+}
+
+/**
+ * A `next` parameter is only followed to a path on this site (`origin`). Browsers read `\`
+ * as `/`, so `/\evil.com` is another host too: the value must resolve to the same origin.
+ */
+export function safeNextPath(next: string | null | undefined, origin: string) {
+  if (!next || !next.startsWith('/') || next.includes('\\')) return null
+  try {
+    const url = new URL(next, origin)
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,62 @@
+import { monthRange, shiftMonth } from './compensation'
+import { monthLabel } from './format'
+import { isPaid } from './payments'
+import type { Payment, Staff, StaffStatus } from './types'
+
+// ---------------------------
+// Staff lifecycle helpers (client + server)
+// ---------------------------
+
+export const STAFF_STATUS_LABELS: Record<StaffStatus, string> = {
+  active: 'Active',
+  inactive: 'Inactive',
+  terminated: 'Terminated',
+}
+
+export type PaymentGuard = { level: 'warn' | 'block'; message: string }
+
+/**
+ * Checks whether `staff` may be paid for `monthEarned`. Months after the
+ * termination month are blocked (the server rejects them too); paying someone
+ * inactive, terminated, or for a month before they were hired only warns.
+ */
+export function paymentGuard(staff: Staff, monthEarned: string): PaymentGuard | null {
+  const month = /^\d{4}-\d{2}$/.test(monthEarned) ? monthEarned : ''
+
+  if (staff.status === 'terminated' && staff.terminationDate) {
+    if (month && month > staff.terminationDate.slice(0, 7)) {
+      return {
+        level: 'block',
+        message: `${staff.fullName} was terminated on ${staff.terminationDate}, before ${monthLabel(month)}. Payments can only cover work up to the termination date.`,
+      }
+    }
+    return { level: 'warn', message: `${staff.fullName} was terminated on ${staff.terminationDate}. Only final pay should be recorded.` }
+  }
+  if (month && staff.hireDate && month < staff.hireDate.slice(0, 7)) {
+    return { level: 'warn', message: `${staff.fullName} was hired on ${staff.hireDate}, after ${monthLabel(month)}.` }
+  }
+  if (staff.status === 'inactive') {
+    return { level: 'warn', message: `${staff.fullName} is marked inactive.` }
+  }
+  return null
+}
+
+/**
+ * Months `staff` was employed without a Salary payment sent for them, oldest first.
+ * Counting starts at the hire month (or the first salary on record when no hire date
+ * is on file) and runs to the last full month before `thisMonth`, stopping earlier at
+ * the termination month or, for inactive staff, the last month a salary was paid.
+ */
+export function monthsWithoutSalary(staff: Staff, payments: Payment[], thisMonth: string): string[] {
+  const paidMonths = new Set(payments.filter((p) => p.staffId === staff.id && p.category === 'Salary' && isPaid(p)).map((p) => p.monthEarned))
+  const sorted = [...paidMonths].sort()
+
+  const from = staff.hireDate?.slice(0, 7) || sorted[0]
+  let to = shiftMonth(thisMonth, -1)
+  if (staff.terminationDate && staff.terminationDate.slice(0, 7) < to) to = staff.terminationDate.slice(0, 7)
+  const lastPaid = sorted.at(-1) ?? ''
+  if (staff.status === 'inactive' && lastPaid < to) to = lastPaid
+  if (!from || !to) return []
+
+  return monthRange(from, to).filter((month) => !paidMonths.has(month))
+}
@@ -0,0 +1,442 @@
+// ---------------------------
+// Shared domain types (client + server)
+// ---------------------------
+
+// What each role may do is set by its permissions (see src/lib/permissions.ts);
+// admins always hold every permission.
+export const ROLES = ['admin', 'accountant', 'hr', 'approver', 'viewer', 'employee'] as const
+
+export type Role = (typeof ROLES)[number]
+
+// Everyone can see their own payments and staff record; permissions open up the rest.
+export const PERMISSIONS = [
+  'payments.view', // the whole ledger, with amounts
+  'payments.edit', // create, edit, import, delete, submit, send and reconcile payments; payroll runs
+  'payments.approve',
+  'staff.view', // the roster: names, job titles, emails, status
+  'staff.edit',
+  'staff.pay', // edit compensation profiles (seeing them also needs payments.view)
+  'users.manage', // logins and the role permission matrix
+  'audit.view',
+  'exports', // CSV/PDF files covering other people's payments
+  'settings.edit', // settings and FX rates
+  'trash.purge',
+] as const
+
+export type Permission = (typeof PERMISSIONS)[number]
+
+export type RolePermissions = Record<Role, Permission[]>
+
+// Terminated staff can still be paid for work up to their termination date (final pay).
+export const STAFF_STATUSES = ['active', 'inactive', 'terminated'] as const
+
+export type StaffStatus = (typeof STAFF_STATUSES)[number]
+
+export const CURRENCIES = ['USD', 'KES', 'UGX', 'TZS'] as const
+
+export type Currency = (typeof CURRENCIES)[number]
+
+export const PAY_FREQUENCIES = ['monthly', 'biweekly', 'weekly'] as const
+
+export type PayFrequency = (typeof PAY_FREQUENCIES)[number]
+
+// Pay terms in force from `effectiveFrom` until the next entry starts.
+export type CompensationEntry = {
+  effectiveFrom: string // YYYY-MM
+  baseSalary: number // per pay period
+  frequency: PayFrequency
+  currency: Currency
+  note?: string
+}
+
+// One entry per status change, appended by the server; never edited.
+export type StaffStatusChange = {
+  status: StaffStatus
+  from?: StaffStatus // absent for the status a record was created with
+  effectiveDate?: string // YYYY-MM-DD: the hire or termination date where there is one
+  reason?: string
+  at: string // ISO timestamp of the change
+  by: string // who made it
+}
+
+export type Staff = {
+  id: string
+  fullName: string
+  jobTitle: string
+  status: StaffStatus
+  email?: string
+  hireDate?: string // YYYY-MM-DD
+  terminationDate?: string // YYYY-MM-DD; set only while status is terminated
+  terminationReason?: string
+  compensation?: CompensationEntry[] // oldest first; the last entry is the current profile
+  statusHistory?: StaffStatusChange[] // oldest first
+}
+
+// 1 `base` = `rate` `quote`, effective from `date` until a newer row for the pair.
+export type FxRate = {
+  id: string
+  date: string // YYYY-MM-DD
+  base: Currency
+  quote: Currency
+  rate: number
+}
+
+export type Settings = {
+  baseCurrency: Currency // currency dashboard totals and exports are reported in
+  companyName: string // printed on payslips and statements
+  companyAddress?: string
+  fiscalYearStartMonth: number // 1–12; fiscal year N runs from this month of year N
+  approvalThreshold: number // in baseCurrency; at or above it, whoever prepared a payment cannot approve it
+}
+
+export const PAYMENT_METHODS = ['Wise', 'Sendwave', 'WorldRemit'] as const
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number]
+
+export const PAYMENT_CATEGORIES = ['Salary', 'Bonus', 'Reimbursement', 'Other'] as const
+
+export type PaymentCategory = (typeof PAYMENT_CATEGORIES)[number]
+
+export type ReceiptStatus = 'attached' | 'missing'
+
+export const RECEIPT_MIME_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/webp'] as const
+
+// Metadata for an uploaded receipt. The bytes live in the receipt store, keyed by sha256.
+export type ReceiptFile = {
+  name: string
+  mimeType: (typeof RECEIPT_MIME_TYPES)[number]
+  size: number
+  sha256: string
+  uploadedAt: string
+}
+
+// draft → pending_approval → approved → sent → reconciled. Money has only moved
+// once a payment is `sent`; earlier states are proposals.
+export const PAYMENT_STATUSES = ['draft', 'pending_approval', 'approved', 'sent', 'reconciled'] as const
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number]
+
+// Who moved a payment into a workflow state, and when.
+export type PaymentSignoff = {
+  userId: string
+  name: string
+  at: string
+}
+
+// The parts a payment is made of, each a positive amount in the payment's currency.
+// Earnings and allowances make up gross pay and deductions come off it; what is left
+// (net) is the amount sent. Employer-paid fees, such as a transfer charge the company
+// absorbs, cost the company on top of net pay and are not taken from the employee.
+export const PAY_LINE_KINDS = ['earning', 'allowance', 'deduction', 'fee'] as const
+
+export type PayLineKind = (typeof PAY_LINE_KINDS)[number]
+
+export type PayLine = {
+  kind: PayLineKind
+  label: string
+  amount: number
+  advanceId?: string // on a deduction: the advance or loan it repays
+}
+
+export const ADVANCE_KINDS = ['advance', 'loan'] as const
+
+export type AdvanceKind = (typeof ADVANCE_KINDS)[number]
+
+// Money lent to a staff member and recovered from their Salary payments, `installment`
+// a month from `firstRepaymentMonth` until the principal is covered. Each repayment is a
+// deduction line naming the advance, so the balance is never stored: it is the principal
+// less those lines (see src/lib/advances.ts).
+export type Advance = {
+  id: string
+  staffId: string
+  kind: AdvanceKind
+  principal: number
+  currency: Currency // repayments are only taken from payments in this currency
+  issuedOn: string // YYYY-MM-DD
+  firstRepaymentMonth: string // YYYY-MM, the first month earned a repayment is taken from
+  installment: number // per month; the last one takes whatever is left
+  notes?: string
+  createdBy: string // name of the user who recorded it
+  createdAt: string
+}
+
+export type AdvanceInput = Omit<Advance, 'id' | 'createdBy' | 'createdAt'>
+
+export type Payment = {
+  id: string
+  staffId: string
+  monthEarned: string // YYYY-MM
+  dateSent: string // ISO
+  amount: number // amount sent (net pay), in `currency`; always the net of `lines`
+  lines: PayLine[] // at least one; a payment entered as a single amount has one earning line
+  currency: Currency
+  receiveCurrency: Currency
+  receiveAmount: number
+  fxRate: number // receiveCurrency per 1 currency, from the rate table on dateSent
+  fxRateDate: string // YYYY-MM-DD of the rate row used
+  method: PaymentMethod
+  category: PaymentCategory
+  referenceId?: string
+  notes?: string
+  receiptStatus: ReceiptStatus // derived: 'attached' whenever a receipt file is on record
+  receiptName?: string
+  receipt?: ReceiptFile
+  payrollRunId?: string // set when the payment was created by finalizing a payroll run
+  importBatchId?: string // set when the payment came from a CSV import
+  templateId?: string // set when the payment was confirmed from a recurring template
+  scheduledFor?: string // YYYY-MM-DD, the template occurrence it was confirmed for
+  status: PaymentStatus
+  createdBy?: PaymentSignoff // absent on payments recorded before the approval workflow
+  submittedBy?: PaymentSignoff
+  approvedBy?: PaymentSignoff
+  createdAt: string
+  updatedAt: string
+}
+
+// A validated payment with its FX fields captured, before it is stored.
+export type PaymentDraft = Omit<Payment, 'id' | 'createdAt' | 'updatedAt' | 'receiptStatus'>
+
+// One CSV upload committed to the ledger.
+export type ImportBatch = {
+  id: string
+  fileName: string
+  sha256: string
+  importedAt: string
+  importedBy: string
+  rowCount: number
+  paymentIds: string[]
+  skippedRows: number[] // file rows (header = row 1) left out for errors or warnings nobody overrode
+  overriddenRows?: number[] // rows imported despite warnings
+}
+
+// Checks run before a payment is recorded; each hit has to be overridden explicitly (see src/lib/anomalies.ts).
+export const ANOMALY_KINDS = ['duplicate_reference', 'repeat_period', 'unusual_amount'] as const
+
+export type AnomalyKind = (typeof ANOMALY_KINDS)[number]
+
+export type PaymentAnomaly = {
+  kind: AnomalyKind
+  message: string
+  matches: string[] // the payments (or file rows) that triggered it
+}
+
+// Sent with a payment to record it despite these warnings.
+export type AnomalyOverride = { overrideWarnings?: AnomalyKind[] }
+
+export type ImportPreviewRow = {
+  row: number // file row, header = row 1
+  staffName: string
+  payment?: PaymentDraft // present when the row is valid
+  errors: string[]
+  warnings: PaymentAnomaly[] // a valid row with warnings is only imported when overridden
+}
+
+export type ImportPreview = {
+  fileName: string
+  rows: ImportPreviewRow[]
+  validCount: number
+  errorCount: number
+  warningCount: number // valid rows that need an override
+}
+
+export type PayrollRunStatus = 'draft' | 'finalized'
+
+// One drafted Salary payment in a payroll run, editable until the run is finalized.
+export type PayrollRunItem = {
+  staffId: string
+  amount: number
+  currency: Currency
+  receiveCurrency: Currency
+  method: PaymentMethod
+  referenceId?: string
+  notes?: string
+}
+
+export type PayrollRun = {
+  id: string
+  monthEarned: string // YYYY-MM
+  status: PayrollRunStatus
+  items: PayrollRunItem[]
+  totals: Array<{ currency: Currency; amount: number }> // per send currency; once finalized, net of repayments as sent
+  paymentIds: string[] // payments created when the run was finalized
+  createdAt: string
+  updatedAt: string
+  finalizedAt?: string
+}
+
+export const RECURRENCE_FREQUENCIES = ['monthly', 'biweekly'] as const
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number]
+
+// A payment sent to one staff member on a schedule. Occurrences are worked out from the
+// schedule (see src/lib/recurring.ts) and come due on their date. Confirming one records
+// a payment that points back with `templateId` and `scheduledFor`; skipping one adds it
+// to `skippedDates`. Either way it is not due again.
+export type PaymentTemplate = {
+  id: string
+  staffId: string
+  amount: number
+  currency: Currency
+  receiveCurrency: Currency
+  method: PaymentMethod
+  category: PaymentCategory
+  notes?: string
+  frequency: RecurrenceFrequency
+  dayOfMonth?: number // monthly only: 1–31, the last day of shorter months
+  startDate: string // YYYY-MM-DD; nothing falls due before it, and biweekly dates count from it
+  endDate?: string // YYYY-MM-DD, inclusive
+  paysPreviousMonth: boolean // each payment is for the month before its date (e.g. a salary sent on the 1st)
+  skippedDates: string[]
+  createdBy: string // name of the user who set it up
+  createdAt: string
+  updatedAt: string
+}
+
+export type PaymentTemplateInput = Omit<PaymentTemplate, 'id' | 'skippedDates' | 'createdBy' | 'createdAt' | 'updatedAt'>
+
+// One outgoing transfer read from a provider's statement export.
+export type StatementLine = {
+  line: number // file row, header = row 1
+  reference: string // the provider's transfer ID, what the ledger keeps in `referenceId`
+  date: string // YYYY-MM-DD
+  amount: number // amount sent, positive
+  currency: Currency
+  recipient?: string
+}
+
+export type StatementMatch = {
+  line: StatementLine
+  paymentId: string
+  matchedBy: 'reference' | 'amount-date'
+  discrepancies: string[] // differences worth a look even though the line matched
+}
+
+export type StatementReconciliation = {
+  provider: PaymentMethod
+  fileName: string
+  lineCount: number
+  skippedLines: number // incoming, failed or non-transfer rows the adapter ignored
+  from: string // YYYY-MM-DD, first statement date
+  to: string // YYYY-MM-DD, last statement date
+  matched: StatementMatch[]
+  unmatchedStatement: StatementLine[] // on the statement, not in the ledger
+  unmatchedLedger: string[] // payment IDs for this provider in the period, not on the statement
+}
+
+// A soft-deleted payment or staff record, kept whole until it is restored or purged.
+// Items in the trash are outside `payments`/`staff`, so totals and exports skip them.
+export type TrashItem = {
+  id: string
+  label: string // what was deleted, as described at the time
+  reason: string
+  deletedAt: string
+  deletedBy: string
+} & ({ entityType: 'payment'; record: Payment } | { entityType: 'staff'; record: Staff })
+
+export type EarningsBasis = 'calendar' | 'fiscal'
+
+// Category totals for one month earned, in one currency. Category columns are gross
+// pay; net is what was sent, so gross of every category less deductions equals net.
+export type EarningsMonth = {
+  month: string // YYYY-MM
+  salary: number
+  bonus: number
+  other: number
+  earnings: number // salary + bonus + other
+  reimbursements: number // money paid back, kept out of earnings
+  deductions: number
+  net: number // earnings + reimbursements - deductions
+}
+
+export type EarningsSection = {
+  currency: Currency
+  months: EarningsMonth[] // every month of the year, zero-filled
+  totals: Omit<EarningsMonth, 'month'>
+}
+
+export type EarningsStatement = {
+  staffId: string
+  staffName: string
+  year: number
+  basis: EarningsBasis
+  label: string // "2025" or "FY 2025/26"
+  from: string // YYYY-MM
+  to: string // YYYY-MM
+  sections: EarningsSection[] // one per currency paid in, empty when nothing was paid
+  paymentCount: number
+}
+
+export type AuditValue = string | number | boolean | null
+
+export type AuditChange = {
+  field: string
+  before: AuditValue
+  after: AuditValue
+}
+
+export type AuditLog = {
+  id: string
+  timestamp: string
+  actor: string
+  action: 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'login' | 'logout' | 'denied' | 'override'
+  entityType: 'payment' | 'staff' | 'user' | 'role' | 'fxRate' | 'settings' | 'payrollRun' | 'importBatch' | 'advance' | 'paymentTemplate'
+  entityId: string
+  summary: string
+  changes?: AuditChange[]
+  // Hash chain: each entry commits to the one before it, so editing or removing
+  // any earlier entry breaks every hash after it.
+  prevHash: string
+  hash: string
+}
+
+export type AuditVerification = {
+  ok: boolean
+  checked: number
+  headHash: string | null
+  problems: Array<{ index: number; id: string; reason: string }>
+}
+
+// The signed-in user as exposed to the browser. Role and staff link come from the
+// server-side session, never from client state.
+export type SessionUser = {
+  userId: string
+  email: string
+  role: Role
+  permissions: Permission[] // resolved from the role on every request
+  staffId: string
+  fullName: string
+}
+
+// Payloads accepted by the API when creating or editing records.
+// Receipt fields are managed by the receipt upload endpoint, FX fields are
+// derived from the rate table and payroll run / import links are set by those
+// features, so none of them are part of these payloads.
+export type PaymentInput = Omit<
+  Payment,
+  | 'id'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'receiptStatus'
+  | 'receiptName'
+  | 'receipt'
+  | 'receiveAmount'
+  | 'fxRate'
+  | 'fxRateDate'
+  | 'payrollRunId'
+  | 'importBatchId'
+  | 'templateId'
+  | 'scheduledFor'
+  | 'status'
+  | 'createdBy'
+  | 'submittedBy'
+  | 'approvedBy'
+>
+
+// A new payment starts as a draft, goes straight to approval, or records a transfer already made.
+// Without `lines` the amount is recorded as one earning line; with them, the amount is their net.
+export type NewPaymentInput = Omit<PaymentInput, 'lines'> & { lines?: PayLine[] } & AnomalyOverride & {
+  status?: Extract<PaymentStatus, 'draft' | 'pending_approval' | 'sent'>
+}
+
+// `statusReason` is recorded in the status history when the status changes (terminations use terminationReason).
+export type StaffInput = Omit<Staff, 'id' | 'statusHistory'> & { statusReason?: string }
@@ -0,0 +1,180 @@
+import { payBreakdown } from './pay-lines'
+import { ADVANCE_KINDS, PAY_LINE_KINDS, RECURRENCE_FREQUENCIES, type PayLine, type PaymentMethod } from './types'
+
+// ---------------------------
+// Field validation for payments, staff, advances and recurring templates (client + server)
+// ---------------------------
+//
+// The forms run these rules to show an error next to each field; the server runs
+// the same rules on every create, edit and import row and refuses the request if
+// any fail. A rule gets the raw value (a form value or whatever came in the JSON
+// body) plus the whole record, and returns a message or nothing.
+
+export const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+
+export const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Transfer IDs as each provider shows them, compared case-insensitively.
+export const REFERENCE_FORMATS: Record<PaymentMethod, { pattern: RegExp; example: string; description: string }> = {
+  Wise: {
+    pattern: /^(WISE-[A-Z0-9]{6,12}|(TRANSFER-)?\d{6,12})$/i,
+    example: 'WISE-7H2K9Q',
+    description: 'WISE-7H2K9Q or a numeric transfer ID',
+  },
+  Sendwave: { pattern: /^SW-\d{6,10}$/i, example: 'SW-902113', description: 'SW- followed by 6 to 10 digits' },
+  WorldRemit: { pattern: /^WR-\d{5,10}$/i, example: 'WR-11902', description: 'WR- followed by 5 to 10 digits' },
+}
+
+// Leaves room for a browser clock running slightly ahead of the server's.
+const CLOCK_SKEW_MS = 5 * 60 * 1000
+
+export type FieldErrors<F extends string = string> = Partial<Record<F, string>>
+
+type Rule = (value: unknown, record: Record<string, unknown>, now: Date) => string | undefined
+
+function isBlank(value: unknown) {
+  return value === undefined || value === null || (typeof value === 'string' && !value.trim())
+}
+
+function isDay(value: unknown): value is string {
+  return typeof value === 'string' && DAY_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+function moneyError(v: unknown) {
+  if (typeof v !== 'number' || !Number.isFinite(v)) return 'Enter an amount'
+  if (v <= 0) return 'Must be more than zero'
+  if (Math.abs(Math.round(v * 100) - v * 100) > 1e-6) return 'Use at most two decimal places'
+}
+
+function lineError(line: unknown) {
+  if (!line || typeof line !== 'object') return 'Must be a line item'
+  const { kind, label, amount } = line as Record<string, unknown>
+  if (!PAY_LINE_KINDS.includes(kind as never)) return `Kind must be one of ${PAY_LINE_KINDS.join(', ')}`
+  if (typeof label !== 'string' || !label.trim()) return 'Enter a description'
+  return moneyError(amount)
+}
+
+const PAYMENT_RULES = {
+  staffId: (v) => (typeof v === 'string' && v ? undefined : 'Pick a staff member'),
+  monthEarned: (v) => (typeof v === 'string' && MONTH_PATTERN.test(v) ? undefined : 'Use the YYYY-MM format, e.g. 2025-12'),
+  dateSent: (v, _record, now) => {
+    if (typeof v !== 'string' || Number.isNaN(Date.parse(v))) return 'Enter the date the money was sent'
+    if (Date.parse(v) > now.getTime() + CLOCK_SKEW_MS) return 'Cannot be in the future'
+  },
+  // An itemised payment's amount is derived from its lines, which are checked instead.
+  amount: (v, record) => (Array.isArray(record.lines) ? undefined : moneyError(v)),
+  // Optional: without lines the amount is recorded as one earning line.
+  lines: (v) => {
+    if (isBlank(v)) return
+    if (!Array.isArray(v) || v.length === 0) return 'Add at least one line'
+    for (const [i, line] of v.entries()) {
+      const message = lineError(line)
+      if (message) return `Line ${i + 1}: ${message}`
+    }
+    if (payBreakdown(v as PayLine[]).net <= 0) return 'Deductions must leave something to send'
+  },
+  referenceId: (v, record) => {
+    if (isBlank(v)) return
+    if (typeof v !== 'string') return 'Must be text'
+    const format = REFERENCE_FORMATS[record.method as PaymentMethod]
+    if (format && !format.pattern.test(v.trim())) return `${record.method} references look like ${format.description}`
+  },
+} satisfies Record<string, Rule>
+
+const STAFF_RULES = {
+  fullName: (v) => (typeof v === 'string' && v.trim() ? undefined : 'Enter a name'),
+  jobTitle: (v) => (typeof v === 'string' && v.trim() ? undefined : 'Enter a job title'),
+  email: (v) => (isBlank(v) || (typeof v === 'string' && EMAIL_PATTERN.test(v.trim())) ? undefined : 'Enter a valid email address'),
+  hireDate: (v) => (isBlank(v) || isDay(v) ? undefined : 'Use the YYYY-MM-DD format'),
+  terminationDate: (v, record) => {
+    if (record.status !== 'terminated') return
+    if (isBlank(v)) return 'A termination date is required'
+    if (!isDay(v)) return 'Use the YYYY-MM-DD format'
+    if (isDay(record.hireDate) && v < record.hireDate) return 'Cannot be before the hire date'
+  },
+  terminationReason: (v, record) => {
+    if (record.status !== 'terminated') return
+    if (typeof v !== 'string' || !v.trim()) return 'A termination reason is required'
+  },
+} satisfies Record<string, Rule>
+
+// Ten years of monthly repayments; also keeps the schedule built on every balance check small.
+const MAX_INSTALLMENTS = 120
+
+const ADVANCE_RULES = {
+  staffId: (v) => (typeof v === 'string' && v ? undefined : 'Pick a staff member'),
+  kind: (v) => (ADVANCE_KINDS.includes(v as never) ? undefined : `Must be one of ${ADVANCE_KINDS.join(', ')}`),
+  principal: moneyError,
+  installment: (v, record) => {
+    const message = moneyError(v)
+    if (message) return message
+    if (typeof record.principal !== 'number') return
+    if ((v as number) > record.principal) return 'Cannot be more than the amount lent'
+    if (Math.ceil(Math.round(record.principal * 100) / Math.round((v as number) * 100)) > MAX_INSTALLMENTS) {
+      return `Repays in more than ${MAX_INSTALLMENTS} monthly installments; raise the installment`
+    }
+  },
+  issuedOn: (v) => (isDay(v) ? undefined : 'Use the YYYY-MM-DD format'),
+  firstRepaymentMonth: (v, record) => {
+    if (typeof v !== 'string' || !MONTH_PATTERN.test(v)) return 'Use the YYYY-MM format, e.g. 2025-12'
+    if (isDay(record.issuedOn) && v < record.issuedOn.slice(0, 7)) return 'Cannot be before the month it was issued'
+  },
+} satisfies Record<string, Rule>
+
+const TEMPLATE_RULES = {
+  staffId: (v) => (typeof v === 'string' && v ? undefined : 'Pick a staff member'),
+  amount: moneyError,
+  frequency: (v) => (RECURRENCE_FREQUENCIES.includes(v as never) ? undefined : `Must be one of ${RECURRENCE_FREQUENCIES.join(', ')}`),
+  dayOfMonth: (v, record) => {
+    if (record.frequency !== 'monthly') return
+    if (typeof v !== 'number' || !Number.isInteger(v) || v < 1 || v > 31) return 'Pick a day from 1 to 31'
+  },
+  startDate: (v) => (isDay(v) ? undefined : 'Use the YYYY-MM-DD format'),
+  endDate: (v, record) => {
+    if (isBlank(v)) return
+    if (!isDay(v)) return 'Use the YYYY-MM-DD format'
+    if (isDay(record.startDate) && v < record.startDate) return 'Cannot be before the start date'
+  },
+} satisfies Record<string, Rule>
+
+export type PaymentField = keyof typeof PAYMENT_RULES
+
+export type StaffField = keyof typeof STAFF_RULES
+
+export type AdvanceField = keyof typeof ADVANCE_RULES
+
+export type TemplateField = keyof typeof TEMPLATE_RULES
+
+function validate<F extends string>(rules: Record<F, Rule>, record: Record<string, unknown>, now: Date): FieldErrors<F> {
+  const errors: FieldErrors<F> = {}
+  for (const field of Object.keys(rules) as F[]) {
+    const message = rules[field](record[field], record, now)
+    if (message) errors[field] = message
+  }
+  return errors
+}
+
+export function validatePayment(record: Record<string, unknown>, now = new Date()): FieldErrors<PaymentField> {
+  return validate(PAYMENT_RULES, record, now)
+}
+
+export function validateStaff(record: Record<string, unknown>, now = new Date()): FieldErrors<StaffField> {
+  return validate(STAFF_RULES, record, now)
+}
+
+export function validateAdvance(record: Record<string, unknown>, now = new Date()): FieldErrors<AdvanceField> {
+  return validate(ADVANCE_RULES, record, now)
+}
+
+export function validateTemplate(record: Record<string, unknown>, now = new Date()): FieldErrors<TemplateField> {
+  return validate(TEMPLATE_RULES, record, now)
+}
+
+/** One line for an error response or import row, e.g. "amount: Must be more than zero; monthEarned: …". */
+export function describeErrors(errors: FieldErrors) {
+  return Object.entries(errors)
+    .map(([field, message]) => `${field}: ${message}`)
+    .join('; ')
+}
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { homePathFor, routeForPath } from '@/lib/routes'
+import { SESSION_COOKIE, sessionFromToken } from '@/server/auth'
+
+// ---------------------------
+// Page access
+// ---------------------------
+//
+// Runs before every console page. Signed-out visitors go to the login page (which
+// brings them back afterwards), and a session opening a page its role may not see
+// lands on its own home page instead. The API routes check permissions themselves.
+
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  const user = await sessionFromToken(request.cookies.get(SESSION_COOKIE)?.value)
+  const redirect = (path: string) => NextResponse.redirect(new URL(path, request.url))
+
+  if (pathname === '/login') return user ? redirect(homePathFor(user)) : NextResponse.next()
+  if (!user) return redirect(`/login?${new URLSearchParams({ next: pathname + search })}`)
+
+  const route = routeForPath(pathname)
+  if (pathname === '/' || (route && !route.visible(user))) return redirect(homePathFor(user))
+  return NextResponse.next()
+}
+
+export const config = {
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico).*)'],
+}
@@ -0,0 +1,58 @@
+import { isPaid } from '@/lib/payments'
+import { hasPermission } from '@/lib/permissions'
+import type { AuditLog, Payment, SessionUser, Staff } from '@/lib/types'
+import { recordAudit } from './audit'
+import { HttpError } from './http'
+import { transact } from './store'
+
+// ---------------------------
+// Data scoping
+// ---------------------------
+//
+// Everyone sees their own Staff record and the payments sent to them. Beyond that,
+// `staff.view` opens the roster and `payments.view` the whole ledger, including the
+// amounts on compensation profiles — HR can manage staff without seeing what anyone
+// is paid. Filtering happens here, before anything is serialized, so the browser
+// never holds records its user may not see.
+
+export function canAccessStaff(user: SessionUser, staffId: string) {
+  return hasPermission(user, 'staff.view') || user.staffId === staffId
+}
+
+/** Payments, payslips, statements and pay terms for one staff member. */
+export function canAccessPay(user: SessionUser, staffId: string) {
+  return hasPermission(user, 'payments.view') || user.staffId === staffId
+}
+
+/** Files covering someone else's pay need `exports` as well; your own are always available. */
+export function canExportPay(user: SessionUser, staffId: string) {
+  return user.staffId === staffId || hasPermission(user, 'payments.view', 'exports')
+}
+
+export function scopePayments(user: SessionUser, payments: Payment[]) {
+  return hasPermission(user, 'payments.view') ? payments : payments.filter((p) => p.staffId === user.staffId && isPaid(p))
+}
+
+/** The roster this user may see, with compensation removed where they may not see pay. */
+export function scopeStaff(user: SessionUser, staff: Staff[]) {
+  return staff
+    .filter((s) => canAccessStaff(user, s.id))
+    .map((s) => (canAccessPay(user, s.id) ? s : { ...s, compensation: undefined }))
+}
+
+/** Records the attempt in the audit trail, then rejects the request with 403. */
+export async function denyAccess(
+  user: SessionUser,
+  target: { entityType: AuditLog['entityType']; entityId: string; description: string }
+): Promise<never> {
+  await transact((db) => {
+    recordAudit(db, {
+      actor: user.fullName,
+      action: 'denied',
+      entityType: target.entityType,
+      entityId: target.entityId,
+      summary: `Denied ${user.fullName} (${user.role}) access to ${target.description}`,
+    })
+  })
+  throw new HttpError(403, 'You do not have access to this resource')
+}
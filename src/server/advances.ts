@@ -0,0 +1,100 @@
+import { ADVANCE_KIND_LABELS, amountDeducted } from '@/lib/advances'
+import { formatMoney } from '@/lib/format'
+import { CURRENCIES, type Advance, type AdvanceInput, type AdvanceKind, type Currency, type SessionUser } from '@/lib/types'
+import { describeErrors, validateAdvance } from '@/lib/validation'
+import { canAccessPay } from './access'
+import { recordAudit } from './audit'
+import { diffFields } from './audit-chain'
+import { badRequest, notFound } from './http'
+import { newId, readDb, transact } from './store'
+
+// ---------------------------
+// Advances and loans
+// ---------------------------
+//
+// Only the loan itself is stored here; repayments are deduction lines on Salary
+// payments (added by the payment form and by payroll runs), so an advance can be
+// deleted only while no payment, live or trashed, deducts anything for it.
+
+const AUDITED_FIELDS = [
+  'staffId',
+  'kind',
+  'principal',
+  'currency',
+  'issuedOn',
+  'firstRepaymentMonth',
+  'installment',
+  'notes',
+] as const satisfies ReadonlyArray<keyof Advance>
+
+function parseAdvance(body: Record<string, unknown>, staffIds: string[]): AdvanceInput {
+  const errors = validateAdvance(body)
+  if (Object.keys(errors).length) badRequest(describeErrors(errors))
+  if (!staffIds.includes(body.staffId as string)) badRequest('staffId must reference a staff record')
+  if (!CURRENCIES.includes(body.currency as never)) badRequest(`currency must be one of ${CURRENCIES.join(', ')}`)
+  if (body.notes !== undefined && body.notes !== null && typeof body.notes !== 'string') badRequest('notes must be a string')
+
+  return {
+    staffId: body.staffId as string,
+    kind: body.kind as AdvanceKind,
+    principal: body.principal as number,
+    currency: body.currency as Currency,
+    issuedOn: body.issuedOn as string,
+    firstRepaymentMonth: body.firstRepaymentMonth as string,
+    installment: body.installment as number,
+    notes: (body.notes as string | undefined)?.trim() || undefined,
+  }
+}
+
+function describeAdvance(a: Advance, staffName: string) {
+  return `${ADVANCE_KIND_LABELS[a.kind].toLowerCase()} of ${formatMoney(a.principal, a.currency)} to ${staffName}`
+}
+
+/** Everyone sees their own advances; `payments.view` sees them all. Newest first. */
+export async function listAdvances(user: SessionUser): Promise<Advance[]> {
+  const db = await readDb()
+  return db.advances
+    .filter((a) => canAccessPay(user, a.staffId))
+    .sort((a, b) => b.issuedOn.localeCompare(a.issuedOn) || b.createdAt.localeCompare(a.createdAt))
+}
+
+export function createAdvance(actor: SessionUser, body: Record<string, unknown>): Promise<Advance> {
+  return transact((db) => {
+    const input = parseAdvance(body, db.staff.map((s) => s.id))
+    const created: Advance = { ...input, id: newId('adv'), createdBy: actor.fullName, createdAt: new Date().toISOString() }
+    db.advances.push(created)
+
+    const staffName = db.staff.find((s) => s.id === created.staffId)?.fullName || created.staffId
+    recordAudit(db, {
+      actor: actor.fullName,
+      action: 'create',
+      entityType: 'advance',
+      entityId: created.id,
+      summary: `Recorded a ${describeAdvance(created, staffName)}, repaid ${formatMoney(created.installment, created.currency)} a month from ${created.firstRepaymentMonth}`,
+      changes: diffFields(null, created, [...AUDITED_FIELDS]),
+    })
+    return created
+  })
+}
+
+export function deleteAdvance(actor: SessionUser, id: string): Promise<{ id: string }> {
+  return transact((db) => {
+    const existing = db.advances.find((a) => a.id === id) ?? notFound(`Advance ${id} not found`)
+    const payments = [...db.payments, ...db.trash.flatMap((t) => (t.entityType === 'payment' ? [t.record] : []))]
+    if (amountDeducted(id, payments) > 0) {
+      badRequest(`Advance ${id} already has repayments on record; remove them from those payments before deleting it`)
+    }
+    db.advances = db.advances.filter((a) => a.id !== id)
+
+    const staffName = db.staff.find((s) => s.id === existing.staffId)?.fullName || existing.staffId
+    recordAudit(db, {
+      actor: actor.fullName,
+      action: 'delete',
+      entityType: 'advance',
+      entityId: id,
+      summary: `Deleted the ${describeAdvance(existing, staffName)}`,
+      changes: diffFields(existing, null, [...AUDITED_FIELDS]),
+    })
+    return { id }
+  })
+}
@@ -0,0 +1,90 @@
+import { createHash } from 'node:crypto'
+
+import type { AuditChange, AuditLog, AuditValue, AuditVerification } from '@/lib/types'
+
+// ---------------------------
+// Audit hash chain
+// ---------------------------
+//
+// hash = sha256(canonical JSON of the entry without `hash`, including prevHash).
+// The first entry links to GENESIS_HASH. Verification recomputes every hash and
+// link in stored order; any edit, reordering or removal in the middle of the log
+// shows up as the first broken entry.
+
+export const GENESIS_HASH = '0'.repeat(64)
+
+export type UnsealedAuditLog = Omit<AuditLog, 'prevHash' | 'hash'>
+
+/** JSON with object keys sorted and undefined values dropped, so hashes do not depend on key order. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+export function hashAuditEntry(entry: Omit<AuditLog, 'hash'>) {
+  // Drop a stored `hash` so callers can pass a sealed entry as-is.
+  const unsealed: Partial<AuditLog> = { ...entry }
+  delete unsealed.hash
+  return createHash('sha256').update(canonicalJson(unsealed)).digest('hex')
+}
+
+export function sealAuditEntry(entry: UnsealedAuditLog, prevHash: string): AuditLog {
+  const linked = { ...entry, prevHash }
+  return { ...linked, hash: hashAuditEntry(linked) }
+}
+
+export function sealAuditChain(entries: UnsealedAuditLog[]): AuditLog[] {
+  const sealed: AuditLog[] = []
+  for (const entry of entries) sealed.push(sealAuditEntry(entry, sealed[sealed.length - 1]?.hash ?? GENESIS_HASH))
+  return sealed
+}
+
+export function verifyAuditChain(entries: AuditLog[]): AuditVerification {
+  const problems: AuditVerification['problems'] = []
+  let expectedPrev = GENESIS_HASH
+
+  entries.forEach((entry, index) => {
+    if (!entry.hash || !entry.prevHash) {
+      problems.push({ index, id: entry.id, reason: 'Entry is not sealed into the hash chain' })
+    } else if (entry.prevHash !== expectedPrev) {
+      problems.push({ index, id: entry.id, reason: 'Link to the previous entry is broken (an entry was removed, inserted or reordered)' })
+    } else if (hashAuditEntry(entry) !== entry.hash) {
+      problems.push({ index, id: entry.id, reason: 'Contents do not match the recorded hash (entry was altered)' })
+    }
+    expectedPrev = entry.hash
+  })
+
+  return {
+    ok: problems.length === 0,
+    checked: entries.length,
+    headHash: entries[entries.length - 1]?.hash ?? null,
+    problems,
+  }
+}
+
+// ---------------------------
+// Field diffs
+// ---------------------------
+
+function toAuditValue(v: unknown): AuditValue {
+  if (v === undefined || v === null) return null
+  if (typeof v === 'string' || typeof v === 'number' || typeof v === 'boolean') return v
+  return JSON.stringify(v)
+}
+
+/** Before/after pairs for the given fields that differ. Pass `null` for a side that does not exist (create/delete). */
+export function diffFields<T extends object>(before: T | null, after: T | null, fields: Array<keyof T & string>): AuditChange[] {
+  const changes: AuditChange[] = []
+  for (const field of fields) {
+    const b = toAuditValue(before?.[field])
+    const a = toAuditValue(after?.[field])
+    if (b !== a) changes.push({ field, before: b, after: a })
+  }
+  return changes
+}
@@ -0,0 +1,54 @@
+import type { AuditLog, AuditVerification } from '@/lib/types'
+import { GENESIS_HASH, sealAuditEntry, verifyAuditChain, type UnsealedAuditLog } from './audit-chain'
+import { newId, readDb, type Database } from './store'
+
+// ---------------------------
+// Audit trail
+// ---------------------------
+
+/**
+ * Appends an audit entry inside an open transaction, sealed onto the hash chain.
+ * Entries are stored oldest first; that order is what the chain commits to.
+ */
+export function recordAudit(db: Database, entry: Omit<UnsealedAuditLog, 'id' | 'timestamp'> & { timestamp?: string }) {
+  const created = sealAuditEntry(
+    {
+      id: newId('a'),
+      ...entry,
+      timestamp: entry.timestamp ?? new Date().toISOString(),
+    },
+    db.audit[db.audit.length - 1]?.hash ?? GENESIS_HASH
+  )
+  db.audit.push(created)
+  return created
+}
+
+/** Narrows the log to one payment, or to a staff member and their payments, advances and templates. */
+export type AuditFilter = { payment?: string | null; staff?: string | null }
+
+export async function listAudit(filter: AuditFilter = {}): Promise<AuditLog[]> {
+  const db = await readDb()
+  let entries = db.audit
+  if (filter.payment) {
+    entries = entries.filter((l) => l.entityType === 'payment' && l.entityId === filter.payment)
+  } else if (filter.staff) {
+    const staffId = filter.staff
+    const owned = (records: Array<{ id: string; staffId: string }>) => new Set(records.filter((r) => r.staffId === staffId).map((r) => r.id))
+    const payments = owned(db.payments)
+    const advances = owned(db.advances)
+    const templates = owned(db.paymentTemplates)
+    entries = entries.filter(
+      (l) =>
+        (l.entityType === 'staff' && l.entityId === staffId) ||
+        (l.entityType === 'payment' && payments.has(l.entityId)) ||
+        (l.entityType === 'advance' && advances.has(l.entityId)) ||
+        (l.entityType === 'paymentTemplate' && templates.has(l.entityId))
+    )
+  }
+  return [...entries].reverse()
+}
+
+export async function verifyAudit(): Promise<AuditVerification> {
+  const db = await readDb()
+  return verifyAuditChain(db.audit)
+}
@@ -0,0 +1,213 @@
+import { cookies } from 'next/headers'
+
+import { hasPermission, PERMISSION_LABELS, permissionsFor } from '@/lib/permissions'
+import { ROLES, type Permission, type Role, type SessionUser } from '@/lib/types'
+import { denyAccess } from './access'
+import { recordAudit } from './audit'
+import { diffFields } from './audit-chain'
+import { badRequest, HttpError, notFound } from './http'
+import { hashPassword, hashToken, newSessionToken, verifyPassword } from './passwords'
+import { newId, readDb, transact, type Database, type UserRecord } from './store'
+
+// ---------------------------
+// Sessions
+// ---------------------------
+//
+// The browser only ever holds an opaque token in an httpOnly cookie. The
+// session record (and through it the user's role and Staff link) lives in the
+// store, so logging out or changing a login server-side takes effect at once.
+
+export const SESSION_COOKIE = 'lh_session'
+
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000
+
+const MIN_PASSWORD_LENGTH = 8
+
+function toSessionUser(db: Database, user: UserRecord): SessionUser {
+  const staff = db.staff.find((s) => s.id === user.staffId)
+  return {
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    permissions: permissionsFor(db.roles, user.role),
+    staffId: user.staffId,
+    fullName: staff?.fullName || user.email,
+  }
+}
+
+function findSession(db: Database, token: string) {
+  const tokenHash = hashToken(token)
+  const session = db.sessions.find((s) => s.tokenHash === tokenHash)
+  if (!session || new Date(session.expiresAt) <= new Date()) return null
+  const user = db.users.find((u) => u.id === session.userId)
+  // Inactive staff, and staff moved to the trash, lose access immediately.
+  if (!user || db.staff.find((s) => s.id === user.staffId)?.status !== 'active') return null
+  return toSessionUser(db, user)
+}
+
+/** The session a cookie value belongs to; the proxy reads it off the request before any page renders. */
+export async function sessionFromToken(token: string | undefined): Promise<SessionUser | null> {
+  if (!token) return null
+  return findSession(await readDb(), token)
+}
+
+export async function getSession(): Promise<SessionUser | null> {
+  return sessionFromToken((await cookies()).get(SESSION_COOKIE)?.value)
+}
+
+export async function requireSession(): Promise<SessionUser> {
+  const user = await getSession()
+  if (!user) throw new HttpError(401, 'Sign in required')
+  return user
+}
+
+/** Requires a session holding every listed permission; anyone else is denied and the attempt audited. */
+export async function requirePermission(...required: Permission[]): Promise<SessionUser> {
+  const user = await requireSession()
+  const missing = required.filter((p) => !hasPermission(user, p))
+  if (missing.length) {
+    return denyAccess(user, {
+      entityType: 'user',
+      entityId: user.userId,
+      description: `a resource that needs ${missing.map((p) => `"${PERMISSION_LABELS[p]}"`).join(' and ')}`,
+    })
+  }
+  return user
+}
+
+export async function login(body: Record<string, unknown>): Promise<SessionUser> {
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : ''
+  const password = typeof body.password === 'string' ? body.password : ''
+  if (!email || !password) badRequest('Email and password are required')
+
+  const token = newSessionToken()
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS)
+
+  const user = await transact((db) => {
+    const record = db.users.find((u) => u.email === email)
+    if (!record || !verifyPassword(password, record.passwordHash)) throw new HttpError(401, 'Invalid email or password')
+    if (db.staff.find((s) => s.id === record.staffId)?.status !== 'active') {
+      throw new HttpError(403, 'This account is inactive')
+    }
+
+    db.sessions = db.sessions.filter((s) => new Date(s.expiresAt) > now)
+    db.sessions.push({
+      tokenHash: hashToken(token),
+      userId: record.id,
+      createdAt: now.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    })
+
+    const sessionUser = toSessionUser(db, record)
+    recordAudit(db, {
+      actor: sessionUser.fullName,
+      action: 'login',
+      entityType: 'user',
+      entityId: record.id,
+      summary: `${sessionUser.fullName} signed in`,
+    })
+    return sessionUser
+  })
+
+  const jar = await cookies()
+  jar.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  })
+  return user
+}
+
+export async function logout(): Promise<{ ok: true }> {
+  const jar = await cookies()
+  const token = jar.get(SESSION_COOKIE)?.value
+  jar.delete(SESSION_COOKIE)
+  if (!token) return { ok: true }
+
+  const tokenHash = hashToken(token)
+  await transact((db) => {
+    const user = findSession(db, token)
+    db.sessions = db.sessions.filter((s) => s.tokenHash !== tokenHash)
+    if (user) {
+      recordAudit(db, {
+        actor: user.fullName,
+        action: 'logout',
+        entityType: 'user',
+        entityId: user.userId,
+        summary: `${user.fullName} signed out`,
+      })
+    }
+  })
+  return { ok: true }
+}
+
+// ---------------------------
+// Login management
+// ---------------------------
+
+// users.manage can be granted to other roles, so admin logins stay with admins: only an
+// admin may give out the admin role or reset an admin's password.
+function touchesAdmin(actor: SessionUser, role: Role, existing: UserRecord | undefined) {
+  return actor.role !== 'admin' && (role === 'admin' || existing?.role === 'admin')
+}
+
+/** Creates or resets the login for a staff member. Existing sessions for that login are revoked. */
+export async function setStaffLogin(
+  actor: SessionUser,
+  staffId: string,
+  body: Record<string, unknown>
+): Promise<{ staffId: string; role: Role }> {
+  const { password } = body
+  const role = body.role as Role
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    badRequest(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  }
+  if (!ROLES.includes(role as never)) badRequest(`role must be one of ${ROLES.join(', ')}`)
+  if (touchesAdmin(actor, role, (await readDb()).users.find((u) => u.staffId === staffId))) {
+    return denyAccess(actor, { entityType: 'user', entityId: staffId, description: `manage the admin login of staff ${staffId}` })
+  }
+
+  return transact((db) => {
+    const staff = db.staff.find((s) => s.id === staffId) ?? notFound(`Staff ${staffId} not found`)
+    if (!staff.email) badRequest(`${staff.fullName} needs an email address before a login can be created`)
+    const email = staff.email.toLowerCase()
+    if (db.users.some((u) => u.email === email && u.staffId !== staffId)) badRequest(`${email} is already used by another login`)
+
+    const existing = db.users.find((u) => u.staffId === staffId)
+    if (existing?.id === actor.userId && role !== actor.role) badRequest('You cannot change your own role')
+    if (touchesAdmin(actor, role, existing)) badRequest('Only an admin can create or reset an admin login')
+    const previousRole = existing?.role ?? null
+
+    if (existing) {
+      existing.email = email
+      existing.role = role
+      existing.passwordHash = hashPassword(password)
+      db.sessions = db.sessions.filter((s) => s.userId !== existing.id)
+    } else {
+      db.users.push({
+        id: newId('u'),
+        email,
+        passwordHash: hashPassword(password),
+        role,
+        staffId,
+        createdAt: new Date().toISOString(),
+      })
+    }
+
+    recordAudit(db, {
+      actor: actor.fullName,
+      action: existing ? 'update' : 'create',
+      entityType: 'user',
+      entityId: existing?.id ?? db.users[db.users.length - 1].id,
+      summary: `${existing ? 'Reset' : 'Created'} ${role} login for ${staff.fullName} (${email})`,
+      changes: [
+        ...diffFields({ role: previousRole }, { role }, ['role']),
+        { field: 'password', before: existing ? '(set)' : null, after: '(changed)' },
+      ],
+    })
+    return { staffId, role }
+  })
+}
@@ -0,0 +1,51 @@
+// ---------------------------
+// CSV reader and writer
+// ---------------------------
+
+function cell(v: string | number) {
+  return `"${String(v).replace(/\n/g, ' ').replace(/"/g, '""')}"`
+}
+
+export function toCsv(headers: string[], rows: Array<Array<string | number>>) {
+  return [headers.join(','), ...rows.map((r) => r.map(cell).join(','))].join('\n')
+}
+
+/** RFC 4180 parser: quoted fields may contain commas, doubled quotes and line breaks. Blank lines are dropped. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text // spreadsheet apps often prepend a BOM
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  row.push(field)
+  rows.push(row)
+
+  return rows.filter((r) => r.some((v) => v.trim() !== ''))
+}
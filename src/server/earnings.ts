@@ -0,0 +1,188 @@
+import { buildEarningsSections, statementPeriod } from '@/lib/earnings'
+import { formatMoney, monthLabel } from '@/lib/format'
+import { isPaid } from '@/lib/payments'
+import type { EarningsBasis, EarningsMonth, EarningsStatement, SessionUser } from '@/lib/types'
+import { canAccessPay, canExportPay, denyAccess } from './access'
+import { toCsv } from './csv'
+import { badRequest, notFound, type FileResult } from './http'
+import { createDocument, drawDetails, drawLetterhead, GREY, INK, LIGHT, MARGIN, PAGE_WIDTH, renderPdf } from './pdf'
+import { readDb } from './store'
+
+// ---------------------------
+// Year-end earnings statements
+// ---------------------------
+
+const RIGHT = PAGE_WIDTH - MARGIN
+
+// Right edges of the amount columns, left to right.
+const AMOUNT_COLUMNS: Array<{ key: keyof Omit<EarningsMonth, 'month'>; label: string; x: number }> = [
+  { key: 'salary', label: 'SALARY', x: 178 },
+  { key: 'bonus', label: 'BONUS', x: 239 },
+  { key: 'other', label: 'OTHER', x: 300 },
+  { key: 'earnings', label: 'EARNINGS', x: 362 },
+  { key: 'reimbursements', label: 'REIMBURSED', x: 422 },
+  { key: 'deductions', label: 'DEDUCTIONS', x: 482 },
+  { key: 'net', label: 'NET PAID', x: RIGHT - 4 },
+]
+
+// Columns shown in bold: the subtotal and what was actually sent.
+const BOLD_COLUMNS = new Set<keyof EarningsMonth>(['earnings', 'net'])
+
+function parseYear(value: unknown) {
+  const year = Number(value)
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) badRequest('year must be a four-digit year')
+  return year
+}
+
+function parseBasis(value: unknown): EarningsBasis {
+  if (value === undefined || value === null || value === '') return 'calendar'
+  if (value !== 'calendar' && value !== 'fiscal') badRequest('basis must be calendar or fiscal')
+  return value
+}
+
+export async function getEarningsStatement(user: SessionUser, staffId: string, year: unknown, basis: unknown): Promise<EarningsStatement> {
+  const db = await readDb()
+  const staff = db.staff.find((s) => s.id === staffId) ?? notFound(`Staff ${staffId} not found`)
+  if (!canAccessPay(user, staffId)) {
+    return denyAccess(user, { entityType: 'staff', entityId: staffId, description: `the earnings statement for ${staff.fullName}` })
+  }
+
+  const y = parseYear(year)
+  const b = parseBasis(basis)
+  const { from, to, label } = statementPeriod(y, b, db.settings.fiscalYearStartMonth)
+  const payments = db.payments.filter((p) => p.staffId === staffId && isPaid(p))
+  return {
+    staffId,
+    staffName: staff.fullName,
+    year: y,
+    basis: b,
+    label,
+    from,
+    to,
+    sections: buildEarningsSections(payments, from, to),
+    paymentCount: payments.filter((p) => p.monthEarned >= from && p.monthEarned <= to).length,
+  }
+}
+
+function fileStem(statement: EarningsStatement) {
+  const slug = statement.staffName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `earnings-${statement.label.replace(/[^A-Za-z0-9]+/g, '-').toLowerCase()}-${slug || statement.staffId}`
+}
+
+/** Like getEarningsStatement, but a file of someone else's statement also needs the `exports` permission. */
+async function statementForExport(user: SessionUser, staffId: string, year: unknown, basis: unknown) {
+  if (!canExportPay(user, staffId)) {
+    return denyAccess(user, { entityType: 'staff', entityId: staffId, description: `an earnings statement file for staff ${staffId}` })
+  }
+  return getEarningsStatement(user, staffId, year, basis)
+}
+
+export async function exportEarningsCsv(user: SessionUser, staffId: string, year: unknown, basis: unknown): Promise<FileResult> {
+  const statement = await statementForExport(user, staffId, year, basis)
+  const header = ['staffName', 'period', 'monthEarned', 'currency', 'salary', 'bonus', 'other', 'earnings', 'reimbursements', 'deductions', 'net']
+  const rows = statement.sections.flatMap((section) => [
+    ...section.months.map((m) => [
+      statement.staffName,
+      statement.label,
+      m.month,
+      section.currency,
+      m.salary,
+      m.bonus,
+      m.other,
+      m.earnings,
+      m.reimbursements,
+      m.deductions,
+      m.net,
+    ]),
+    [
+      statement.staffName,
+      statement.label,
+      'TOTAL',
+      section.currency,
+      section.totals.salary,
+      section.totals.bonus,
+      section.totals.other,
+      section.totals.earnings,
+      section.totals.reimbursements,
+      section.totals.deductions,
+      section.totals.net,
+    ],
+  ])
+  return {
+    body: toCsv(header, rows),
+    contentType: 'text/csv;charset=utf-8',
+    filename: `${fileStem(statement)}.csv`,
+  }
+}
+
+export async function renderEarningsPdf(user: SessionUser, staffId: string, year: unknown, basis: unknown): Promise<FileResult> {
+  const statement = await statementForExport(user, staffId, year, basis)
+  const db = await readDb()
+  const staff = db.staff.find((s) => s.id === staffId)
+  const { companyName, companyAddress } = db.settings
+  const doc = createDocument()
+
+  drawLetterhead(doc, { companyName, companyAddress, title: 'EARNINGS STATEMENT', period: statement.label })
+  drawDetails(doc, [
+    ['Employee', statement.staffName],
+    ['Job title', staff?.jobTitle ?? ''],
+    ['Staff ID', statement.staffId],
+    ['Period', `${monthLabel(statement.from)} – ${monthLabel(statement.to)}`],
+    ['Issued', new Date().toISOString().slice(0, 10)],
+  ])
+
+  if (statement.sections.length === 0) {
+    doc.take(10)
+    const { page, y } = doc.take(16)
+    page.text(MARGIN, y, 'No payments were recorded for this period.', { size: 10, color: GREY })
+  }
+
+  for (const section of statement.sections) {
+    doc.take(10)
+    const heading = doc.take(16)
+    heading.page.text(MARGIN, heading.y, `Amounts in ${section.currency}`, { size: 11, bold: true })
+
+    const head = doc.take(20)
+    head.page.rect(MARGIN, head.y - 6, RIGHT - MARGIN, 18, LIGHT)
+    head.page.text(MARGIN + 4, head.y, 'MONTH EARNED', { size: 8, bold: true, color: GREY })
+    for (const col of AMOUNT_COLUMNS) head.page.text(col.x, head.y, col.label, { size: 8, bold: true, color: GREY, align: 'right' })
+
+    for (const m of section.months) {
+      const { page, y } = doc.take(16)
+      page.text(MARGIN + 4, y, monthLabel(m.month), { size: 9 })
+      for (const col of AMOUNT_COLUMNS) {
+        const value = m[col.key]
+        page.text(col.x, y, value ? formatMoney(value, section.currency) : '—', {
+          size: 8,
+          bold: BOLD_COLUMNS.has(col.key),
+          color: value ? INK : GREY,
+          align: 'right',
+        })
+      }
+      page.line(MARGIN, y - 5, RIGHT, y - 5, 0.3)
+    }
+
+    const total = doc.take(18)
+    total.page.line(MARGIN, total.y + 12, RIGHT, total.y + 12, 1, INK)
+    total.page.text(MARGIN + 4, total.y, 'Total', { size: 10, bold: true })
+    for (const col of AMOUNT_COLUMNS) {
+      total.page.text(col.x, total.y, formatMoney(section.totals[col.key], section.currency), { size: 8, bold: true, align: 'right' })
+    }
+  }
+
+  doc.take(10)
+  const note = doc.take(14)
+  note.page.text(MARGIN, note.y, 'Earnings are gross salary, bonus and other payments by month earned. Reimbursements repay expenses and are not earnings.', {
+    size: 8,
+    color: GREY,
+  })
+  const reconciles = doc.take(12)
+  reconciles.page.text(MARGIN, reconciles.y, 'Net paid is earnings plus reimbursements less deductions: the amount sent.', { size: 8, color: GREY })
+
+  const title = `Earnings statement ${statement.label} - ${statement.staffName}`
+  return {
+    body: renderPdf(doc.pages, title, `${companyName} · ${title} · Generated ${new Date().toISOString().slice(0, 10)}`),
+    contentType: 'application/pdf',
+    filename: `${fileStem(statement)}.pdf`,
+  }
+}
@@ -0,0 +1,67 @@
+import { CURRENCIES, type Currency, type FxRate, type SessionUser } from '@/lib/types'
+import { recordAudit } from './audit'
+import { diffFields } from './audit-chain'
+import { badRequest, notFound } from './http'
+import { newId, readDb, transact } from './store'
+
+// ---------------------------
+// FX rate table
+// ---------------------------
+//
+// Payments copy the rate they were sent at, so editing or deleting a row here
+// only affects payments saved (or re-dated) afterwards.
+
+const AUDITED_FIELDS = ['date', 'base', 'quote', 'rate'] as const satisfies ReadonlyArray<keyof FxRate>
+
+function parseFxRate(body: Record<string, unknown>): Omit<FxRate, 'id'> {
+  const { date, base, quote, rate } = body
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) badRequest('date must be YYYY-MM-DD')
+  if (!CURRENCIES.includes(base as never)) badRequest(`base must be one of ${CURRENCIES.join(', ')}`)
+  if (!CURRENCIES.includes(quote as never)) badRequest(`quote must be one of ${CURRENCIES.join(', ')}`)
+  if (base === quote) badRequest('base and quote must differ')
+  if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) badRequest('rate must be a positive number')
+  return { date, base: base as Currency, quote: quote as Currency, rate }
+}
+
+export async function listFxRates(): Promise<FxRate[]> {
+  const db = await readDb()
+  return [...db.fxRates].sort((a, b) => b.date.localeCompare(a.date) || a.quote.localeCompare(b.quote))
+}
+
+export function createFxRate(actor: SessionUser, body: Record<string, unknown>): Promise<FxRate> {
+  return transact((db) => {
+    const input = parseFxRate(body)
+    if (db.fxRates.some((r) => r.date === input.date && r.base === input.base && r.quote === input.quote)) {
+      badRequest(`A ${input.base}→${input.quote} rate for ${input.date} already exists`)
+    }
+    const created: FxRate = { ...input, id: newId('fx') }
+    db.fxRates.push(created)
+
+    recordAudit(db, {
+      actor: actor.fullName,
+      action: 'create',
+      entityType: 'fxRate',
+      entityId: created.id,
+      summary: `Added FX rate 1 ${created.base} = ${created.rate} ${created.quote} from ${created.date}`,
+      changes: diffFields(null, created, [...AUDITED_FIELDS]),
+    })
+    return created
+  })
+}
+
+export function deleteFxRate(actor: SessionUser, id: string): Promise<{ id: string }> {
+  return transact((db) => {
+    const existing = db.fxRates.find((r) => r.id === id) ?? notFound(`FX rate ${id} not found`)
+    db.fxRates = db.fxRates.filter((r) => r.id !== id)
+
+    recordAudit(db, {
+      actor: actor.fullName,
+      action: 'delete',
+      entityType: 'fxRate',
+      entityId: id,
+      summary: `Deleted FX rate 1 ${existing.base} = ${existing.rate} ${existing.quote} from ${existing.date}`,
+      changes: diffFields(existing, null, [...AUDITED_FIELDS]),
+    })
+    return { id }
+  })
+}
@@ -0,0 +1,65 @@
+// ---------------------------
+// Route handler helpers
+// ---------------------------
+
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+export function badRequest(message: string): never {
+  throw new HttpError(400, message)
+}
+
+export function notFound(message: string): never {
+  throw new HttpError(404, message)
+}
+
+/** Runs a handler body and turns its result (or an HttpError) into a JSON response. */
+export async function respond<T>(fn: () => Promise<T>, init?: { status?: number }): Promise<Response> {
+  try {
+    const result = await fn()
+    return Response.json(result, { status: init?.status ?? 200 })
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return Response.json({ error: err.message }, { status: err.status })
+    }
+    console.error(err)
+    return Response.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function readJson(req: Request): Promise<Record<string, unknown>> {
+  const body = await req.json().catch(() => null)
+  if (!body || typeof body !== 'object' || Array.isArray(body)) badRequest('Expected a JSON object body')
+  return body as Record<string, unknown>
+}
+
+export type FileResult = {
+  body: BodyInit
+  contentType: string
+  filename: string
+  /** `inline` lets the browser preview the file instead of saving it. */
+  disposition?: 'attachment' | 'inline'
+}
+
+/** Like `respond`, but for downloads: errors are still JSON, success is the raw file. */
+export async function respondFile(fn: () => Promise<FileResult>): Promise<Response> {
+  try {
+    const file = await fn()
+    return new Response(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `${file.disposition ?? 'attachment'}; filename="${file.filename.replace(/[^\x20-\x7e]|["\\]/g, '_')}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (err) {
+    return respond(() => Promise.reject(err))
+  }
+}
@@ -0,0 +1,31 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto'
+
+// ---------------------------
+// Password + token hashing
+// ---------------------------
+
+const KEY_LENGTH = 64
+
+/** Returns `scrypt$<salt>$<hash>` (hex) for storage. */
+export function hashPassword(password: string) {
+  const salt = randomBytes(16).toString('hex')
+  const hash = scryptSync(password, salt, KEY_LENGTH).toString('hex')
+  return `scrypt$${salt}$${hash}`
+}
+
+export function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+  const expected = Buffer.from(hash, 'hex')
+  const actual = scryptSync(password, salt, expected.length)
+  return timingSafeEqual(expected, actual)
+}
+
+export function newSessionToken() {
+  return randomBytes(32).toString('base64url')
+}
+
+/** Session tokens are stored hashed so a copy of the data file cannot be replayed as a cookie. */
+export function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
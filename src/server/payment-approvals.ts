@@ -0,0 +1,92 @@
+import { formatMoney } from '@/lib/format'
+import { convertAmount } from '@/lib/fx'
+import { PAYMENT_STATUS_LABELS, PAYMENT_TRANSITIONS } from '@/lib/payments'
+import { hasPermission } from '@/lib/permissions'
+import { PAYMENT_STATUSES, type Payment, type PaymentStatus, type SessionUser } from '@/lib/types'
+import { denyAccess } from './access'
+import { recordAudit } from './audit'
+import { diffFields } from './audit-chain'
+import { badRequest, notFound } from './http'
+import { readDb, transact, type Database } from './store'
+
+// ---------------------------
+// Payment approval workflow
+// ---------------------------
+//
+// Payments move one step at a time through PAYMENT_TRANSITIONS, and every step is
+// audited with its before/after status. At or above the approval threshold
+// (settings, in the base currency) whoever created or submitted a payment cannot
+// also approve it; a payment with no rate to the base currency counts as above.
+
+const MAX_NOTE_LENGTH = 500
+
+/** Whether `p` is at or above the approval threshold, so its preparer cannot sign it off alone. */
+export function needsSecondPerson(db: Database, p: Pick<Payment, 'amount' | 'currency' | 'dateSent'>) {
+  const { baseCurrency, approvalThreshold } = db.settings
+  const value = convertAmount(db.fxRates, p.amount, p.currency, baseCurrency, p.dateSent.slice(0, 10))
+  return value === null || value >= approvalThreshold
+}
+
+function parseStatus(value: unknown): PaymentStatus {
+  if (!PAYMENT_STATUSES.includes(value as never)) badRequest(`to must be one of ${PAYMENT_STATUSES.join(', ')}`)
+  return value as PaymentStatus
+}
+
+function parseNote(value: unknown, required: boolean) {
+  if (value !== undefined && value !== null && typeof value !== 'string') badRequest('note must be a string')
+  const note = (value ?? '').trim()
+  if (required && !note) badRequest('A note is required to return a payment to draft')
+  if (note.length > MAX_NOTE_LENGTH) badRequest(`The note must be at most ${MAX_NOTE_LENGTH} characters`)
+  return note || undefined
+}
+
+/** Moves a payment to its next status. Body: { to, note? }. */
+export async function transitionPayment(actor: SessionUser, id: string, body: Record<string, unknown>): Promise<Payment> {
+  const to = parseStatus(body.to)
+  const snapshot = (await readDb()).payments.find((p) => p.id === id) ?? notFound(`Payment ${id} not found`)
+  const step = PAYMENT_TRANSITIONS[snapshot.status][to]
+  if (step && !hasPermission(actor, step.permission)) {
+    return denyAccess(actor, { entityType: 'payment', entityId: id, description: `${step.label.toLowerCase()} payment ${id}` })
+  }
+
+  return transact((db) => {
+    const index = db.payments.findIndex((p) => p.id === id)
+    if (index === -1) notFound(`Payment ${id} not found`)
+    const existing = db.payments[index]
+    const transition = PAYMENT_TRANSITIONS[existing.status][to]
+    if (!transition || !hasPermission(actor, transition.permission)) {
+      badRequest(`A ${PAYMENT_STATUS_LABELS[existing.status].toLowerCase()} payment cannot move to ${PAYMENT_STATUS_LABELS[to].toLowerCase()}`)
+    }
+    const note = parseNote(body.note, Boolean(transition.needsNote))
+
+    const preparers = [existing.createdBy?.userId, existing.submittedBy?.userId]
+    if (to === 'approved' && preparers.includes(actor.userId) && needsSecondPerson(db, existing)) {
+      badRequest(
+        `Payments of ${formatMoney(db.settings.approvalThreshold, db.settings.baseCurrency)} or more need approval from someone other than the person who prepared them`
+      )
+    }
+
+    const now = new Date().toISOString()
+    const signoff = { userId: actor.userId, name: actor.fullName, at: now }
+    const updated: Payment = { ...existing, status: to, updatedAt: now }
+    if (to === 'pending_approval') updated.submittedBy = signoff
+    if (to === 'approved') updated.approvedBy = signoff
+    if (to === 'draft') {
+      updated.submittedBy = undefined
+      updated.approvedBy = undefined
+    }
+    db.payments[index] = updated
+
+    const staffName = db.staff.find((s) => s.id === existing.staffId)?.fullName || 'Staff'
+    recordAudit(db, {
+      timestamp: now,
+      actor: actor.fullName,
+      action: 'update',
+      entityType: 'payment',
+      entityId: id,
+      summary: `${transition.verb}: payment ${id} for ${staffName} (${formatMoney(existing.amount, existing.currency)})${note ? ` | Note: ${note}` : ''}`,
+      changes: diffFields(existing, updated, ['status']),
+    })
+    return updated
+  })
+}
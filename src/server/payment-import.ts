@@ -0,0 +1,241 @@
+import { createHash } from 'node:crypto'
+
+import { detectAnomalies, type AnomalyCandidate } from '@/lib/anomalies'
+import type { RateQuote } from '@/lib/fx'
+import { parseLines, payBreakdown } from '@/lib/pay-lines'
+import {
+  CURRENCIES,
+  PAYMENT_CATEGORIES,
+  PAYMENT_METHODS,
+  type ImportBatch,
+  type ImportPreview,
+  type ImportPreviewRow,
+  type PayLine,
+  type Payment,
+  type SessionUser,
+} from '@/lib/types'
+import { MONTH_PATTERN } from '@/lib/validation'
+import { recordAudit } from './audit'
+import { diffFields } from './audit-chain'
+import { parseCsv } from './csv'
+import { badRequest, HttpError } from './http'
+import { draftPayment, insertPayment, recordOverride } from './payments'
+import { newId, readDb, transact, type Database } from './store'
+
+// ---------------------------
+// CSV import of historical payments
+// ---------------------------
+//
+// Accepts the column layout written by the payments export (derived columns such
+// as baseAmount and receiptStatus are ignored). Preview and commit run the same
+// checks; committing stores the valid rows as one batch and skips the rest. Valid
+// rows that trip the duplicate and anomaly checks (against the ledger and earlier
+// rows of the file) are only stored when the importer overrides them by row number.
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024
+
+const REQUIRED_COLUMNS = ['staffName', 'monthEarned', 'dateSent', 'amount', 'method', 'category'] as const
+
+const AMOUNT_PATTERN = /^\d+(\.\d{1,2})?$/
+
+const BATCH_AUDITED_FIELDS = ['fileName', 'sha256', 'rowCount', 'skippedRows', 'overriddenRows'] as const satisfies ReadonlyArray<
+  keyof ImportBatch
+>
+
+type ImportFile = { name: string; text: string; sha256: string }
+
+async function readImportFile(file: unknown): Promise<ImportFile> {
+  if (!(file instanceof File)) badRequest('Expected a multipart "file" field')
+  if (file.size === 0) badRequest('The uploaded file is empty')
+  if (file.size > MAX_IMPORT_BYTES) badRequest('Import files must be 5 MB or smaller')
+  const buf = Buffer.from(await file.arrayBuffer())
+  return { name: file.name || 'import.csv', text: buf.toString('utf8'), sha256: createHash('sha256').update(buf).digest('hex') }
+}
+
+function rejectReimport(db: Database, upload: ImportFile) {
+  const previous = db.importBatches.find((b) => b.sha256 === upload.sha256)
+  if (previous) badRequest(`This file was already imported on ${previous.importedAt.slice(0, 10)} (batch ${previous.id})`)
+}
+
+// Case-insensitive lookup that returns the canonical spelling.
+function pick<T extends string>(allowed: readonly T[], value: string): T | undefined {
+  return allowed.find((a) => a.toLowerCase() === value.toLowerCase())
+}
+
+/** Validates every data row against the current ledger. Rows with no errors carry the payment that would be stored. */
+function analyzeRows(db: Database, text: string): ImportPreviewRow[] {
+  const [header, ...records] = parseCsv(text)
+  if (!header) badRequest('The file has no header row')
+  const columns = header.map((h) => h.trim())
+  const missing = REQUIRED_COLUMNS.filter((c) => !columns.includes(c))
+  if (missing.length) badRequest(`Missing column(s): ${missing.join(', ')}. Use the layout of the payments export.`)
+  if (records.length === 0) badRequest('The file has no data rows')
+
+  const seenIds = new Set<string>()
+  // Earlier valid rows, labelled by file row, so the anomaly checks see duplicates within the file too.
+  const earlierRows: Array<AnomalyCandidate & { id: string }> = []
+  return records.map((record, index): ImportPreviewRow => {
+    const get = (column: string) => (record[columns.indexOf(column)] ?? '').trim()
+    const errors: string[] = []
+    const staffName = get('staffName')
+
+    const paymentId = get('paymentId')
+    if (paymentId && db.payments.some((p) => p.id === paymentId)) errors.push(`Payment ${paymentId} is already in the ledger`)
+    if (paymentId && seenIds.has(paymentId)) errors.push(`Payment ${paymentId} appears more than once in the file`)
+    if (paymentId) seenIds.add(paymentId)
+
+    const matches = db.staff.filter((s) => s.fullName.trim().toLowerCase() === staffName.toLowerCase())
+    if (!staffName) errors.push('staffName is required')
+    else if (matches.length === 0) errors.push(`No staff member named "${staffName}"`)
+    else if (matches.length > 1) errors.push(`${matches.length} staff members are named "${staffName}"`)
+
+    const monthEarned = get('monthEarned')
+    if (!MONTH_PATTERN.test(monthEarned)) errors.push(`monthEarned "${monthEarned}" is not YYYY-MM`)
+
+    const dateSent = get('dateSent')
+    if (Number.isNaN(Date.parse(dateSent))) errors.push(`dateSent "${dateSent}" is not a date`)
+
+    const amountText = get('amount').replace(/,/g, '')
+    const amount = Number(amountText)
+    if (!AMOUNT_PATTERN.test(amountText) || amount <= 0) errors.push(`amount "${get('amount')}" must be a positive number with at most 2 decimals`)
+
+    const currency = get('currency') ? pick(CURRENCIES, get('currency')) : 'USD'
+    if (!currency) errors.push(`currency "${get('currency')}" must be one of ${CURRENCIES.join(', ')}`)
+    const receiveCurrency = get('receiveCurrency') ? pick(CURRENCIES, get('receiveCurrency')) : currency
+    if (get('receiveCurrency') && !receiveCurrency) errors.push(`receiveCurrency "${get('receiveCurrency')}" must be one of ${CURRENCIES.join(', ')}`)
+
+    const method = pick(PAYMENT_METHODS, get('method'))
+    if (!method) errors.push(`method "${get('method')}" must be one of ${PAYMENT_METHODS.join(', ')}`)
+    const category = pick(PAYMENT_CATEGORIES, get('category'))
+    if (!category) errors.push(`category "${get('category')}" must be one of ${PAYMENT_CATEGORIES.join(', ')}`)
+
+    // Itemised rows must reconcile: their lines add up to the gross (when given) and to the amount sent.
+    let lines: PayLine[] | undefined
+    if (get('lineItems')) {
+      lines = parseLines(get('lineItems')) ?? undefined
+      const pay = lines && payBreakdown(lines)
+      const gross = Number(get('grossAmount').replace(/,/g, ''))
+      if (!pay) errors.push(`lineItems "${get('lineItems')}" must read like "Earning: Salary 1200; Deduction: Tax 50"`)
+      else if (get('grossAmount') && pay.gross !== gross) errors.push(`lineItems add up to a gross of ${pay.gross}, not grossAmount ${get('grossAmount')}`)
+      else if (amount > 0 && pay.net !== amount) errors.push(`lineItems add up to a net of ${pay.net}, not amount ${get('amount')}`)
+    }
+
+    // A rate (or received amount) in the file wins over the rate table, which may not reach back that far.
+    let quote: RateQuote | undefined
+    const fxRate = Number(get('fxRate'))
+    const receiveAmount = Number(get('receiveAmount').replace(/,/g, ''))
+    const rateDate = /^\d{4}-\d{2}-\d{2}$/.test(get('fxRateDate')) ? get('fxRateDate') : dateSent.slice(0, 10)
+    if (get('fxRate')) {
+      if (!(fxRate > 0)) errors.push(`fxRate "${get('fxRate')}" must be a positive number`)
+      else quote = { rate: fxRate, date: rateDate }
+    } else if (get('receiveAmount') && amount > 0) {
+      if (!(receiveAmount > 0)) errors.push(`receiveAmount "${get('receiveAmount')}" must be a positive number`)
+      else quote = { rate: Number((receiveAmount / amount).toPrecision(8)), date: rateDate }
+    }
+
+    const row = { row: index + 2, staffName, errors, warnings: [] }
+    if (errors.length) return row
+    try {
+      const payment = draftPayment(
+        db,
+        {
+          staffId: matches[0].id,
+          monthEarned,
+          dateSent,
+          amount,
+          lines,
+          currency,
+          receiveCurrency,
+          method,
+          category,
+          referenceId: get('referenceId'),
+          notes: get('notes'),
+          status: 'sent', // imported rows are transfers that already happened
+        },
+        quote
+      )
+      const warnings = detectAnomalies(payment, [...db.payments, ...earlierRows])
+      earlierRows.push({ ...payment, id: `file row ${row.row}` })
+      return { ...row, payment, warnings }
+    } catch (err) {
+      if (err instanceof HttpError) return { ...row, errors: [err.message] }
+      throw err
+    }
+  })
+}
+
+export async function previewImport(file: unknown): Promise<ImportPreview> {
+  const upload = await readImportFile(file)
+  const db = await readDb()
+  rejectReimport(db, upload)
+  const rows = analyzeRows(db, upload.text)
+  const validCount = rows.filter((r) => r.payment).length
+  const warningCount = rows.filter((r) => r.payment && r.warnings.length).length
+  return { fileName: upload.name, rows, validCount, errorCount: rows.length - validCount, warningCount }
+}
+
+/** The `overrideRows` form field: comma-separated file row numbers to import despite their warnings. */
+function parseOverrideRows(value: unknown): number[] {
+  if (value === null || value === undefined || value === '') return []
+  if (typeof value !== 'string' || !/^\d+(,\d+)*$/.test(value)) badRequest('overrideRows must be comma-separated row numbers')
+  return value.split(',').map(Number)
+}
+
+/**
+ * Stores every valid row in one write, each with an audit entry naming the batch and
+ * file row. Rows with warnings are skipped unless listed in `overrideRows`, in which
+ * case the override is audited alongside the payment.
+ */
+export async function commitImport(
+  actor: SessionUser,
+  file: unknown,
+  overrideRows?: unknown
+): Promise<{ batch: ImportBatch; payments: Payment[] }> {
+  const upload = await readImportFile(file)
+  const overridden = new Set(parseOverrideRows(overrideRows))
+  return transact((db) => {
+    rejectReimport(db, upload)
+
+    const rows = analyzeRows(db, upload.text)
+    const valid = rows.flatMap((r) =>
+      r.payment && (!r.warnings.length || overridden.has(r.row)) ? [{ row: r.row, payment: r.payment, warnings: r.warnings }] : []
+    )
+    if (valid.length === 0) badRequest('No valid rows to import')
+    const imported = new Set(valid.map((r) => r.row))
+
+    const now = new Date().toISOString()
+    const batchId = newId('imp')
+    const draftBatch: ImportBatch = {
+      id: batchId,
+      fileName: upload.name,
+      sha256: upload.sha256,
+      importedAt: now,
+      importedBy: actor.fullName,
+      rowCount: rows.length,
+      paymentIds: [],
+      skippedRows: rows.filter((r) => !imported.has(r.row)).map((r) => r.row),
+      overriddenRows: valid.filter((r) => r.warnings.length).map((r) => r.row),
+    }
+    recordAudit(db, {
+      timestamp: now,
+      actor: actor.fullName,
+      action: 'create',
+      entityType: 'importBatch',
+      entityId: batchId,
+      summary: `Imported ${valid.length} payment(s) from ${upload.name}${
+        draftBatch.skippedRows.length ? `, skipped ${draftBatch.skippedRows.length} row(s) with errors or warnings` : ''
+      }${draftBatch.overriddenRows?.length ? `, ${draftBatch.overriddenRows.length} despite warnings` : ''}`,
+      changes: diffFields(null, draftBatch, [...BATCH_AUDITED_FIELDS]),
+    })
+
+    const payments = valid.map((r) => {
+      const context = `Imported from batch ${batchId}, row ${r.row}`
+      const created = insertPayment(db, actor, { ...r.payment, importBatchId: batchId }, context)
+      recordOverride(db, actor, created, r.warnings, context)
+      return created
+    })
+    const batch = { ...draftBatch, paymentIds: payments.map((p) => p.id) }
+    db.importBatches.push(batch)
+    return { batch, payments }
+  })
+}
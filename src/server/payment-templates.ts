@@ -0,0 +1,235 @@
+import { repaymentsDue } from '@/lib/advances'
+import { formatMoney } from '@/lib/format'
+import { singleLine } from '@/lib/pay-lines'
+import { describeSchedule, dueOccurrences, monthEarnedFor } from '@/lib/recurring'
+import {
+  CURRENCIES,
+  PAYMENT_CATEGORIES,
+  PAYMENT_METHODS,
+  type Currency,
+  type Payment,
+  type PaymentDraft,
+  type PaymentCategory,
+  type PaymentMethod,
+  type PaymentTemplate,
+  type PaymentTemplateInput,
+  type RecurrenceFrequency,
+  type SessionUser,
+} from '@/lib/types'
+import { describeErrors, validateTemplate } from '@/lib/validation'
+import { recordAudit } from './audit'
+import { diffFields } from './audit-chain'
+import { badRequest, notFound } from './http'
+import { checkAnomalies, draftPayment, insertPayment, recordOverride } from './payments'
+import { newId, readDb, transact, type Database } from './store'
+
+// ---------------------------
+// Recurring payment templates
+// ---------------------------
+//
+// A template only describes a payment and when it falls due. Nothing is created until
+// someone confirms an occurrence, which records a payment waiting for approval like a
+// payroll run's. Salary payments deduct any advance repayments due, as payroll runs do.
+
+const AUDITED_FIELDS = [
+  'staffId',
+  'amount',
+  'currency',
+  'receiveCurrency',
+  'method',
+  'category',
+  'notes',
+  'frequency',
+  'dayOfMonth',
+  'startDate',
+  'endDate',
+  'paysPreviousMonth',
+  'skippedDates',
+] as const satisfies ReadonlyArray<keyof PaymentTemplate>
+
+/** Validates a full template payload (for updates, the patch merged over the stored record). */
+function parseTemplate(body: Record<string, unknown>, db: Database): PaymentTemplateInput {
+  const { staffId, currency, method, category, notes } = body
+  const receiveCurrency = body.receiveCurrency ?? currency
+  const errors = validateTemplate(body)
+  if (Object.keys(errors).length) badRequest(describeErrors(errors))
+  if (typeof staffId !== 'string' || !db.staff.some((s) => s.id === staffId)) badRequest('staffId must reference a staff record')
+  if (!CURRENCIES.includes(currency as never)) badRequest(`currency must be one of ${CURRENCIES.join(', ')}`)
+  if (!CURRENCIES.includes(receiveCurrency as never)) badRequest(`receiveCurrency must be one of ${CURRENCIES.join(', ')}`)
+  if (!PAYMENT_METHODS.includes(method as never)) badRequest(`method must be one of ${PAYMENT_METHODS.join(', ')}`)
+  if (!PAYMENT_CATEGORIES.includes(category as never)) badRequest(`category must be one of ${PAYMENT_CATEGORIES.join(', ')}`)
+  if (notes !== undefined && notes !== null && typeof notes !== 'string') badRequest('notes must be a string')
+
+  const frequency = body.frequency as RecurrenceFrequency
+  return {
+    staffId,
+    amount: body.amount as number,
+    currency: currency as Currency,
+    receiveCurrency: receiveCurrency as Currency,
+    method: method as PaymentMethod,
+    category: category as PaymentCategory,
+    notes: (notes as string | undefined)?.trim() || undefined,
+    frequency,
+    dayOfMonth: frequency === 'monthly' ? (body.dayOfMonth as number) : undefined,
+    startDate: body.startDate as string,
+    endDate: (body.endDate as string | undefined) || undefined,
+    paysPreviousMonth: body.paysPreviousMonth === true,
+  }
+}
+
+function findTemplate(db: Database, id: string) {
+  return db.paymentTemplates.find((t) => t.id === id) ?? notFound(`Recurring template ${id} not found`)
+}
+
+function describeTemplate(db: Database, t: PaymentTemplate) {
+  const staffName = db.staff.find((s) => s.id === t.staffId)?.fullName || t.staffId
+  return `${t.category} of ${formatMoney(t.amount, t.currency)} to ${staffName}, ${describeSchedule(t).toLowerCase()}`
+}
+
+/** The template's occurrence on `date`, refused unless it is due today or earlier and still open. */
+function requireDue(db: Database, t: PaymentTemplate, date: unknown) {
+  if (typeof date !== 'string') badRequest('date must be YYYY-MM-DD')
+  const today = new Date().toISOString().slice(0, 10)
+  const due = dueOccurrences([t], db.payments, today).find((o) => o.date === date)
+  if (!due) badRequest(`Recurring template ${t.id} has nothing due on ${date}`)
+  return due
+}
+
+function replaceTemplate(db: Database, updated: PaymentTemplate) {
+  db.paymentTemplates = db.paymentTemplates.map((t) => (t.id === updated.id ? updated : t))
+}
+
+export async function listPaymentTemplates(): Promise<PaymentTemplate[]> {
+  const db = await readDb()
+  return [...db.paymentTemplates].sort((a, b) => a.startDate.localeCompare(b.startDate) || a.id.localeCompare(b.id))
+}
+
+export function createPaymentTemplate(actor: SessionUser, body: Record<string, unknown>): Promise<PaymentTemplate> {
+  return transact((db) => {
+    const now = new Date().toISOString()
+    const created: PaymentTemplate = {
+      ...parseTemplate(body, db),
+      id: newId('tpl'),
+      skippedDates: [],
+      createdBy: actor.fullName,
+      createdAt: now,
+      updatedAt: now,
+    }
+    db.paymentTemplates.push(created)
+
+    recordAudit(db, {
+      timestamp: now,
+      actor: actor.fullName,
+      action: 'create',
+      entityType: 'paymentTemplate',
+      entityId: created.id,
+      summary: `Set up a recurring ${describeTemplate(db, created)}`,
+      changes: diffFields(null, created, [...AUDITED_FIELDS]),
+    })
+    return created
+  })
+}
+
+export function updatePaymentTemplate(actor: SessionUser, id: string, patch: Record<string, unknown>): Promise<PaymentTemplate> {
+  return transact((db) => {
+    const existing = findTemplate(db, id)
+    const now = new Date().toISOString()
+    const updated: PaymentTemplate = { ...existing, ...parseTemplate({ ...existing, ...patch }, db), updatedAt: now }
+    replaceTemplate(db, updated)
+
+    const changes = diffFields(existing, updated, [...AUDITED_FIELDS])
+    recordAudit(db, {
+      timestamp: now,
+      actor: actor.fullName,
+      action: 'update',
+      entityType: 'paymentTemplate',
+      entityId: id,
+      summary: changes.length
+        ? `Updated recurring template ${id}: ${changes.map((c) => c.field).join(', ')}`
+        : `Saved recurring template ${id} (no changes)`,
+      changes,
+    })
+    return updated
+  })
+}
+
+// Payments already confirmed from the template keep their link; it only stops anything new falling due.
+export function deletePaymentTemplate(actor: SessionUser, id: string): Promise<{ id: string }> {
+  return transact((db) => {
+    const existing = findTemplate(db, id)
+    db.paymentTemplates = db.paymentTemplates.filter((t) => t.id !== id)
+
+    recordAudit(db, {
+      actor: actor.fullName,
+      action: 'delete',
+      entityType: 'paymentTemplate',
+      entityId: id,
+      summary: `Deleted the recurring ${describeTemplate(db, existing)}`,
+      changes: diffFields(existing, null, [...AUDITED_FIELDS]),
+    })
+    return { id }
+  })
+}
+
+/**
+ * Records the occurrence on `body.date` as a payment submitted for approval, after the
+ * same duplicate and anomaly checks as any new payment (overridden by `body.overrideWarnings`).
+ */
+export function confirmTemplateOccurrence(actor: SessionUser, id: string, body: Record<string, unknown>): Promise<Payment> {
+  return transact((db) => {
+    const t = findTemplate(db, id)
+    const { date } = requireDue(db, t, body.date)
+    const monthEarned = monthEarnedFor(t, date)
+    const lines = [
+      ...singleLine(t.category, t.amount),
+      ...(t.category === 'Salary' ? repaymentsDue(db.advances, db.payments, { staffId: t.staffId, monthEarned, currency: t.currency }) : []),
+    ]
+    // Sent at midday on the scheduled date, or now if that is still a few hours away.
+    const dateSent = new Date(Math.min(Date.parse(`${date}T12:00:00.000Z`), Date.now())).toISOString()
+
+    const draft: PaymentDraft = {
+      ...draftPayment(db, {
+        staffId: t.staffId,
+        monthEarned,
+        dateSent,
+        amount: t.amount,
+        lines,
+        currency: t.currency,
+        receiveCurrency: t.receiveCurrency,
+        method: t.method,
+        category: t.category,
+        notes: t.notes,
+        status: 'pending_approval',
+      }),
+      templateId: id,
+      scheduledFor: date,
+    }
+    const anomalies = checkAnomalies(db, draft, body)
+    const context = `Recurring template ${id}, scheduled ${date}`
+    const created = insertPayment(db, actor, draft, context)
+    recordOverride(db, actor, created, anomalies, context)
+    return created
+  })
+}
+
+/** Marks the occurrence on `body.date` as not being paid, so it stops showing as due. */
+export function skipTemplateOccurrence(actor: SessionUser, id: string, body: Record<string, unknown>): Promise<PaymentTemplate> {
+  return transact((db) => {
+    const existing = findTemplate(db, id)
+    const { date } = requireDue(db, existing, body.date)
+    const now = new Date().toISOString()
+    const updated: PaymentTemplate = { ...existing, skippedDates: [...existing.skippedDates, date].sort(), updatedAt: now }
+    replaceTemplate(db, updated)
+
+    recordAudit(db, {
+      timestamp: now,
+      actor: actor.fullName,
+      action: 'update',
+      entityType: 'paymentTemplate',
+      entityId: id,
+      summary: `Skipped the ${date} payment of recurring ${describeTemplate(db, existing)}`,
+      changes: diffFields(existing, updated, ['skippedDates']),
+    })
+    return updated
+  })
+}
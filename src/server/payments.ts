@@ -0,0 +1,444 @@
+import { amountDeducted } from '@/lib/advances'
+import { detectAnomalies, type AnomalyCandidate } from '@/lib/anomalies'
+import { formatMoney } from '@/lib/format'
+import { convertAmount, findRate, roundMoney, type RateQuote } from '@/lib/fx'
+import { filterLedger, type LedgerFilters } from '@/lib/ledger'
+import { describeLines, isItemised, payBreakdown, singleLine } from '@/lib/pay-lines'
+import { isPaid, PAYMENT_STATUS_LABELS } from '@/lib/payments'
+import { hasPermission } from '@/lib/permissions'
+import { paymentGuard } from '@/lib/staff'
+import { describeErrors, validatePayment } from '@/lib/validation'
+import {
+  ANOMALY_KINDS,
+  CURRENCIES,
+  PAYMENT_CATEGORIES,
+  PAYMENT_METHODS,
+  type Advance,
+  type AnomalyKind,
+  type Currency,
+  type Payment,
+  type PayLine,
+  type PaymentAnomaly,
+  type PaymentCategory,
+  type PaymentDraft,
+  type NewPaymentInput,
+  type PaymentInput,
+  type PaymentStatus,
+  type SessionUser,
+} from '@/lib/types'
+import { denyAccess, scopePayments } from './access'
+import { recordAudit } from './audit'
+import { diffFields } from './audit-chain'
+import { toCsv } from './csv'
+import { badRequest, HttpError, notFound, type FileResult } from './http'
+import { needsSecondPerson } from './payment-approvals'
+import { newId, readDb, transact, type Database } from './store'
+
+// ---------------------------
+// Payments
+// ---------------------------
+
+// Fields captured as before/after values in the audit trail.
+export const AUDITED_FIELDS = [
+  'staffId',
+  'monthEarned',
+  'dateSent',
+  'amount',
+  'lines',
+  'currency',
+  'receiveCurrency',
+  'receiveAmount',
+  'fxRate',
+  'method',
+  'category',
+  'referenceId',
+  'notes',
+  'payrollRunId',
+  'importBatchId',
+  'templateId',
+  'scheduledFor',
+  'status',
+] as const satisfies ReadonlyArray<keyof Payment>
+
+// Changing any of these after submission sends the payment back to draft for a fresh approval;
+// once it is sent they are fixed.
+const APPROVED_FIELDS = [
+  'staffId',
+  'monthEarned',
+  'dateSent',
+  'amount',
+  'lines',
+  'currency',
+  'receiveCurrency',
+  'method',
+  'category',
+] as const satisfies ReadonlyArray<keyof Payment>
+
+// Changing any of these re-runs the duplicate and anomaly checks.
+const ANOMALY_FIELDS = ['staffId', 'monthEarned', 'category', 'amount', 'currency', 'referenceId'] as const satisfies ReadonlyArray<
+  keyof Payment
+>
+
+const INITIAL_STATUSES = ['draft', 'pending_approval', 'sent'] as const satisfies ReadonlyArray<NewPaymentInput['status']>
+
+type PricedPayment = Omit<PaymentDraft, 'status'>
+
+/** An optional string field of a request body; empty counts as absent. */
+export function optionalString(v: unknown, field: string) {
+  if (v === undefined || v === null || v === '') return undefined
+  if (typeof v !== 'string') badRequest(`${field} must be a string`)
+  return v
+}
+
+/** Validates a full payment payload (for updates, the patch merged over the stored record, with its id). */
+function parsePayment(body: Record<string, unknown>, db: Database, paymentId?: string): PaymentInput {
+  const { staffId, monthEarned, dateSent, amount, currency, method, category } = body
+  const receiveCurrency = body.receiveCurrency ?? currency
+
+  const errors = validatePayment(body)
+  if (Object.keys(errors).length) badRequest(describeErrors(errors))
+  if (typeof staffId !== 'string' || !db.staff.some((s) => s.id === staffId)) badRequest('staffId must reference a staff record')
+  if (!CURRENCIES.includes(currency as never)) badRequest(`currency must be one of ${CURRENCIES.join(', ')}`)
+  if (!CURRENCIES.includes(receiveCurrency as never)) badRequest(`receiveCurrency must be one of ${CURRENCIES.join(', ')}`)
+  if (!PAYMENT_METHODS.includes(method as never)) badRequest(`method must be one of ${PAYMENT_METHODS.join(', ')}`)
+  if (!PAYMENT_CATEGORIES.includes(category as never)) badRequest(`category must be one of ${PAYMENT_CATEGORIES.join(', ')}`)
+
+  const lines = Array.isArray(body.lines)
+    ? (body.lines as PayLine[]).map(({ kind, label, amount, advanceId }) => ({
+        kind,
+        label: label.trim(),
+        amount,
+        ...(advanceId ? { advanceId: String(advanceId) } : {}),
+      }))
+    : singleLine(category as PaymentCategory, amount as number)
+  assertRepayments(db, { staffId, currency: currency as Currency, lines }, paymentId)
+
+  return {
+    staffId,
+    monthEarned: monthEarned as string,
+    dateSent: new Date(dateSent as string).toISOString(),
+    amount: payBreakdown(lines).net,
+    lines,
+    currency: currency as Currency,
+    receiveCurrency: receiveCurrency as Currency,
+    method: method as PaymentInput['method'],
+    category: category as PaymentInput['category'],
+    referenceId: optionalString(body.referenceId, 'referenceId')?.trim(),
+    notes: optionalString(body.notes, 'notes'),
+  }
+}
+
+/**
+ * A line naming an advance must be a deduction on a payment to the same staff member
+ * in the advance's currency, and together with every other payment's repayments it may
+ * not take back more than was lent.
+ */
+function assertRepayments(db: Database, payment: Pick<PaymentInput, 'staffId' | 'currency' | 'lines'>, paymentId?: string) {
+  const taking = new Map<string, { advance: Advance; amount: number }>()
+  for (const line of payment.lines) {
+    if (!line.advanceId) continue
+    const advance = db.advances.find((a) => a.id === line.advanceId)
+    if (!advance) badRequest(`Advance ${line.advanceId} not found`)
+    if (line.kind !== 'deduction') badRequest(`Only a deduction line can repay advance ${advance.id}`)
+    if (advance.staffId !== payment.staffId) badRequest(`Advance ${advance.id} was made to someone else`)
+    if (advance.currency !== payment.currency) badRequest(`Advance ${advance.id} is repaid in ${advance.currency}`)
+    taking.set(advance.id, { advance, amount: roundMoney((taking.get(advance.id)?.amount ?? 0) + line.amount) })
+  }
+  for (const { advance, amount } of taking.values()) {
+    const owed = roundMoney(advance.principal - amountDeducted(advance.id, db.payments, paymentId))
+    if (amount > owed) {
+      badRequest(`Advance ${advance.id} has ${formatMoney(owed, advance.currency)} left to repay; this payment deducts ${formatMoney(amount, advance.currency)}`)
+    }
+  }
+}
+
+/**
+ * Captures the FX rate for the payment's send date from the rate table. An edit
+ * that keeps the currency pair and send date keeps the rate already on record,
+ * so later changes to the table never rewrite history.
+ */
+function withFx(input: PaymentInput, db: Database, existing?: Payment): PricedPayment {
+  const onDate = input.dateSent.slice(0, 10)
+  const unchanged =
+    existing &&
+    existing.currency === input.currency &&
+    existing.receiveCurrency === input.receiveCurrency &&
+    existing.dateSent.slice(0, 10) === onDate
+  const quote = unchanged
+    ? { rate: existing.fxRate, date: existing.fxRateDate }
+    : findRate(db.fxRates, input.currency, input.receiveCurrency, onDate) ??
+      badRequest(`No FX rate for ${input.currency}→${input.receiveCurrency} on or before ${onDate}. Add one under FX Rates.`)
+
+  return withQuote(input, quote)
+}
+
+function withQuote(input: PaymentInput, quote: RateQuote): PricedPayment {
+  return { ...input, fxRate: quote.rate, fxRateDate: quote.date, receiveAmount: roundMoney(input.amount * quote.rate) }
+}
+
+/** Rejects payments for months after the staff member's termination; the softer warnings are left to the UI. */
+function assertPayable(db: Database, input: PaymentInput) {
+  const staff = db.staff.find((s) => s.id === input.staffId)
+  const guard = staff && paymentGuard(staff, input.monthEarned)
+  if (guard?.level === 'block') badRequest(guard.message)
+}
+
+function parseOverride(value: unknown): AnomalyKind[] {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value) || value.some((k) => !ANOMALY_KINDS.includes(k))) {
+    badRequest(`overrideWarnings must be a list of ${ANOMALY_KINDS.join(', ')}`)
+  }
+  return value
+}
+
+/**
+ * Runs the duplicate and anomaly checks against the stored ledger. Refuses the
+ * payment (409) unless `body.overrideWarnings` names every kind that was hit, and
+ * returns the hits so the override can be audited.
+ */
+export function checkAnomalies(db: Database, candidate: AnomalyCandidate, body: Record<string, unknown>): PaymentAnomaly[] {
+  const anomalies = detectAnomalies(candidate, db.payments)
+  const overridden = parseOverride(body.overrideWarnings)
+  const open = anomalies.filter((a) => !overridden.includes(a.kind))
+  if (open.length) {
+    throw new HttpError(409, `${open.map((a) => a.message).join(' ')} Review and confirm the override to record it anyway.`)
+  }
+  return anomalies
+}
+
+/** Audits a payment recorded despite warnings, right after the entry that recorded it. */
+export function recordOverride(db: Database, actor: SessionUser, payment: Payment, anomalies: PaymentAnomaly[], context?: string) {
+  if (!anomalies.length) return
+  recordAudit(db, {
+    actor: actor.fullName,
+    action: 'override',
+    entityType: 'payment',
+    entityId: payment.id,
+    summary: `Recorded payment ${payment.id} despite ${anomalies.length} warning(s): ${anomalies.map((a) => a.message).join(' ')}${
+      context ? ` | ${context}` : ''
+    }`,
+    changes: [{ field: 'overrideWarnings', before: null, after: anomalies.map((a) => a.kind).join(', ') }],
+  })
+}
+
+function parseInitialStatus(value: unknown): PaymentStatus {
+  if (value === undefined || value === null || value === '') return 'draft'
+  if (!INITIAL_STATUSES.includes(value as never)) badRequest(`A new payment's status must be one of ${INITIAL_STATUSES.join(', ')}`)
+  return value as PaymentStatus
+}
+
+/**
+ * Validates a new payment payload and captures its FX rate. `quote` overrides the
+ * rate table, for historical payments whose rate is already known.
+ */
+export function draftPayment(db: Database, body: Record<string, unknown>, quote?: RateQuote): PaymentDraft {
+  const input = parsePayment(body, db)
+  assertPayable(db, input)
+  const priced = quote && input.currency !== input.receiveCurrency ? withQuote(input, quote) : withFx(input, db)
+  return { ...priced, status: parseInitialStatus(body.status) }
+}
+
+function byDateSentDesc(a: Payment, b: Payment) {
+  return +new Date(b.dateSent) - +new Date(a.dateSent)
+}
+
+export async function listPayments(user: SessionUser): Promise<Payment[]> {
+  const db = await readDb()
+  return scopePayments(user, db.payments).sort(byDateSentDesc)
+}
+
+/** Loads one payment, rejecting (and auditing) employees who ask for someone else's. */
+export async function getPayment(user: SessionUser, id: string): Promise<Payment> {
+  const db = await readDb()
+  const payment = db.payments.find((p) => p.id === id) ?? notFound(`Payment ${id} not found`)
+  if (scopePayments(user, [payment]).length === 0) {
+    return denyAccess(user, { entityType: 'payment', entityId: id, description: `payment ${id}` })
+  }
+  return payment
+}
+
+/** Exports the ledger as filtered and sorted on screen (every page), limited to what `user` may see. */
+export async function exportPaymentsCsv(user: SessionUser, filters: LedgerFilters, base?: string): Promise<FileResult> {
+  // Anyone may export their own payments; a ledger export needs the exports permission.
+  if (hasPermission(user, 'payments.view') && !hasPermission(user, 'exports')) {
+    return denyAccess(user, { entityType: 'payment', entityId: 'export', description: 'a ledger export' })
+  }
+  const db = await readDb()
+  const baseCurrency = (CURRENCIES as readonly string[]).includes(base ?? '') ? (base as Currency) : db.settings.baseCurrency
+  const toBase = (p: Payment) => convertAmount(db.fxRates, p.amount, p.currency, baseCurrency, p.dateSent.slice(0, 10))
+  const staffName = (id: string) => db.staff.find((s) => s.id === id)?.fullName || ''
+  const rows = filterLedger(scopePayments(user, db.payments), filters, { staffName, toBase })
+
+  const csv = toCsv(
+    [
+      'paymentId',
+      'staffName',
+      'monthEarned',
+      'dateSent',
+      'grossAmount',
+      'deductions',
+      'amount',
+      'currency',
+      'employerFees',
+      'lineItems',
+      'receiveAmount',
+      'receiveCurrency',
+      'fxRate',
+      'fxRateDate',
+      'baseAmount',
+      'baseCurrency',
+      'method',
+      'category',
+      'referenceId',
+      'notes',
+      'receiptStatus',
+      'status',
+    ],
+    rows.map((p) => {
+      const pay = payBreakdown(p.lines)
+      return [
+        p.id,
+        staffName(p.staffId),
+        p.monthEarned,
+        p.dateSent,
+        String(pay.gross),
+        String(pay.deductions),
+        String(p.amount),
+        p.currency,
+        String(pay.fees),
+        describeLines(p.lines),
+        String(p.receiveAmount),
+        p.receiveCurrency,
+        String(p.fxRate),
+        p.fxRateDate,
+        String(toBase(p) ?? ''),
+        baseCurrency,
+        p.method,
+        p.category,
+        p.referenceId || '',
+        p.notes || '',
+        p.receiptStatus,
+        p.status,
+      ]
+    })
+  )
+  return {
+    body: csv,
+    contentType: 'text/csv;charset=utf-8',
+    filename: `loadharbour-payroll-payments-${new Date().toISOString().slice(0, 10)}.csv`,
+  }
+}
+
+/**
+ * Appends a drafted payment with its audit entry inside an open transaction. `context` is added to the audit summary.
+ * A payment recorded as already sent skips approval, so that is only allowed below the approval threshold; anything
+ * at or above it is submitted for approval instead, whoever creates it.
+ */
+export function insertPayment(db: Database, actor: SessionUser, draft: PaymentDraft, context?: string): Payment {
+  const now = new Date().toISOString()
+  const signoff = { userId: actor.userId, name: actor.fullName, at: now }
+  const status: PaymentStatus =
+    draft.status === 'sent' && needsSecondPerson(db, draft) ? 'pending_approval' : draft.status
+  const created: Payment = {
+    ...draft,
+    status,
+    createdBy: signoff,
+    submittedBy: status === 'pending_approval' || status === 'sent' ? signoff : undefined,
+    approvedBy: status === 'sent' ? signoff : undefined,
+    id: newId('p'),
+    receiptStatus: 'missing',
+    createdAt: now,
+    updatedAt: now,
+  }
+  db.payments.push(created)
+
+  const staffName = db.staff.find((s) => s.id === created.staffId)?.fullName || 'Staff'
+  recordAudit(db, {
+    timestamp: now,
+    actor: actor.fullName,
+    action: 'create',
+    entityType: 'payment',
+    entityId: created.id,
+    summary: `Created payment ${created.id} for ${staffName} (${formatMoney(created.amount, created.currency)}) | Month earned ${created.monthEarned} | ${
+      PAYMENT_STATUS_LABELS[created.status]
+    }${
+      context ? ` | ${context}` : ''
+    }`,
+    changes: diffFields(null, created, [...AUDITED_FIELDS]),
+  })
+  if (status === 'sent') {
+    const threshold = formatMoney(db.settings.approvalThreshold, db.settings.baseCurrency)
+    recordAudit(db, {
+      timestamp: now,
+      actor: actor.fullName,
+      action: 'update',
+      entityType: 'payment',
+      entityId: created.id,
+      summary: `Approved: payment ${created.id} for ${staffName} (${formatMoney(created.amount, created.currency)}) | recorded as already sent below the ${threshold} approval threshold`,
+      changes: diffFields({ ...created, approvedBy: undefined }, created, ['approvedBy']),
+    })
+  }
+  return created
+}
+
+export function createPayment(actor: SessionUser, body: Record<string, unknown>): Promise<Payment> {
+  return transact((db) => {
+    const draft = draftPayment(db, body)
+    const anomalies = checkAnomalies(db, draft, body)
+    const created = insertPayment(db, actor, draft)
+    recordOverride(db, actor, created, anomalies)
+    return created
+  })
+}
+
+export function updatePayment(actor: SessionUser, id: string, patch: Record<string, unknown>): Promise<Payment> {
+  return transact((db) => {
+    const index = db.payments.findIndex((p) => p.id === id)
+    if (index === -1) notFound(`Payment ${id} not found`)
+    const existing = db.payments[index]
+
+    // Status and sign-offs only move through the approval workflow, never through an edit.
+    const now = new Date().toISOString()
+    const merged: Record<string, unknown> = { ...existing, ...patch }
+    // A bare amount replaces the single line of a payment entered as one amount; an itemised payment is edited line by line.
+    if (patch.amount !== undefined && patch.lines === undefined) {
+      if (isItemised(existing.lines) && patch.amount !== existing.amount) {
+        badRequest(`Payment ${id} is itemised (${describeLines(existing.lines)}); send its lines instead of an amount`)
+      }
+      merged.lines = null
+    }
+    const input = parsePayment(merged, db, id)
+    // Payments recorded before a termination stay editable; only moving one onto a blocked month is refused.
+    if (input.staffId !== existing.staffId || input.monthEarned !== existing.monthEarned) assertPayable(db, input)
+    let updated: Payment = { ...existing, ...withFx(input, db, existing), updatedAt: now }
+    const approvedChanges = diffFields(existing, updated, [...APPROVED_FIELDS])
+    if (isPaid(existing) && approvedChanges.length) {
+      badRequest(
+        `Payment ${id} is ${PAYMENT_STATUS_LABELS[existing.status].toLowerCase()}, so its ${approvedChanges
+          .map((c) => c.field)
+          .join(', ')} can no longer change. Delete it and record the correct payment instead.`
+      )
+    }
+    const reopened =
+      (existing.status === 'pending_approval' || existing.status === 'approved') && approvedChanges.length > 0
+    if (reopened) updated = { ...updated, status: 'draft', submittedBy: undefined, approvedBy: undefined }
+    const anomalies = diffFields(existing, updated, [...ANOMALY_FIELDS]).length ? checkAnomalies(db, updated, patch) : []
+    db.payments[index] = updated
+
+    const changes = diffFields(existing, updated, [...AUDITED_FIELDS])
+    const fields = changes.filter((c) => c.field !== 'status').map((c) => c.field)
+    recordAudit(db, {
+      timestamp: now,
+      actor: actor.fullName,
+      action: 'update',
+      entityType: 'payment',
+      entityId: id,
+      summary: changes.length
+        ? `Updated payment ${id}: ${fields.join(', ')}${reopened ? ' | Returned to draft for a fresh approval' : ''}`
+        : `Saved payment ${id} (no changes)`,
+      changes,
+    })
+    recordOverride(db, actor, updated, anomalies)
+    return updated
+  })
+}
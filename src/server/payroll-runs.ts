@@ -0,0 +1,250 @@
+import { repaymentsDue } from '@/lib/advances'
+import { compensationFor, expectedMonthlySalary } from '@/lib/compensation'
+import { formatMoney } from '@/lib/format'
+import { roundMoney } from '@/lib/fx'
+import { payBreakdown } from '@/lib/pay-lines'
+import {
+  CURRENCIES,
+  PAYMENT_METHODS,
+  type Currency,
+  type PaymentDraft,
+  type PaymentMethod,
+  type PayrollRun,
+  type PayrollRunItem,
+  type SessionUser,
+  type Staff,
+} from '@/lib/types'
+import { MONTH_PATTERN } from '@/lib/validation'
+import { recordAudit } from './audit'
+import { diffFields } from './audit-chain'
+import { badRequest, notFound } from './http'
+import { checkAnomalies, draftPayment, insertPayment, optionalString, recordOverride } from './payments'
+import { newId, readDb, transact, type Database } from './store'
+
+// ---------------------------
+// Payroll runs
+// ---------------------------
+//
+// A run drafts one Salary payment per active staff member for a month. Drafts
+// live on the run only; finalizing creates the real payments in one write and
+// links them back, so a run either produces all of its payments or none. The
+// payments it creates wait for approval like any other submitted payment. Advance
+// and loan repayments due that month are deducted from each salary on finalizing.
+
+const AUDITED_FIELDS = ['monthEarned', 'status', 'items', 'totals', 'paymentIds'] as const satisfies ReadonlyArray<keyof PayrollRun>
+
+function totalsFor(items: Array<Pick<PayrollRunItem, 'currency' | 'amount'>>): PayrollRun['totals'] {
+  const sums = new Map<Currency, number>()
+  for (const item of items) sums.set(item.currency, (sums.get(item.currency) ?? 0) + item.amount)
+  return [...sums].map(([currency, amount]) => ({ currency, amount: roundMoney(amount) }))
+}
+
+function describeTotals(totals: PayrollRun['totals']) {
+  return totals.map((t) => formatMoney(t.amount, t.currency)).join(' + ') || 'nothing'
+}
+
+function parseItems(body: unknown, db: Database): PayrollRunItem[] {
+  if (!Array.isArray(body)) badRequest('items must be an array')
+  const seen = new Set<string>()
+  return body.map((raw: Record<string, unknown>, i) => {
+    const { staffId, amount, currency, method } = raw ?? {}
+    const receiveCurrency = raw?.receiveCurrency ?? currency
+    if (typeof staffId !== 'string' || !db.staff.some((s) => s.id === staffId)) badRequest(`items[${i}].staffId must reference a staff record`)
+    if (seen.has(staffId)) badRequest(`items[${i}]: staff ${staffId} appears more than once`)
+    seen.add(staffId)
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) badRequest(`items[${i}].amount must be a number`)
+    if (!CURRENCIES.includes(currency as never)) badRequest(`items[${i}].currency must be one of ${CURRENCIES.join(', ')}`)
+    if (!CURRENCIES.includes(receiveCurrency as never)) badRequest(`items[${i}].receiveCurrency must be one of ${CURRENCIES.join(', ')}`)
+    if (!PAYMENT_METHODS.includes(method as never)) badRequest(`items[${i}].method must be one of ${PAYMENT_METHODS.join(', ')}`)
+    return {
+      staffId,
+      amount,
+      currency: currency as Currency,
+      receiveCurrency: receiveCurrency as Currency,
+      method: method as PaymentMethod,
+      referenceId: optionalString(raw.referenceId, `items[${i}].referenceId`),
+      notes: optionalString(raw.notes, `items[${i}].notes`),
+    }
+  })
+}
+
+/**
+ * Starting point for a staff member's line: the monthly salary from their
+ * compensation profile, sent the way their most recent Salary payment was. Without
+ * a profile the last payment's amount is repeated.
+ */
+function draftItem(db: Database, staff: Staff, monthEarned: string): PayrollRunItem {
+  const last = db.payments
+    .filter((p) => p.staffId === staff.id && p.category === 'Salary')
+    .sort((a, b) => b.dateSent.localeCompare(a.dateSent))[0]
+  const profile = compensationFor(staff, monthEarned)
+  if (profile) {
+    return {
+      staffId: staff.id,
+      amount: expectedMonthlySalary(profile),
+      currency: profile.currency,
+      receiveCurrency: last?.receiveCurrency ?? profile.currency,
+      method: last?.method ?? 'Wise',
+    }
+  }
+  if (!last) return { staffId: staff.id, amount: 0, currency: 'USD', receiveCurrency: 'USD', method: 'Wise' }
+  return { staffId: staff.id, amount: last.amount, currency: last.currency, receiveCurrency: last.receiveCurrency, method: last.method }
+}
+
+function findRun(db: Database, id: string) {
+  return db.payrollRuns.find((r) => r.id === id) ?? notFound(`Payroll run ${id} not found`)
+}
+
+function requireDraft(run: PayrollRun) {
+  if (run.status !== 'draft') badRequest(`Payroll run ${run.id} is already finalized`)
+}
+
+export async function listPayrollRuns(): Promise<PayrollRun[]> {
+  const db = await readDb()
+  return [...db.payrollRuns].sort((a, b) => b.monthEarned.localeCompare(a.monthEarned))
+}
+
+export function createPayrollRun(actor: SessionUser, body: Record<string, unknown>): Promise<PayrollRun> {
+  return transact((db) => {
+    const { monthEarned } = body
+    if (typeof monthEarned !== 'string' || !MONTH_PATTERN.test(monthEarned)) badRequest('monthEarned must be YYYY-MM')
+    if (db.payrollRuns.some((r) => r.monthEarned === monthEarned)) badRequest(`A payroll run for ${monthEarned} already exists`)
+
+    // Staff who already have a Salary payment for the month are left out of the draft.
+    const paid = new Set(db.payments.filter((p) => p.monthEarned === monthEarned && p.category === 'Salary').map((p) => p.staffId))
+    const items = db.staff.filter((s) => s.status === 'active' && !paid.has(s.id)).map((s) => draftItem(db, s, monthEarned))
+
+    const now = new Date().toISOString()
+    const created: PayrollRun = {
+      id: newId('run'),
+      monthEarned,
+      status: 'draft',
+      items,
+      totals: totalsFor(items),
+      paymentIds: [],
+      createdAt: now,
+      updatedAt: now,
+    }
+    db.payrollRuns.push(created)
+
+    recordAudit(db, {
+      timestamp: now,
+      actor: actor.fullName,
+      action: 'create',
+      entityType: 'payrollRun',
+      entityId: created.id,
+      summary: `Drafted payroll run for ${monthEarned}: ${items.length} salary payment(s), ${describeTotals(created.totals)}`,
+      changes: diffFields(null, created, [...AUDITED_FIELDS]),
+    })
+    return created
+  })
+}
+
+export function updatePayrollRun(actor: SessionUser, id: string, patch: Record<string, unknown>): Promise<PayrollRun> {
+  return transact((db) => {
+    const existing = findRun(db, id)
+    requireDraft(existing)
+    const items = parseItems(patch.items, db)
+
+    const now = new Date().toISOString()
+    const updated: PayrollRun = { ...existing, items, totals: totalsFor(items), updatedAt: now }
+    db.payrollRuns = db.payrollRuns.map((r) => (r.id === id ? updated : r))
+
+    recordAudit(db, {
+      timestamp: now,
+      actor: actor.fullName,
+      action: 'update',
+      entityType: 'payrollRun',
+      entityId: id,
+      summary: `Updated draft payroll run for ${updated.monthEarned}: ${items.length} salary payment(s), ${describeTotals(updated.totals)}`,
+      changes: diffFields(existing, updated, [...AUDITED_FIELDS]),
+    })
+    return updated
+  })
+}
+
+/**
+ * Creates every drafted payment (or none, if any line fails validation or trips an anomaly
+ * check not overridden by `body.overrideWarnings`) and locks the run.
+ */
+export function finalizePayrollRun(actor: SessionUser, id: string, body: Record<string, unknown>): Promise<PayrollRun> {
+  return transact((db) => {
+    const existing = findRun(db, id)
+    requireDraft(existing)
+    if (existing.items.length === 0) badRequest('The payroll run has no payments to send')
+    const zero = existing.items.find((item) => item.amount <= 0)
+    if (zero) {
+      const name = db.staff.find((s) => s.id === zero.staffId)?.fullName || zero.staffId
+      badRequest(`Set an amount for ${name} or remove them from the run before finalizing`)
+    }
+
+    const payments = existing.items.map((item) => {
+      const lines = [
+        { kind: 'earning' as const, label: 'Salary', amount: item.amount },
+        ...repaymentsDue(db.advances, db.payments, { staffId: item.staffId, monthEarned: existing.monthEarned, currency: item.currency }),
+      ]
+      if (payBreakdown(lines).net <= 0) {
+        const name = db.staff.find((s) => s.id === item.staffId)?.fullName || item.staffId
+        badRequest(`Repayments due from ${name} take their whole salary; raise the amount or remove them from the run`)
+      }
+      const draft: PaymentDraft = {
+        ...draftPayment(db, {
+          ...item,
+          lines,
+          monthEarned: existing.monthEarned,
+          category: 'Salary',
+          dateSent: body.dateSent,
+          status: 'pending_approval',
+        }),
+        payrollRunId: id,
+      }
+      const anomalies = checkAnomalies(db, draft, body)
+      const created = insertPayment(db, actor, draft, `Payroll run ${id}`)
+      recordOverride(db, actor, created, anomalies, `Payroll run ${id}`)
+      return created
+    })
+
+    const now = new Date().toISOString()
+    const finalized: PayrollRun = {
+      ...existing,
+      status: 'finalized',
+      // What was actually sent: the payments are net of the repayments deducted on the way.
+      totals: totalsFor(payments),
+      paymentIds: payments.map((p) => p.id),
+      updatedAt: now,
+      finalizedAt: now,
+    }
+    db.payrollRuns = db.payrollRuns.map((r) => (r.id === id ? finalized : r))
+
+    const net = describeTotals(finalized.totals)
+    const gross = describeTotals(existing.totals)
+    recordAudit(db, {
+      timestamp: now,
+      actor: actor.fullName,
+      action: 'update',
+      entityType: 'payrollRun',
+      entityId: id,
+      summary: `Finalized payroll run for ${finalized.monthEarned}: created ${payments.length} payment(s), ${net} net of repayments (${gross} gross)`,
+      changes: diffFields(existing, finalized, [...AUDITED_FIELDS]),
+    })
+    return finalized
+  })
+}
+
+export function deletePayrollRun(actor: SessionUser, id: string): Promise<{ id: string }> {
+  return transact((db) => {
+    const existing = findRun(db, id)
+    requireDraft(existing)
+    db.payrollRuns = db.payrollRuns.filter((r) => r.id !== id)
+
+    recordAudit(db, {
+      actor: actor.fullName,
+      action: 'delete',
+      entityType: 'payrollRun',
+      entityId: id,
+      summary: `Discarded draft payroll run for ${existing.monthEarned}`,
+      changes: diffFields(existing, null, [...AUDITED_FIELDS]),
+    })
+    return { id }
+  })
+}
@@ -0,0 +1,176 @@
+import { formatMoney, monthLabel } from '@/lib/format'
+import { convertAmount, roundMoney } from '@/lib/fx'
+import { payBreakdown, sortedLines } from '@/lib/pay-lines'
+import { isPaid } from '@/lib/payments'
+import { PAYMENT_CATEGORIES, type Currency, type PayLine, type Payment, type SessionUser } from '@/lib/types'
+import { MONTH_PATTERN } from '@/lib/validation'
+import { canExportPay, denyAccess } from './access'
+import { badRequest, notFound, type FileResult } from './http'
+import {
+  createDocument,
+  drawDetails,
+  drawLetterhead,
+  fitText,
+  GREY,
+  INK,
+  LIGHT,
+  MARGIN,
+  PAGE_WIDTH,
+  renderPdf,
+  type PdfDocument,
+} from './pdf'
+import { readDb } from './store'
+
+// ---------------------------
+// Payslips
+// ---------------------------
+//
+// One PDF per staff member per month earned, combining every payment for that
+// month grouped by category, then its lines from gross to net. Rendered on request
+// from the ledger, so a corrected payment shows up on the next download.
+
+const RIGHT = PAGE_WIDTH - MARGIN
+
+// Ledger table columns (x positions; amounts are right-aligned on theirs).
+const COL = { date: MARGIN, method: 120, reference: 200, received: 440, amount: RIGHT }
+
+function sumByCurrency(payments: Payment[]) {
+  const sums = new Map<Currency, number>()
+  for (const p of payments) sums.set(p.currency, (sums.get(p.currency) ?? 0) + p.amount)
+  return [...sums].map(([currency, amount]) => ({ currency, amount: roundMoney(amount) }))
+}
+
+function describeSums(sums: Array<{ currency: Currency; amount: number }>) {
+  return sums.map((s) => formatMoney(s.amount, s.currency)).join(' + ')
+}
+
+function tableHeader(doc: PdfDocument) {
+  const { page, y } = doc.take(20)
+  page.rect(MARGIN, y - 6, RIGHT - MARGIN, 18, LIGHT)
+  const style = { size: 8, bold: true, color: GREY }
+  page.text(COL.date + 4, y, 'DATE SENT', style)
+  page.text(COL.method, y, 'METHOD', style)
+  page.text(COL.reference, y, 'REFERENCE ID', style)
+  page.text(COL.received, y, 'RECEIVED', { ...style, align: 'right' })
+  page.text(COL.amount - 4, y, 'AMOUNT', { ...style, align: 'right' })
+}
+
+function drawPaymentTable(doc: PdfDocument, title: string, payments: Payment[]) {
+  doc.take(10)
+  const heading = doc.take(16)
+  heading.page.text(MARGIN, heading.y, title, { size: 11, bold: true })
+  tableHeader(doc)
+
+  for (const p of payments) {
+    const { page, y } = doc.take(16)
+    page.text(COL.date + 4, y, p.dateSent.slice(0, 10), { size: 9 })
+    page.text(COL.method, y, p.method, { size: 9 })
+    page.text(COL.reference, y, fitText(p.referenceId || '—', 150, 9), { size: 9 })
+    if (p.receiveCurrency !== p.currency) {
+      page.text(COL.received, y, formatMoney(p.receiveAmount, p.receiveCurrency), { size: 9, color: GREY, align: 'right' })
+    }
+    page.text(COL.amount - 4, y, formatMoney(p.amount, p.currency), { size: 9, align: 'right' })
+    page.line(MARGIN, y - 5, RIGHT, y - 5, 0.3)
+  }
+
+  const { page, y } = doc.take(16)
+  page.text(COL.received, y, `${title} subtotal`, { size: 9, bold: true, align: 'right' })
+  page.text(COL.amount - 4, y, describeSums(sumByCurrency(payments)), { size: 9, bold: true, align: 'right' })
+}
+
+/** The month's lines in one currency, with lines of the same kind and description added together. */
+function mergedLines(payments: Payment[]): PayLine[] {
+  const merged = new Map<string, PayLine>()
+  for (const line of sortedLines(payments.flatMap((p) => p.lines))) {
+    const key = `${line.kind}:${line.label.toLowerCase()}`
+    const existing = merged.get(key)
+    if (existing) existing.amount = roundMoney(existing.amount + line.amount)
+    else merged.set(key, { ...line })
+  }
+  return [...merged.values()]
+}
+
+function drawBreakdown(doc: PdfDocument, currency: Currency, payments: Payment[]) {
+  const lines = mergedLines(payments)
+  const pay = payBreakdown(lines)
+
+  doc.take(10)
+  const heading = doc.take(16)
+  heading.page.text(MARGIN, heading.y, `Gross to net (${currency})`, { size: 11, bold: true })
+
+  const row = (label: string, amount: string, style: { bold?: boolean; color?: typeof GREY } = {}) => {
+    const { page, y } = doc.take(15)
+    page.text(COL.date + 4, y, fitText(label, COL.received - COL.date, 9, style.bold), { size: 9, ...style })
+    page.text(COL.amount - 4, y, amount, { size: 9, align: 'right', ...style })
+    if (style.bold) page.line(MARGIN, y + 11, RIGHT, y + 11, 0.5)
+  }
+
+  for (const line of lines.filter((l) => l.kind === 'earning' || l.kind === 'allowance')) row(line.label, formatMoney(line.amount, currency))
+  row('Gross pay', formatMoney(pay.gross, currency), { bold: true })
+  for (const line of lines.filter((l) => l.kind === 'deduction')) row(line.label, `-${formatMoney(line.amount, currency)}`)
+  row('Net pay', formatMoney(pay.net, currency), { bold: true })
+  for (const line of lines.filter((l) => l.kind === 'fee')) {
+    row(`${line.label} (paid by the employer, not deducted)`, formatMoney(line.amount, currency), { color: GREY })
+  }
+}
+
+export async function renderPayslip(user: SessionUser, staffId: string, month: string): Promise<FileResult> {
+  if (!MONTH_PATTERN.test(month)) badRequest('month must be YYYY-MM')
+  const db = await readDb()
+  const staff = db.staff.find((s) => s.id === staffId) ?? notFound(`Staff ${staffId} not found`)
+  if (!canExportPay(user, staffId)) {
+    return denyAccess(user, { entityType: 'staff', entityId: staffId, description: `the ${month} payslip for ${staff.fullName}` })
+  }
+
+  const payments = db.payments
+    .filter((p) => p.staffId === staffId && p.monthEarned === month && isPaid(p))
+    .sort((a, b) => a.dateSent.localeCompare(b.dateSent))
+  if (payments.length === 0) notFound(`${staff.fullName} has no sent payments for ${month}`)
+
+  const { companyName, companyAddress, baseCurrency } = db.settings
+  const doc = createDocument()
+
+  drawLetterhead(doc, { companyName, companyAddress, title: 'PAYSLIP', period: monthLabel(month) })
+  drawDetails(doc, [
+    ['Employee', staff.fullName],
+    ['Job title', staff.jobTitle],
+    ['Staff ID', staff.id],
+    ['Period', `${monthLabel(month)} (${month})`],
+    ['Issued', new Date().toISOString().slice(0, 10)],
+  ])
+
+  for (const category of PAYMENT_CATEGORIES) {
+    const inCategory = payments.filter((p) => p.category === category)
+    if (inCategory.length) drawPaymentTable(doc, category, inCategory)
+  }
+
+  for (const { currency } of sumByCurrency(payments)) drawBreakdown(doc, currency, payments.filter((p) => p.currency === currency))
+
+  // Totals
+  doc.take(10)
+  const totalRule = doc.take(8)
+  totalRule.page.line(MARGIN, totalRule.y, RIGHT, totalRule.y, 1, INK)
+  for (const sum of sumByCurrency(payments)) {
+    const { page, y } = doc.take(18)
+    page.text(COL.received, y, `Total paid (${sum.currency})`, { size: 11, bold: true, align: 'right' })
+    page.text(COL.amount - 4, y, formatMoney(sum.amount, sum.currency), { size: 11, bold: true, align: 'right' })
+  }
+  const currencies = new Set(payments.map((p) => p.currency))
+  if (currencies.size > 1 || !currencies.has(baseCurrency)) {
+    const converted = payments.map((p) => convertAmount(db.fxRates, p.amount, p.currency, baseCurrency, p.dateSent.slice(0, 10)))
+    if (converted.every((n) => n !== null)) {
+      const { page, y } = doc.take(14)
+      const total = roundMoney(converted.reduce((a, n) => a + n, 0))
+      page.text(COL.received, y, `Equivalent in ${baseCurrency}`, { size: 9, color: GREY, align: 'right' })
+      page.text(COL.amount - 4, y, formatMoney(total, baseCurrency), { size: 9, color: GREY, align: 'right' })
+    }
+  }
+
+  const slug = staff.fullName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  const title = `Payslip ${month} - ${staff.fullName}`
+  return {
+    body: renderPdf(doc.pages, title, `${companyName} · ${title} · Generated ${new Date().toISOString().slice(0, 10)}`),
+    contentType: 'application/pdf',
+    filename: `payslip-${month}-${slug || staff.id}.pdf`,
+  }
+}
@@ -0,0 +1,212 @@
+// ---------------------------
+// Minimal PDF writer
+// ---------------------------
+//
+// Enough PDF for payslips and statements: A4 pages with text in the built-in
+// Helvetica fonts, lines and filled rectangles. The base-14 fonts need no
+// embedding, so documents render anywhere without external services. Text is
+// WinAnsi-encoded; characters outside it are replaced.
+
+export const PAGE_WIDTH = 595
+export const PAGE_HEIGHT = 842
+
+export type Rgb = [number, number, number]
+
+export const INK: Rgb = [0.06, 0.09, 0.16]
+export const GREY: Rgb = [0.39, 0.45, 0.55]
+export const LIGHT: Rgb = [0.95, 0.96, 0.98]
+
+export type TextStyle = {
+  size?: number
+  bold?: boolean
+  color?: Rgb
+  align?: 'left' | 'right' | 'center'
+}
+
+// Advance widths (1/1000 em) for ASCII 32–126, from the Adobe font metrics.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+]
+
+// Characters WinAnsi places outside Latin-1, plus a few substitutions.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+}
+const SUBSTITUTES: Record<string, string> = { '\u00a0': ' ', '\u202f': ' ', '→': '->', '←': '<-', '−': '-' }
+
+function toWinAnsi(text: string): number[] {
+  const bytes: number[] = []
+  for (const ch of text) {
+    const sub = SUBSTITUTES[ch]
+    if (sub) {
+      for (const c of sub) bytes.push(c.charCodeAt(0))
+      continue
+    }
+    const code = ch.codePointAt(0) ?? 63
+    if (WIN_ANSI_EXTRAS[ch]) bytes.push(WIN_ANSI_EXTRAS[ch])
+    else if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) bytes.push(code)
+    else bytes.push(63) // '?'
+  }
+  return bytes
+}
+
+/** Width of `text` in points at `size`. */
+export function textWidth(text: string, size: number, bold = false) {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  const units = toWinAnsi(text).reduce((sum, b) => sum + (b >= 32 && b <= 126 ? widths[b - 32] : 556), 0)
+  return (units * size) / 1000
+}
+
+/** Shortens `text` with an ellipsis so it fits in `maxWidth` points. */
+export function fitText(text: string, maxWidth: number, size: number, bold = false) {
+  if (textWidth(text, size, bold) <= maxWidth) return text
+  let out = text
+  while (out.length > 1 && textWidth(`${out}…`, size, bold) > maxWidth) out = out.slice(0, -1)
+  return `${out}…`
+}
+
+function pdfString(text: string) {
+  return `(${toWinAnsi(text)
+    .map((b) => (b === 0x28 || b === 0x29 || b === 0x5c ? `\\${String.fromCharCode(b)}` : b > 126 ? `\\${b.toString(8).padStart(3, '0')}` : String.fromCharCode(b)))
+    .join('')})`
+}
+
+function num(n: number) {
+  return Number(n.toFixed(2)).toString()
+}
+
+function rgb([r, g, b]: Rgb) {
+  return `${num(r)} ${num(g)} ${num(b)}`
+}
+
+export type PdfPage = {
+  /** Draws text with its baseline at `y` (points from the bottom edge). */
+  text: (x: number, y: number, text: string, style?: TextStyle) => void
+  line: (x1: number, y1: number, x2: number, y2: number, width?: number, color?: Rgb) => void
+  rect: (x: number, y: number, width: number, height: number, fill: Rgb) => void
+  ops: string[]
+}
+
+export function createPage(): PdfPage {
+  const ops: string[] = []
+  return {
+    ops,
+    text(x, y, text, style = {}) {
+      const size = style.size ?? 10
+      const width = textWidth(text, size, style.bold)
+      const left = style.align === 'right' ? x - width : style.align === 'center' ? x - width / 2 : x
+      ops.push(`BT /${style.bold ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(style.color ?? INK)} rg ${num(left)} ${num(y)} Td ${pdfString(text)} Tj ET`)
+    },
+    line(x1, y1, x2, y2, width = 0.5, color = [0.8, 0.83, 0.87]) {
+      ops.push(`${num(width)} w ${rgb(color)} RG ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`)
+    },
+    rect(x, y, width, height, fill) {
+      ops.push(`${rgb(fill)} rg ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`)
+    },
+  }
+}
+
+export const MARGIN = 48
+
+export type PdfDocument = {
+  pages: PdfPage[]
+  /**
+   * Reserves `height` points below the current position and returns the page and
+   * baseline to draw at, starting a new page when the block would cross the bottom margin.
+   */
+  take: (height: number) => { page: PdfPage; y: number }
+}
+
+export function createDocument(): PdfDocument {
+  const pages = [createPage()]
+  let y = PAGE_HEIGHT - MARGIN
+  return {
+    pages,
+    take(height) {
+      if (y - height < MARGIN + 16) {
+        pages.push(createPage())
+        y = PAGE_HEIGHT - MARGIN
+      }
+      y -= height
+      return { page: pages[pages.length - 1], y }
+    },
+  }
+}
+
+// ---------------------------
+// Shared document blocks
+// ---------------------------
+
+/** Company name and address on the left, document title and period on the right, then a rule. */
+export function drawLetterhead(
+  doc: PdfDocument,
+  head: { companyName: string; companyAddress?: string; title: string; period: string }
+) {
+  const right = PAGE_WIDTH - MARGIN
+  const top = doc.take(24)
+  top.page.text(MARGIN, top.y, head.companyName, { size: 18, bold: true })
+  top.page.text(right, top.y, head.title, { size: 18, bold: true, color: GREY, align: 'right' })
+  const sub = doc.take(14)
+  if (head.companyAddress) sub.page.text(MARGIN, sub.y, head.companyAddress, { size: 9, color: GREY })
+  sub.page.text(right, sub.y, head.period, { size: 10, align: 'right' })
+  const rule = doc.take(12)
+  rule.page.line(MARGIN, rule.y, right, rule.y, 1)
+}
+
+/** Label/value pairs, one per line. */
+export function drawDetails(doc: PdfDocument, rows: Array<[string, string]>) {
+  for (const [label, value] of rows) {
+    const { page, y } = doc.take(14)
+    page.text(MARGIN, y, label, { size: 9, color: GREY })
+    page.text(MARGIN + 80, y, value, { size: 9 })
+  }
+}
+
+/** Serializes pages into a PDF file. All content is ASCII, so string length equals byte offset. */
+export function renderPdf(pages: PdfPage[], title: string, footer?: string): Uint8Array<ArrayBuffer> {
+  if (footer) {
+    pages.forEach((page, i) => {
+      page.line(MARGIN, MARGIN, PAGE_WIDTH - MARGIN, MARGIN)
+      page.text(MARGIN, MARGIN - 14, footer, { size: 8, color: GREY })
+      page.text(PAGE_WIDTH - MARGIN, MARGIN - 14, `Page ${i + 1} of ${pages.length}`, { size: 8, color: GREY, align: 'right' })
+    })
+  }
+  const objects: string[] = []
+  const add = (body: string) => objects.push(body)
+
+  add('<< /Type /Catalog /Pages 2 0 R >>')
+  const kids = pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')
+  add(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`)
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+  for (const [i, page] of pages.entries()) {
+    const stream = page.ops.join('\n')
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`
+    )
+    add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`)
+  }
+  const infoId = objects.length + 1
+  add(`<< /Title ${pdfString(title)} /Producer (LoadHarbour Payroll) >>`)
+
+  let out = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((body, i) => {
+    offsets.push(out.length)
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`
+  })
+  const xref = out.length
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  out += offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('')
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+  return new TextEncoder().encode(out)
+}
@@ -0,0 +1,120 @@
+import { createHash, randomBytes } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+import type { Payment, ReceiptFile, SessionUser } from '@/lib/types'
+import { recordAudit } from './audit'
+import { diffFields } from './audit-chain'
+import { badRequest, notFound, type FileResult } from './http'
+import { getPayment } from './payments'
+import { DATA_DIR, transact } from './store'
+
+// ---------------------------
+// Receipt files
+// ---------------------------
+//
+// Files are stored once per content hash (data/receipts/<sha256>) and never
+// deleted: detaching or replacing a receipt only changes the payment record, so
+// any version referenced from the audit trail stays retrievable.
+
+const RECEIPTS_DIR = path.join(DATA_DIR, 'receipts')
+
+const MAX_RECEIPT_BYTES = 10 * 1024 * 1024
+
+/** Detects the file type from its leading bytes; the client-supplied type is not trusted. */
+function sniffMimeType(buf: Buffer): ReceiptFile['mimeType'] | null {
+  if (buf.subarray(0, 5).toString('latin1') === '%PDF-') return 'application/pdf'
+  if (buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png'
+  if (buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) return 'image/jpeg'
+  if (buf.subarray(0, 4).toString('latin1') === 'RIFF' && buf.subarray(8, 12).toString('latin1') === 'WEBP') return 'image/webp'
+  return null
+}
+
+// Receipt state as it appears in audit diffs.
+function receiptFields(p: Payment) {
+  return { receiptStatus: p.receiptStatus, receiptName: p.receiptName, receiptSha256: p.receipt?.sha256 }
+}
+
+function cleanFileName(name: string) {
+  const base = path.basename(name).replace(/[^\w.\- ()]+/g, '_').trim()
+  return (base || 'receipt').slice(0, 200)
+}
+
+async function storeBytes(sha256: string, buf: Buffer) {
+  await fs.mkdir(RECEIPTS_DIR, { recursive: true })
+  const target = path.join(RECEIPTS_DIR, sha256)
+  try {
+    await fs.access(target)
+    return // identical content already stored
+  } catch {
+    const tmp = `${target}.${randomBytes(4).toString('hex')}.tmp`
+    await fs.writeFile(tmp, buf)
+    await fs.rename(tmp, target)
+  }
+}
+
+export async function attachReceipt(actor: SessionUser, paymentId: string, file: unknown): Promise<Payment> {
+  if (!(file instanceof File)) badRequest('Expected a multipart "file" field')
+  if (file.size === 0) badRequest('The uploaded file is empty')
+  if (file.size > MAX_RECEIPT_BYTES) badRequest('Receipts must be 10 MB or smaller')
+
+  const buf = Buffer.from(await file.arrayBuffer())
+  const mimeType = sniffMimeType(buf) ?? badRequest('Receipts must be a PDF, PNG, JPEG or WebP file')
+  const sha256 = createHash('sha256').update(buf).digest('hex')
+  await storeBytes(sha256, buf)
+
+  return transact((db) => {
+    const payment = db.payments.find((p) => p.id === paymentId) ?? notFound(`Payment ${paymentId} not found`)
+    const previous = payment.receipt
+    const before = receiptFields(payment)
+    const now = new Date().toISOString()
+    payment.receipt = { name: cleanFileName(file.name), mimeType, size: buf.length, sha256, uploadedAt: now }
+    payment.receiptStatus = 'attached'
+    payment.receiptName = payment.receipt.name
+    payment.updatedAt = now
+
+    recordAudit(db, {
+      timestamp: now,
+      actor: actor.fullName,
+      action: 'update',
+      entityType: 'payment',
+      entityId: paymentId,
+      summary: `${previous ? 'Replaced' : 'Attached'} receipt ${payment.receipt.name} on payment ${paymentId} (sha256 ${sha256.slice(0, 12)}…)`,
+      changes: diffFields(before, receiptFields(payment), ['receiptStatus', 'receiptName', 'receiptSha256']),
+    })
+    return payment
+  })
+}
+
+export function removeReceipt(actor: SessionUser, paymentId: string): Promise<Payment> {
+  return transact((db) => {
+    const payment = db.payments.find((p) => p.id === paymentId) ?? notFound(`Payment ${paymentId} not found`)
+    if (payment.receiptStatus !== 'attached') badRequest(`Payment ${paymentId} has no receipt attached`)
+    const previous = payment.receipt
+    const before = receiptFields(payment)
+    const now = new Date().toISOString()
+    payment.receipt = undefined
+    payment.receiptStatus = 'missing'
+    payment.receiptName = undefined
+    payment.updatedAt = now
+
+    recordAudit(db, {
+      timestamp: now,
+      actor: actor.fullName,
+      action: 'update',
+      entityType: 'payment',
+      entityId: paymentId,
+      summary: `Removed receipt ${previous?.name || 'receipt'} from payment ${paymentId}${previous ? ` (sha256 ${previous.sha256.slice(0, 12)}…)` : ''}`,
+      changes: diffFields(before, receiptFields(payment), ['receiptStatus', 'receiptName', 'receiptSha256']),
+    })
+    return payment
+  })
+}
+
+/** Streams the receipt for a payment the user may see (employees: their own only). */
+export async function readReceipt(user: SessionUser, paymentId: string, disposition: 'inline' | 'attachment'): Promise<FileResult> {
+  const payment = await getPayment(user, paymentId)
+  const receipt = payment.receipt ?? notFound(`No receipt file is on record for payment ${paymentId}`)
+  const body = await fs.readFile(path.join(RECEIPTS_DIR, receipt.sha256)).catch(() => notFound('Receipt file is missing from storage'))
+  return { body: new Uint8Array(body), contentType: receipt.mimeType, filename: receipt.name, disposition }
+}
@@ -0,0 +1,120 @@
+import { formatMoney } from '@/lib/format'
+import { buildReport, REPORT_DIMENSION_LABELS, REPORT_DIMENSIONS, type Report, type ReportDimension } from '@/lib/reports'
+import { CURRENCIES, type Currency } from '@/lib/types'
+import { toCsv } from './csv'
+import { badRequest, type FileResult } from './http'
+import { createDocument, drawDetails, drawLetterhead, fitText, GREY, INK, LIGHT, MARGIN, PAGE_WIDTH, renderPdf } from './pdf'
+import { readDb } from './store'
+
+// ---------------------------
+// Report exports
+// ---------------------------
+//
+// The Reports page builds the same figures in the browser from the ledger it
+// already holds; these endpoints only turn them into files.
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const RIGHT = PAGE_WIDTH - MARGIN
+
+export type ReportQuery = { dimension: string | null; from: string | null; to: string | null; base: string | null }
+
+async function loadReport(query: ReportQuery): Promise<Report> {
+  const dimension = query.dimension as ReportDimension
+  if (!REPORT_DIMENSIONS.includes(dimension)) badRequest(`dimension must be one of ${REPORT_DIMENSIONS.join(', ')}`)
+  const from = query.from || ''
+  const to = query.to || ''
+  if (from && !DAY_PATTERN.test(from)) badRequest('from must be YYYY-MM-DD')
+  if (to && !DAY_PATTERN.test(to)) badRequest('to must be YYYY-MM-DD')
+  if (from && to && from > to) badRequest('from must not be after to')
+
+  const db = await readDb()
+  const base = (CURRENCIES as readonly string[]).includes(query.base ?? '') ? (query.base as Currency) : db.settings.baseCurrency
+  return buildReport(db.payments, db.staff, db.fxRates, base, dimension, from, to)
+}
+
+function describeRange(report: Report) {
+  if (report.from && report.to) return `${report.from} to ${report.to}`
+  if (report.from) return `From ${report.from}`
+  if (report.to) return `Up to ${report.to}`
+  return 'All dates'
+}
+
+function fileStem(report: Report) {
+  return `payments-by-${report.dimension}-${report.from || 'start'}-to-${report.to || new Date().toISOString().slice(0, 10)}`
+}
+
+export async function exportReportCsv(query: ReportQuery): Promise<FileResult> {
+  const report = await loadReport(query)
+  const total = `total${report.baseCurrency}`
+  const csv = toCsv(
+    [report.dimension, 'label', 'payments', total, 'unconverted'],
+    [
+      ...report.rows.map((r) => [r.key, r.label, r.count, r.total, r.unconverted]),
+      ['TOTAL', '', report.count, report.total, report.unconverted],
+    ]
+  )
+  return { body: csv, contentType: 'text/csv;charset=utf-8', filename: `${fileStem(report)}.csv` }
+}
+
+export async function renderReportPdf(query: ReportQuery): Promise<FileResult> {
+  const report = await loadReport(query)
+  const db = await readDb()
+  const { companyName, companyAddress } = db.settings
+  const heading = `Payments by ${REPORT_DIMENSION_LABELS[report.dimension].toLowerCase()}`
+  const doc = createDocument()
+
+  drawLetterhead(doc, { companyName, companyAddress, title: 'REPORT', period: describeRange(report) })
+  drawDetails(doc, [
+    ['Report', heading],
+    ['Dates sent', describeRange(report)],
+    ['Currency', `${report.baseCurrency}, at the rate on each send date`],
+    ['Generated', new Date().toISOString().slice(0, 10)],
+  ])
+
+  // Columns: label | bar | payments | total
+  const barX = 200
+  const barWidth = 190
+  const countX = 430
+  const max = Math.max(0, ...report.rows.map((r) => r.total))
+
+  doc.take(10)
+  const head = doc.take(20)
+  head.page.rect(MARGIN, head.y - 6, RIGHT - MARGIN, 18, LIGHT)
+  head.page.text(MARGIN + 4, head.y, REPORT_DIMENSION_LABELS[report.dimension].toUpperCase(), { size: 8, bold: true, color: GREY })
+  head.page.text(countX, head.y, 'PAYMENTS', { size: 8, bold: true, color: GREY, align: 'right' })
+  head.page.text(RIGHT - 4, head.y, `TOTAL (${report.baseCurrency})`, { size: 8, bold: true, color: GREY, align: 'right' })
+
+  for (const row of report.rows) {
+    const { page, y } = doc.take(18)
+    page.text(MARGIN + 4, y, fitText(row.label, barX - MARGIN - 12, 9), { size: 9 })
+    if (max > 0 && row.total > 0) page.rect(barX, y - 2, Math.max(1, (row.total / max) * barWidth), 9, [0.2, 0.25, 0.33])
+    page.text(countX, y, String(row.count), { size: 9, align: 'right' })
+    page.text(RIGHT - 4, y, formatMoney(row.total, report.baseCurrency), { size: 9, align: 'right' })
+    page.line(MARGIN, y - 6, RIGHT, y - 6, 0.3)
+  }
+  if (report.rows.length === 0) {
+    const { page, y } = doc.take(18)
+    page.text(MARGIN + 4, y, 'No payments were sent in this range.', { size: 9, color: GREY })
+  }
+
+  const total = doc.take(20)
+  total.page.line(MARGIN, total.y + 13, RIGHT, total.y + 13, 1, INK)
+  total.page.text(MARGIN + 4, total.y, 'Total', { size: 10, bold: true })
+  total.page.text(countX, total.y, String(report.count), { size: 10, bold: true, align: 'right' })
+  total.page.text(RIGHT - 4, total.y, formatMoney(report.total, report.baseCurrency), { size: 10, bold: true, align: 'right' })
+
+  if (report.unconverted) {
+    const note = doc.take(16)
+    note.page.text(MARGIN, note.y, `${report.unconverted} payment(s) have no rate to ${report.baseCurrency} and are not in the totals.`, {
+      size: 8,
+      color: GREY,
+    })
+  }
+
+  return {
+    body: renderPdf(doc.pages, heading, `${companyName} · ${heading} · ${describeRange(report)}`),
+    contentType: 'application/pdf',
+    filename: `${fileStem(report)}.pdf`,
+  }
+}
@@ -0,0 +1,60 @@
+import { PERMISSION_LABELS, permissionsFor, ROLE_LABELS } from '@/lib/permissions'
+import { PERMISSIONS, ROLES, type Role, type RolePermissions, type SessionUser } from '@/lib/types'
+import { recordAudit } from './audit'
+import { diffFields } from './audit-chain'
+import { badRequest } from './http'
+import { readDb, transact, type Database } from './store'
+
+// ---------------------------
+// Role permission matrix
+// ---------------------------
+//
+// Permissions are looked up from the matrix on every request, so a change applies
+// to signed-in users at once. The admin row always holds every permission.
+
+function resolved(db: Database): RolePermissions {
+  return Object.fromEntries(ROLES.map((role) => [role, permissionsFor(db.roles, role)])) as RolePermissions
+}
+
+function parseMatrix(body: Record<string, unknown>): RolePermissions {
+  const matrix = {} as RolePermissions
+  for (const role of ROLES) {
+    const value = body[role]
+    if (!Array.isArray(value)) badRequest(`${role} must be an array of permissions`)
+    const unknown = value.find((p) => !PERMISSIONS.includes(p as never))
+    if (unknown !== undefined) badRequest(`Unknown permission ${String(unknown)} for ${role}`)
+    matrix[role] = PERMISSIONS.filter((p) => value.includes(p))
+  }
+  return matrix
+}
+
+export async function getRolePermissions(): Promise<RolePermissions> {
+  return resolved(await readDb())
+}
+
+/** Replaces the whole matrix. Body: { [role]: Permission[] } for every role; the admin row is ignored. */
+export function updateRolePermissions(actor: SessionUser, body: Record<string, unknown>): Promise<RolePermissions> {
+  const requested = parseMatrix(body)
+  if (actor.role !== 'admin' && !requested[actor.role].includes('users.manage')) {
+    badRequest(`You cannot remove "${PERMISSION_LABELS['users.manage']}" from your own role (${ROLE_LABELS[actor.role]})`)
+  }
+
+  return transact((db) => {
+    const before = resolved(db)
+    db.roles = requested
+    const after = resolved(db)
+
+    const changes = diffFields(before, after, [...ROLES])
+    recordAudit(db, {
+      actor: actor.fullName,
+      action: 'update',
+      entityType: 'role',
+      entityId: 'roles',
+      summary: changes.length
+        ? `Updated permissions for ${changes.map((c) => ROLE_LABELS[c.field as Role]).join(', ')}`
+        : 'Saved role permissions (no changes)',
+      changes,
+    })
+    return after
+  })
+}
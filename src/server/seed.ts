@@ -0,0 +1,177 @@
+import type { AuditLog, FxRate, Payment, Role, Settings, Staff } from '@/lib/types'
+
+// ---------------------------
+// Seed data — written to the store the first time it is opened
+// ---------------------------
+
+export const seedStaff: Staff[] = [
+  { id: 's0', fullName: 'Owner Account', jobTitle: 'Owner', status: 'active', email: 'owner@readycarriers.com', hireDate: '2024-03-01' },
+  {
+    id: 's1',
+    fullName: 'Amina Hassan',
+    jobTitle: 'Operations Manager',
+    status: 'active',
+    email: 'amina@readycarriers.com',
+    hireDate: '2025-11-03',
+    compensation: [{ effectiveFrom: '2025-12', baseSalary: 1250, frequency: 'monthly', currency: 'USD' }],
+  },
+  {
+    id: 's2',
+    fullName: 'Brian Otieno',
+    jobTitle: 'Dispatcher',
+    status: 'active',
+    email: 'brian@readycarriers.com',
+    hireDate: '2025-11-17',
+    compensation: [
+      { effectiveFrom: '2025-12', baseSalary: 900, frequency: 'monthly', currency: 'USD' },
+      { effectiveFrom: '2026-01', baseSalary: 950, frequency: 'monthly', currency: 'USD', note: 'Annual review' },
+    ],
+  },
+  {
+    id: 's3',
+    fullName: 'Fatma Noor',
+    jobTitle: 'Accounting Assistant',
+    status: 'active',
+    email: 'fatma@readycarriers.com',
+    hireDate: '2025-12-08',
+    compensation: [{ effectiveFrom: '2026-01', baseSalary: 500, frequency: 'biweekly', currency: 'USD' }],
+  },
+  {
+    id: 's4',
+    fullName: 'Kelvin Mwangi',
+    jobTitle: 'Safety Coordinator',
+    status: 'active',
+    email: 'kelvin@readycarriers.com',
+    hireDate: '2025-12-15',
+  },
+]
+
+export const seedPayments: Payment[] = [
+  {
+    id: 'p1',
+    staffId: 's1',
+    monthEarned: '2025-12',
+    dateSent: '2026-01-03T10:45:00.000Z',
+    amount: 1250,
+    lines: [
+      { kind: 'earning', label: 'Base salary', amount: 1200 },
+      { kind: 'allowance', label: 'Transport allowance', amount: 100 },
+      { kind: 'deduction', label: 'Salary advance recovery', amount: 50 },
+      { kind: 'fee', label: 'Wise transfer fee', amount: 8.42 },
+    ],
+    currency: 'USD',
+    receiveCurrency: 'KES',
+    receiveAmount: 161250,
+    fxRate: 129,
+    fxRateDate: '2026-01-01',
+    method: 'Wise',
+    category: 'Salary',
+    referenceId: 'WISE-7H2K9Q',
+    notes: 'December salary',
+    receiptStatus: 'attached',
+    receiptName: 'wise-receipt-dec-2025.pdf',
+    status: 'reconciled',
+    createdAt: '2026-01-03T10:50:00.000Z',
+    updatedAt: '2026-01-03T10:50:00.000Z',
+  },
+  {
+    id: 'p2',
+    staffId: 's2',
+    monthEarned: '2025-12',
+    dateSent: '2026-01-03T11:05:00.000Z',
+    amount: 900,
+    lines: [{ kind: 'earning', label: 'Salary', amount: 900 }],
+    currency: 'USD',
+    receiveCurrency: 'UGX',
+    receiveAmount: 3294000,
+    fxRate: 3660,
+    fxRateDate: '2026-01-01',
+    method: 'Sendwave',
+    category: 'Salary',
+    referenceId: 'SW-902113',
+    notes: 'December salary',
+    receiptStatus: 'missing',
+    status: 'sent',
+    createdAt: '2026-01-03T11:10:00.000Z',
+    updatedAt: '2026-01-03T11:10:00.000Z',
+  },
+  {
+    id: 'p3',
+    staffId: 's3',
+    monthEarned: '2026-01',
+    dateSent: '2026-01-06T09:10:00.000Z',
+    amount: 650,
+    lines: [{ kind: 'earning', label: 'Reimbursement', amount: 650 }],
+    currency: 'USD',
+    receiveCurrency: 'TZS',
+    receiveAmount: 1595750,
+    fxRate: 2455,
+    fxRateDate: '2026-01-01',
+    method: 'WorldRemit',
+    category: 'Reimbursement',
+    referenceId: 'WR-11902',
+    notes: 'Receipts: office supplies',
+    receiptStatus: 'attached',
+    receiptName: 'worldremit-office-supplies.jpg',
+    status: 'sent',
+    createdAt: '2026-01-06T09:15:00.000Z',
+    updatedAt: '2026-01-06T09:15:00.000Z',
+  },
+]
+
+export const seedAudit: Array<Omit<AuditLog, 'prevHash' | 'hash'>> = [
+  {
+    id: 'a1',
+    timestamp: '2026-01-03T10:50:10.000Z',
+    actor: 'Owner',
+    action: 'create',
+    entityType: 'payment',
+    entityId: 'p1',
+    summary: 'Created payment p1 for Amina Hassan (USD 1,250) | Month earned 2025-12',
+  },
+  {
+    id: 'a2',
+    timestamp: '2026-01-03T11:10:12.000Z',
+    actor: 'Owner',
+    action: 'create',
+    entityType: 'payment',
+    entityId: 'p2',
+    summary: 'Created payment p2 for Brian Otieno (USD 900) | Missing receipt',
+  },
+  {
+    id: 'a3',
+    timestamp: '2026-01-06T09:15:33.000Z',
+    actor: 'Owner',
+    action: 'create',
+    entityType: 'payment',
+    entityId: 'p3',
+    summary: 'Created reimbursement payment p3 for Fatma Noor (USD 650)',
+  },
+]
+
+// Indicative USD rates; the owner maintains the real table under FX Rates.
+export const seedFxRates: FxRate[] = [
+  { id: 'fx1', date: '2025-12-01', base: 'USD', quote: 'KES', rate: 129.4 },
+  { id: 'fx2', date: '2025-12-01', base: 'USD', quote: 'UGX', rate: 3675 },
+  { id: 'fx3', date: '2025-12-01', base: 'USD', quote: 'TZS', rate: 2470 },
+  { id: 'fx4', date: '2026-01-01', base: 'USD', quote: 'KES', rate: 129 },
+  { id: 'fx5', date: '2026-01-01', base: 'USD', quote: 'UGX', rate: 3660 },
+  { id: 'fx6', date: '2026-01-01', base: 'USD', quote: 'TZS', rate: 2455 },
+]
+
+export const seedSettings: Settings = {
+  baseCurrency: 'USD',
+  companyName: 'Ready Carriers',
+  fiscalYearStartMonth: 1,
+  approvalThreshold: 500,
+}
+
+// Every seeded login uses LOADHARBOUR_SEED_PASSWORD (default "loadharbour"). Change
+// them through Staff → Login once the app is running.
+export const seedLogins: Array<{ id: string; staffId: string; role: Role }> = [
+  { id: 'u0', staffId: 's0', role: 'admin' },
+  { id: 'u1', staffId: 's1', role: 'employee' },
+  { id: 'u2', staffId: 's2', role: 'employee' },
+  { id: 'u3', staffId: 's3', role: 'employee' },
+  { id: 'u4', staffId: 's4', role: 'employee' },
+]
@@ -0,0 +1,59 @@
+import { CURRENCIES, type Currency, type SessionUser, type Settings } from '@/lib/types'
+import { recordAudit } from './audit'
+import { diffFields } from './audit-chain'
+import { badRequest } from './http'
+import { readDb, transact } from './store'
+
+// ---------------------------
+// Ledger settings
+// ---------------------------
+
+function parseSettings(body: Record<string, unknown>): Settings {
+  const { baseCurrency, companyName, companyAddress, fiscalYearStartMonth, approvalThreshold } = body
+  if (!CURRENCIES.includes(baseCurrency as never)) badRequest(`baseCurrency must be one of ${CURRENCIES.join(', ')}`)
+  if (typeof companyName !== 'string' || !companyName.trim()) badRequest('companyName is required')
+  if (companyAddress !== undefined && typeof companyAddress !== 'string') badRequest('companyAddress must be a string')
+  if (!Number.isInteger(fiscalYearStartMonth) || (fiscalYearStartMonth as number) < 1 || (fiscalYearStartMonth as number) > 12) {
+    badRequest('fiscalYearStartMonth must be a month number from 1 to 12')
+  }
+  if (typeof approvalThreshold !== 'number' || !Number.isFinite(approvalThreshold) || approvalThreshold < 0) {
+    badRequest('approvalThreshold must be a number of at least 0')
+  }
+  return {
+    baseCurrency: baseCurrency as Currency,
+    companyName: companyName.trim(),
+    companyAddress: companyAddress?.trim() || undefined,
+    fiscalYearStartMonth: fiscalYearStartMonth as number,
+    approvalThreshold,
+  }
+}
+
+export async function getSettings(): Promise<Settings> {
+  const db = await readDb()
+  return db.settings
+}
+
+export function updateSettings(actor: SessionUser, patch: Record<string, unknown>): Promise<Settings> {
+  return transact((db) => {
+    const existing = db.settings
+    const updated = parseSettings({ ...existing, ...patch })
+    db.settings = updated
+
+    const changes = diffFields(existing, updated, [
+      'baseCurrency',
+      'companyName',
+      'companyAddress',
+      'fiscalYearStartMonth',
+      'approvalThreshold',
+    ])
+    recordAudit(db, {
+      actor: actor.fullName,
+      action: 'update',
+      entityType: 'settings',
+      entityId: 'settings',
+      summary: changes.length ? `Updated settings: ${changes.map((c) => c.field).join(', ')}` : 'Saved settings (no changes)',
+      changes,
+    })
+    return updated
+  })
+}
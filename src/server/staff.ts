@@ -0,0 +1,185 @@
+import { hasPermission } from '@/lib/permissions'
+import {
+  CURRENCIES,
+  PAY_FREQUENCIES,
+  STAFF_STATUSES,
+  type CompensationEntry,
+  type SessionUser,
+  type Staff,
+  type StaffInput,
+  type StaffStatusChange,
+} from '@/lib/types'
+import { describeErrors, DAY_PATTERN, MONTH_PATTERN, validateStaff } from '@/lib/validation'
+import { canAccessStaff, denyAccess, scopeStaff } from './access'
+import { recordAudit } from './audit'
+import { diffFields } from './audit-chain'
+import { badRequest, notFound } from './http'
+import { newId, readDb, transact } from './store'
+
+// ---------------------------
+// Staff
+// ---------------------------
+
+export const AUDITED_FIELDS = [
+  'fullName',
+  'jobTitle',
+  'status',
+  'email',
+  'hireDate',
+  'terminationDate',
+  'terminationReason',
+  'compensation',
+] as const satisfies ReadonlyArray<keyof Staff>
+
+function optionalDay(value: unknown, field: string) {
+  if (value === undefined || value === null || value === '') return undefined
+  if (typeof value !== 'string' || !DAY_PATTERN.test(value) || Number.isNaN(Date.parse(value))) badRequest(`${field} must be YYYY-MM-DD`)
+  return value
+}
+
+function optionalText(value: unknown, field: string) {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'string') badRequest(`${field} must be a string`)
+  return value.trim() || undefined
+}
+
+/** Validates the salary history and returns it oldest first, one entry per effective month. */
+function parseCompensation(value: unknown): CompensationEntry[] | undefined {
+  if (value === undefined || value === null) return undefined
+  if (!Array.isArray(value)) badRequest('compensation must be an array')
+
+  const entries = value.map((raw: Record<string, unknown>, i): CompensationEntry => {
+    const { effectiveFrom, baseSalary, frequency, currency, note } = raw ?? {}
+    if (typeof effectiveFrom !== 'string' || !MONTH_PATTERN.test(effectiveFrom)) badRequest(`compensation[${i}].effectiveFrom must be YYYY-MM`)
+    if (typeof baseSalary !== 'number' || !Number.isFinite(baseSalary) || baseSalary < 0) {
+      badRequest(`compensation[${i}].baseSalary must be a non-negative number`)
+    }
+    if (!PAY_FREQUENCIES.includes(frequency as never)) badRequest(`compensation[${i}].frequency must be one of ${PAY_FREQUENCIES.join(', ')}`)
+    if (!CURRENCIES.includes(currency as never)) badRequest(`compensation[${i}].currency must be one of ${CURRENCIES.join(', ')}`)
+    if (note !== undefined && note !== null && typeof note !== 'string') badRequest(`compensation[${i}].note must be a string`)
+    return {
+      effectiveFrom,
+      baseSalary,
+      frequency: frequency as CompensationEntry['frequency'],
+      currency: currency as CompensationEntry['currency'],
+      note: note ? note.trim() || undefined : undefined,
+    }
+  })
+
+  entries.sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+  const duplicate = entries.find((e, i) => i > 0 && entries[i - 1].effectiveFrom === e.effectiveFrom)
+  if (duplicate) badRequest(`Only one salary change can take effect in ${duplicate.effectiveFrom}`)
+  return entries.length ? entries : undefined
+}
+
+/**
+ * Validates a full staff payload (for updates, the patch merged over the stored record).
+ * Termination details are required while the status is terminated and dropped otherwise,
+ * so setting a terminated record back to active is a rehire; the old dates stay in the
+ * status history.
+ */
+function parseStaff(body: Record<string, unknown>): Omit<StaffInput, 'statusReason'> {
+  const { fullName, jobTitle, status, email, compensation } = body
+
+  if (!STAFF_STATUSES.includes(status as never)) badRequest(`status must be one of ${STAFF_STATUSES.join(', ')}`)
+  const errors = validateStaff(body)
+  if (Object.keys(errors).length) badRequest(describeErrors(errors))
+
+  const hireDate = optionalDay(body.hireDate, 'hireDate')
+  const terminated = status === 'terminated'
+  const terminationDate = terminated ? optionalDay(body.terminationDate, 'terminationDate') : undefined
+  const terminationReason = terminated ? optionalText(body.terminationReason, 'terminationReason') : undefined
+
+  return {
+    fullName: (fullName as string).trim(),
+    jobTitle: (jobTitle as string).trim(),
+    status: status as Staff['status'],
+    email: typeof email === 'string' ? email.trim() || undefined : undefined,
+    hireDate,
+    terminationDate,
+    terminationReason,
+    compensation: parseCompensation(compensation),
+  }
+}
+
+/** The status history entry for a new record (no `from`) or a status change. Hires and rehires carry the hire date. */
+function statusChange(actor: SessionUser, staff: Staff, body: Record<string, unknown>, from?: Staff['status']): StaffStatusChange {
+  const hired = staff.status === 'active' && (!from || from === 'terminated')
+  return {
+    status: staff.status,
+    from,
+    effectiveDate: staff.status === 'terminated' ? staff.terminationDate : hired ? staff.hireDate : undefined,
+    reason: staff.status === 'terminated' ? staff.terminationReason : optionalText(body.statusReason, 'statusReason'),
+    at: new Date().toISOString(),
+    by: actor.fullName,
+  }
+}
+
+export async function listStaff(user: SessionUser): Promise<Staff[]> {
+  const db = await readDb()
+  return scopeStaff(user, db.staff)
+}
+
+export async function getStaff(user: SessionUser, id: string): Promise<Staff> {
+  const db = await readDb()
+  const staff = db.staff.find((s) => s.id === id) ?? notFound(`Staff ${id} not found`)
+  if (!canAccessStaff(user, id)) {
+    return denyAccess(user, { entityType: 'staff', entityId: id, description: `staff record ${staff.fullName}` })
+  }
+  return scopeStaff(user, [staff])[0]
+}
+
+/** Compensation holds pay amounts, so setting it needs `staff.pay` on top of `staff.edit`. */
+async function requirePayAccess(actor: SessionUser, staffId: string, body: Record<string, unknown>, isNew: boolean) {
+  const touchesPay = isNew ? body.compensation !== undefined && body.compensation !== null : 'compensation' in body
+  if (touchesPay && !hasPermission(actor, 'staff.pay')) {
+    await denyAccess(actor, { entityType: 'staff', entityId: staffId, description: 'edit compensation' })
+  }
+}
+
+export async function createStaff(actor: SessionUser, body: Record<string, unknown>): Promise<Staff> {
+  await requirePayAccess(actor, 'new', body, true)
+  return transact((db) => {
+    const created: Staff = { ...parseStaff(body), id: newId('s') }
+    created.statusHistory = [statusChange(actor, created, body)]
+    db.staff.unshift(created)
+
+    recordAudit(db, {
+      actor: actor.fullName,
+      action: 'create',
+      entityType: 'staff',
+      entityId: created.id,
+      summary: `Created staff ${created.fullName} (${created.jobTitle})`,
+      changes: diffFields(null, created, [...AUDITED_FIELDS]),
+    })
+    return scopeStaff(actor, [created])[0]
+  })
+}
+
+export async function updateStaff(actor: SessionUser, id: string, patch: Record<string, unknown>): Promise<Staff> {
+  await requirePayAccess(actor, id, patch, false)
+  return transact((db) => {
+    const index = db.staff.findIndex((s) => s.id === id)
+    if (index === -1) notFound(`Staff ${id} not found`)
+    const existing = db.staff[index]
+    const updated: Staff = { ...existing, ...parseStaff({ ...existing, ...patch }) }
+    const change = existing.status !== updated.status ? statusChange(actor, updated, patch, existing.status) : null
+    if (change) updated.statusHistory = [...(existing.statusHistory ?? []), change]
+    db.staff[index] = updated
+
+    recordAudit(db, {
+      actor: actor.fullName,
+      action: 'update',
+      entityType: 'staff',
+      entityId: id,
+      summary:
+        change
+          ? `Updated staff ${updated.fullName} status to ${updated.status}${change.reason ? ` | Reason: ${change.reason}` : ''}`
+          : JSON.stringify(existing.compensation) !== JSON.stringify(updated.compensation)
+            ? `Updated compensation for ${updated.fullName}`
+            : `Updated staff ${updated.fullName}`,
+      changes: diffFields(existing, updated, [...AUDITED_FIELDS]),
+    })
+    return scopeStaff(actor, [updated])[0]
+  })
+}
@@ -0,0 +1,141 @@
+import { CURRENCIES, type Currency, type PaymentMethod, type StatementLine } from '@/lib/types'
+import { parseCsv } from './csv'
+import { badRequest } from './http'
+
+// ---------------------------
+// Provider statement adapters
+// ---------------------------
+//
+// Each provider exports transfers with its own column names, date style and sign
+// convention. An adapter describes those per provider; `parseStatement` turns any
+// of them into StatementLine rows. Header names are matched case-insensitively and
+// several spellings are accepted, since the exports have changed over time.
+
+type StatementAdapter = {
+  columns: {
+    reference: string[]
+    date: string[]
+    amount: string[]
+    currency: string[]
+    recipient: string[]
+    status: string[]
+    direction: string[]
+  }
+  // Wise statements list money in and out with signed amounts; outgoing is negative.
+  signedAmounts: boolean
+}
+
+// Rows in these states never left the account.
+const SKIPPED_STATUSES = ['cancelled', 'canceled', 'failed', 'refunded', 'rejected', 'declined']
+
+const ADAPTERS: Record<PaymentMethod, StatementAdapter> = {
+  Wise: {
+    columns: {
+      reference: ['TransferWise ID', 'Wise ID', 'Transfer ID', 'ID'],
+      date: ['Date', 'Created on', 'Finished on'],
+      amount: ['Amount', 'Source amount (after fees)'],
+      currency: ['Currency', 'Source currency'],
+      recipient: ['Payee Name', 'Target name', 'Recipient'],
+      status: ['Status'],
+      direction: ['Direction'],
+    },
+    signedAmounts: true,
+  },
+  Sendwave: {
+    columns: {
+      reference: ['Transaction ID', 'Reference', 'Transfer ID'],
+      date: ['Date', 'Created At', 'Sent At'],
+      amount: ['Amount Sent', 'Send Amount', 'Amount'],
+      currency: ['Send Currency', 'Currency'],
+      recipient: ['Recipient', 'Recipient Name'],
+      status: ['Status'],
+      direction: [],
+    },
+    signedAmounts: false,
+  },
+  WorldRemit: {
+    columns: {
+      reference: ['Transaction reference', 'Transaction number', 'Reference'],
+      date: ['Date created', 'Date', 'Created'],
+      amount: ['Send amount', 'Amount sent', 'Amount'],
+      currency: ['Send currency', 'Currency'],
+      recipient: ['Recipient name', 'Recipient'],
+      status: ['Status'],
+      direction: [],
+    },
+    signedAmounts: false,
+  },
+}
+
+/** ISO dates as-is; slash, dash or dot dates are read day-first, as all three providers write them. */
+function parseStatementDate(value: string): string | null {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(value)
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`
+  const dayFirst = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})/.exec(value)
+  if (dayFirst) return `${dayFirst[3]}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`
+  return null
+}
+
+function parseAmount(value: string) {
+  const n = Number(value.replace(/[,\s]/g, ''))
+  return Number.isFinite(n) && value.trim() !== '' ? n : null
+}
+
+export function parseStatement(provider: PaymentMethod, text: string): { lines: StatementLine[]; skipped: number } {
+  const adapter = ADAPTERS[provider]
+  const [header, ...records] = parseCsv(text)
+  if (!header) badRequest('The statement has no header row')
+
+  const names = header.map((h) => h.trim().toLowerCase())
+  const column = (aliases: string[]) => {
+    for (const alias of aliases) {
+      const index = names.indexOf(alias.toLowerCase())
+      if (index !== -1) return index
+    }
+    return -1
+  }
+  const idx = {
+    reference: column(adapter.columns.reference),
+    date: column(adapter.columns.date),
+    amount: column(adapter.columns.amount),
+    currency: column(adapter.columns.currency),
+    recipient: column(adapter.columns.recipient),
+    status: column(adapter.columns.status),
+    direction: column(adapter.columns.direction),
+  }
+  const missing = (['reference', 'date', 'amount', 'currency'] as const).filter((k) => idx[k] === -1)
+  if (missing.length) {
+    badRequest(
+      `This does not look like a ${provider} statement: no ${missing
+        .map((k) => `"${adapter.columns[k][0]}"`)
+        .join(', ')} column. Check the provider you picked.`
+    )
+  }
+
+  const lines: StatementLine[] = []
+  let skipped = 0
+  records.forEach((record, i) => {
+    const get = (index: number) => (index === -1 ? '' : (record[index] ?? '').trim())
+    const reference = get(idx.reference)
+    const date = parseStatementDate(get(idx.date))
+    const rawAmount = parseAmount(get(idx.amount))
+    const currency = CURRENCIES.find((c) => c === get(idx.currency).toUpperCase()) as Currency | undefined
+    const status = get(idx.status).toLowerCase()
+    const direction = get(idx.direction).toLowerCase()
+
+    const outgoing = adapter.signedAmounts ? rawAmount !== null && rawAmount < 0 : direction === '' || direction === 'out'
+    if (!reference || !date || rawAmount === null || !currency || !outgoing || SKIPPED_STATUSES.includes(status)) {
+      skipped += 1
+      return
+    }
+    lines.push({
+      line: i + 2,
+      reference,
+      date,
+      amount: Math.abs(rawAmount),
+      currency,
+      recipient: get(idx.recipient) || undefined,
+    })
+  })
+  return { lines, skipped }
+}
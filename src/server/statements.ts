@@ -0,0 +1,125 @@
+import { isPaid } from '@/lib/payments'
+import {
+  PAYMENT_METHODS,
+  type Payment,
+  type PaymentMethod,
+  type StatementLine,
+  type StatementMatch,
+  type StatementReconciliation,
+} from '@/lib/types'
+import { badRequest } from './http'
+import { parseStatement } from './statement-adapters'
+import { readDb } from './store'
+
+// ---------------------------
+// Provider statement reconciliation
+// ---------------------------
+//
+// Matches a provider's statement against ledger payments made with that method.
+// Nothing is stored: the owner links or creates payments through the regular
+// payment endpoints and re-runs the comparison.
+
+const MAX_STATEMENT_BYTES = 5 * 1024 * 1024
+
+// How far a statement date may drift from `dateSent` (time zones, weekend processing).
+const DATE_TOLERANCE_DAYS = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function normalizeReference(ref: string) {
+  return ref.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+function daysApart(a: string, b: string) {
+  return Math.abs(Date.parse(a.slice(0, 10)) - Date.parse(b.slice(0, 10))) / DAY_MS
+}
+
+function shiftDay(day: string, delta: number) {
+  return new Date(Date.parse(day) + delta * DAY_MS).toISOString().slice(0, 10)
+}
+
+function sameAmount(line: StatementLine, p: Payment) {
+  return line.currency === p.currency && Math.abs(line.amount - p.amount) < 0.005
+}
+
+function discrepanciesFor(line: StatementLine, p: Payment): string[] {
+  const out: string[] = []
+  if (!sameAmount(line, p)) out.push(`Statement shows ${line.amount} ${line.currency}, ledger has ${p.amount} ${p.currency}`)
+  if (daysApart(line.date, p.dateSent) > DATE_TOLERANCE_DAYS) out.push(`Statement date ${line.date}, ledger sent ${p.dateSent.slice(0, 10)}`)
+  return out
+}
+
+/**
+ * Reference IDs match first. Lines left over are paired with a payment of the same
+ * amount and currency sent within a few days, but only payments that have no
+ * reference yet, since a different reference means a different transfer.
+ */
+function matchLines(lines: StatementLine[], candidates: Payment[]) {
+  const used = new Set<string>()
+  const matched: StatementMatch[] = []
+  const leftover: StatementLine[] = []
+
+  for (const line of lines) {
+    const ref = normalizeReference(line.reference)
+    const p = candidates.find((c) => !used.has(c.id) && c.referenceId && normalizeReference(c.referenceId) === ref)
+    if (p) {
+      used.add(p.id)
+      matched.push({ line, paymentId: p.id, matchedBy: 'reference', discrepancies: discrepanciesFor(line, p) })
+    } else {
+      leftover.push(line)
+    }
+  }
+
+  const unmatchedStatement: StatementLine[] = []
+  for (const line of leftover) {
+    const p = candidates
+      .filter((c) => !used.has(c.id) && !c.referenceId && sameAmount(line, c) && daysApart(line.date, c.dateSent) <= DATE_TOLERANCE_DAYS)
+      .sort((a, b) => daysApart(line.date, a.dateSent) - daysApart(line.date, b.dateSent))[0]
+    if (p) {
+      used.add(p.id)
+      matched.push({ line, paymentId: p.id, matchedBy: 'amount-date', discrepancies: [] })
+    } else {
+      unmatchedStatement.push(line)
+    }
+  }
+  return { matched, unmatchedStatement, used }
+}
+
+export async function reconcileStatement(provider: unknown, file: unknown): Promise<StatementReconciliation> {
+  if (!PAYMENT_METHODS.includes(provider as never)) badRequest(`provider must be one of ${PAYMENT_METHODS.join(', ')}`)
+  if (!(file instanceof File)) badRequest('Expected a multipart "file" field')
+  if (file.size === 0) badRequest('The uploaded file is empty')
+  if (file.size > MAX_STATEMENT_BYTES) badRequest('Statements must be 5 MB or smaller')
+
+  const { lines, skipped } = parseStatement(provider as PaymentMethod, await file.text())
+  if (lines.length === 0) badRequest('No outgoing transfers found in this statement')
+
+  const dates = lines.map((l) => l.date).sort()
+  const from = dates[0]
+  const to = dates[dates.length - 1]
+
+  const db = await readDb()
+  // Only money that actually left can be on a statement.
+  const candidates = db.payments.filter((p) => p.method === provider && isPaid(p))
+  const { matched, unmatchedStatement, used } = matchLines(lines, candidates)
+
+  // Ledger payments the statement should have covered: same provider, inside the statement period.
+  const windowFrom = shiftDay(from, -DATE_TOLERANCE_DAYS)
+  const windowTo = shiftDay(to, DATE_TOLERANCE_DAYS)
+  const unmatchedLedger = candidates
+    .filter((p) => !used.has(p.id) && p.dateSent.slice(0, 10) >= windowFrom && p.dateSent.slice(0, 10) <= windowTo)
+    .sort((a, b) => a.dateSent.localeCompare(b.dateSent))
+    .map((p) => p.id)
+
+  return {
+    provider: provider as PaymentMethod,
+    fileName: file.name || 'statement.csv',
+    lineCount: lines.length,
+    skippedLines: skipped,
+    from,
+    to,
+    matched,
+    unmatchedStatement,
+    unmatchedLedger,
+  }
+}
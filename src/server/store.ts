@@ -0,0 +1,164 @@
+import { randomBytes } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+import { singleLine } from '@/lib/pay-lines'
+import { DEFAULT_ROLE_PERMISSIONS } from '@/lib/permissions'
+import type {
+  Advance,
+  AuditLog,
+  FxRate,
+  ImportBatch,
+  Payment,
+  PaymentTemplate,
+  PayrollRun,
+  Role,
+  RolePermissions,
+  Settings,
+  Staff,
+  TrashItem,
+} from '@/lib/types'
+import { sealAuditChain } from './audit-chain'
+import { hashPassword } from './passwords'
+import { seedAudit, seedFxRates, seedLogins, seedPayments, seedSettings, seedStaff } from './seed'
+
+// ---------------------------
+// File-backed store
+// ---------------------------
+//
+// The whole ledger lives in one JSON document on local disk. Reads load the
+// file fresh; writes go through `transact`, which serializes mutations in this
+// process and replaces the file atomically (write temp file, then rename).
+// Swap this module out when the Payload/Postgres backend lands.
+
+export type UserRecord = {
+  id: string
+  email: string // lower-cased
+  passwordHash: string
+  role: Role
+  staffId: string
+  createdAt: string
+}
+
+export type SessionRecord = {
+  tokenHash: string
+  userId: string
+  createdAt: string
+  expiresAt: string
+}
+
+export type Database = {
+  staff: Staff[]
+  payments: Payment[]
+  audit: AuditLog[]
+  users: UserRecord[]
+  sessions: SessionRecord[]
+  fxRates: FxRate[]
+  settings: Settings
+  payrollRuns: PayrollRun[]
+  importBatches: ImportBatch[]
+  trash: TrashItem[]
+  roles: RolePermissions
+  advances: Advance[]
+  paymentTemplates: PaymentTemplate[]
+  auditChainSince: string // when the audit log was first sealed into the hash chain
+}
+
+export const DATA_DIR = process.env.LOADHARBOUR_DATA_DIR || path.join(process.cwd(), 'data')
+
+const DB_FILE = path.join(DATA_DIR, 'db.json')
+
+// Route handlers are bundled separately in dev, so the write queue is kept on
+// globalThis to stay shared across them.
+const globalForStore = globalThis as unknown as { __loadharbourWriteQueue?: Promise<unknown> }
+
+// Initial contents of each collection. Also used to fill in collections that
+// were added after an existing data file was created.
+const seeds: { [K in keyof Database]: () => Database[K] } = {
+  staff: () => structuredClone(seedStaff),
+  payments: () => structuredClone(seedPayments),
+  audit: () => sealAuditChain(structuredClone(seedAudit)),
+  users: () => {
+    const now = new Date().toISOString()
+    const password = process.env.LOADHARBOUR_SEED_PASSWORD || 'loadharbour'
+    return seedLogins.map((u) => ({
+      ...u,
+      email: (seedStaff.find((s) => s.id === u.staffId)?.email || '').toLowerCase(),
+      passwordHash: hashPassword(password),
+      createdAt: now,
+    }))
+  },
+  sessions: () => [],
+  fxRates: () => structuredClone(seedFxRates),
+  settings: () => structuredClone(seedSettings),
+  payrollRuns: () => [],
+  importBatches: () => [],
+  trash: () => [],
+  roles: () => structuredClone(DEFAULT_ROLE_PERMISSIONS),
+  advances: () => [],
+  paymentTemplates: () => [],
+  auditChainSince: () => new Date().toISOString(),
+}
+
+async function load(): Promise<Database> {
+  let stored: Partial<Database> = {}
+  let exists = true
+  try {
+    stored = JSON.parse(await fs.readFile(DB_FILE, 'utf8')) as Partial<Database>
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    exists = false
+  }
+
+  const db = { ...stored } as Record<keyof Database, unknown>
+  // Data files written before the hash chain are sealed once, in order, and stamped. After
+  // that an unsealed entry is left for verifyAuditChain to report, never quietly sealed over.
+  const unchained = exists && db.auditChainSince === undefined
+  for (const key of Object.keys(seeds) as Array<keyof Database>) {
+    if (db[key] === undefined) db[key] = seeds[key]()
+  }
+  // Settings gain fields over time; older data files take the defaults for new ones.
+  db.settings = { ...seeds.settings(), ...(db.settings as Partial<Settings>) }
+  db.roles = { ...seeds.roles(), ...(db.roles as Partial<RolePermissions>) }
+  // The single owner role became admin when granular roles arrived.
+  for (const u of db.users as UserRecord[]) if ((u.role as string) === 'owner') u.role = 'admin'
+  // Payments recorded before the approval workflow had all been sent, and those from
+  // before line items were one amount.
+  const payments = [...(db.payments as Payment[]), ...(db.trash as TrashItem[]).flatMap((t) => (t.entityType === 'payment' ? [t.record] : []))]
+  for (const p of payments) {
+    p.status ??= 'sent'
+    p.lines ??= singleLine(p.category, p.amount)
+  }
+  if (unchained) db.audit = sealAuditChain(db.audit as AuditLog[])
+  if (!exists || unchained) await save(db as Database)
+  return db as Database
+}
+
+async function save(db: Database) {
+  await fs.mkdir(DATA_DIR, { recursive: true })
+  const tmp = `${DB_FILE}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`
+  await fs.writeFile(tmp, JSON.stringify(db, null, 2), 'utf8')
+  await fs.rename(tmp, DB_FILE)
+}
+
+export async function readDb(): Promise<Database> {
+  // Wait for in-flight writes so callers never see a half-applied transaction.
+  await (globalForStore.__loadharbourWriteQueue ?? Promise.resolve())
+  return load()
+}
+
+export function transact<T>(fn: (db: Database) => T | Promise<T>): Promise<T> {
+  const previous = globalForStore.__loadharbourWriteQueue ?? Promise.resolve()
+  const run = previous.then(async () => {
+    const db = await load()
+    const result = await fn(db)
+    await save(db)
+    return result
+  })
+  globalForStore.__loadharbourWriteQueue = run.catch(() => undefined)
+  return run
+}
+
+export function newId(prefix: string) {
+  return `${prefix}${Date.now().toString(36)}-${randomBytes(4).toString('hex')}`
+}
@@ -0,0 +1,180 @@
+import { formatMoney } from '@/lib/format'
+import { hasPermission } from '@/lib/permissions'
+import type { Payment, Permission, SessionUser, TrashItem } from '@/lib/types'
+import { canAccessPay, denyAccess } from './access'
+import { recordAudit } from './audit'
+import { diffFields } from './audit-chain'
+import { badRequest, notFound } from './http'
+import { AUDITED_FIELDS as PAYMENT_FIELDS } from './payments'
+import { AUDITED_FIELDS as STAFF_FIELDS } from './staff'
+import { newId, readDb, transact, type Database } from './store'
+
+// ---------------------------
+// Trash (soft delete)
+// ---------------------------
+//
+// Deleting a payment or staff record moves it, whole, out of its collection into
+// `trash` with the reason given. Everything that reads `payments` or `staff`
+// (lists, totals, exports, reports) therefore ignores it without extra filtering.
+// Restoring puts the record back unchanged; purging removes it for good. Every
+// step is audited, and earlier audit entries for the record are never touched.
+
+const MAX_REASON_LENGTH = 500
+
+function parseReason(body: Record<string, unknown>, action: string) {
+  const { reason } = body
+  if (typeof reason !== 'string' || !reason.trim()) badRequest(`A reason is required to ${action}`)
+  if (reason.length > MAX_REASON_LENGTH) badRequest(`The reason must be at most ${MAX_REASON_LENGTH} characters`)
+  return reason.trim()
+}
+
+function describePayment(db: Database, p: Payment) {
+  const staffName = db.staff.find((s) => s.id === p.staffId)?.fullName || p.staffId
+  return `payment ${p.id} for ${staffName} (${formatMoney(p.amount, p.currency)}, ${p.category}, ${p.monthEarned})`
+}
+
+function findItem(db: Database, id: string) {
+  return db.trash.find((t) => t.id === id) ?? notFound(`Trash item ${id} not found`)
+}
+
+// A trashed staff record keeps its compensation, which HR (staff.edit without
+// payments.view) must not see in the trash, a restore response or the audit diffs.
+function scopeItem(user: SessionUser, item: TrashItem): TrashItem {
+  if (item.entityType === 'payment' || canAccessPay(user, item.record.id)) return item
+  return { ...item, record: { ...item.record, compensation: undefined } }
+}
+
+/** The audited fields of a trashed record, as `actor` may see them, removed from (`out`) or returned to (`in`) the ledger. */
+function recordChanges(actor: SessionUser, trashed: TrashItem, direction: 'out' | 'in') {
+  const item = scopeItem(actor, trashed)
+  const pair = <T extends object>(record: T): [T | null, T | null] => (direction === 'out' ? [record, null] : [null, record])
+  return item.entityType === 'payment'
+    ? diffFields(...pair(item.record), [...PAYMENT_FIELDS])
+    : diffFields(...pair(item.record), [...STAFF_FIELDS])
+}
+
+// Restoring (and seeing) a trashed record needs the permission that could have deleted it.
+const EDIT_PERMISSION: Record<TrashItem['entityType'], Permission> = { payment: 'payments.edit', staff: 'staff.edit' }
+
+export async function listTrash(user: SessionUser): Promise<TrashItem[]> {
+  if (!hasPermission(user, 'payments.edit') && !hasPermission(user, 'staff.edit')) {
+    return denyAccess(user, { entityType: 'user', entityId: user.userId, description: 'the trash' })
+  }
+  const db = await readDb()
+  return db.trash
+    .filter((t) => hasPermission(user, EDIT_PERMISSION[t.entityType]))
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+    .map((t) => scopeItem(user, t))
+}
+
+function moveToTrash(db: Database, actor: SessionUser, item: TrashItem) {
+  db.trash.push(item)
+  recordAudit(db, {
+    timestamp: item.deletedAt,
+    actor: actor.fullName,
+    action: 'delete',
+    entityType: item.entityType,
+    entityId: item.record.id,
+    summary: `Moved ${item.label} to trash | Reason: ${item.reason}`,
+    changes: recordChanges(actor, item, 'out'),
+  })
+  return scopeItem(actor, item)
+}
+
+export function trashPayment(actor: SessionUser, id: string, body: Record<string, unknown>): Promise<TrashItem> {
+  const reason = parseReason(body, 'delete a payment')
+  return transact((db) => {
+    const existing = db.payments.find((p) => p.id === id) ?? notFound(`Payment ${id} not found`)
+    db.payments = db.payments.filter((p) => p.id !== id)
+    return moveToTrash(db, actor, {
+      id: newId('tr'),
+      entityType: 'payment',
+      record: existing,
+      label: describePayment(db, existing),
+      reason,
+      deletedAt: new Date().toISOString(),
+      deletedBy: actor.fullName,
+    })
+  })
+}
+
+/**
+ * Staff can only be deleted once nothing in the ledger points at them: their
+ * payments must be deleted first (or the record marked inactive instead). Their
+ * login stops working while the record is in the trash.
+ */
+export function trashStaff(actor: SessionUser, id: string, body: Record<string, unknown>): Promise<TrashItem> {
+  const reason = parseReason(body, 'delete a staff record')
+  return transact((db) => {
+    const existing = db.staff.find((s) => s.id === id) ?? notFound(`Staff ${id} not found`)
+    if (id === actor.staffId) badRequest('You cannot delete your own staff record')
+    const paymentCount = db.payments.filter((p) => p.staffId === id).length
+    if (paymentCount) {
+      badRequest(`${existing.fullName} has ${paymentCount} payment(s) in the ledger. Mark them inactive, or delete the payments first.`)
+    }
+    const run = db.payrollRuns.find((r) => r.status === 'draft' && r.items.some((item) => item.staffId === id))
+    if (run) badRequest(`${existing.fullName} is on the draft payroll run for ${run.monthEarned}. Remove them from it first.`)
+
+    db.staff = db.staff.filter((s) => s.id !== id)
+    const userIds = new Set(db.users.filter((u) => u.staffId === id).map((u) => u.id))
+    db.sessions = db.sessions.filter((s) => !userIds.has(s.userId))
+    return moveToTrash(db, actor, {
+      id: newId('tr'),
+      entityType: 'staff',
+      record: existing,
+      label: `staff ${existing.fullName} (${existing.jobTitle})`,
+      reason,
+      deletedAt: new Date().toISOString(),
+      deletedBy: actor.fullName,
+    })
+  })
+}
+
+export async function restoreTrashItem(actor: SessionUser, id: string): Promise<TrashItem> {
+  const pending = findItem(await readDb(), id)
+  if (!hasPermission(actor, EDIT_PERMISSION[pending.entityType])) {
+    return denyAccess(actor, { entityType: pending.entityType, entityId: pending.record.id, description: `restore ${pending.label}` })
+  }
+  return transact((db) => {
+    const item = findItem(db, id)
+    if (item.entityType === 'payment') {
+      const staff = db.staff.find((s) => s.id === item.record.staffId)
+      if (!staff) badRequest(`Restore the staff record for this payment (${item.record.staffId}) first`)
+      if (db.payments.some((p) => p.id === item.record.id)) badRequest(`Payment ${item.record.id} is already in the ledger`)
+      db.payments.unshift(item.record)
+    } else {
+      if (db.staff.some((s) => s.id === item.record.id)) badRequest(`Staff ${item.record.id} is already on the roster`)
+      db.staff.unshift(item.record)
+    }
+    db.trash = db.trash.filter((t) => t.id !== id)
+
+    recordAudit(db, {
+      actor: actor.fullName,
+      action: 'restore',
+      entityType: item.entityType,
+      entityId: item.record.id,
+      summary: `Restored ${item.label} from trash (deleted by ${item.deletedBy} on ${item.deletedAt.slice(0, 10)})`,
+      changes: recordChanges(actor, item, 'in'),
+    })
+    return scopeItem(actor, item)
+  })
+}
+
+/** Permanent: the record is gone, only its audit history remains. Needs its own reason. */
+export function purgeTrashItem(actor: SessionUser, id: string, body: Record<string, unknown>): Promise<{ id: string }> {
+  const reason = parseReason(body, 'purge an item')
+  return transact((db) => {
+    const item = findItem(db, id)
+    db.trash = db.trash.filter((t) => t.id !== id)
+
+    recordAudit(db, {
+      actor: actor.fullName,
+      action: 'purge',
+      entityType: item.entityType,
+      entityId: item.record.id,
+      summary: `Permanently deleted ${item.label} | Reason: ${reason}`,
+      changes: diffFields({ trashId: item.id, deleteReason: item.reason }, null, ['trashId', 'deleteReason']),
+    })
+    return { id }
+  })
+}